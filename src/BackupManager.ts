@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { Task, TaskStore } from './Task';
+import { StorageManager } from './StorageManager';
+import { TaskManager } from './TaskManager';
+import { StorageSchema } from './StorageSchema';
+import { SharedTaskFile } from './SharedTaskFile';
+
+/**
+ * Why a backup was taken
+ */
+export type BackupReason =
+    | 'daily'         // Taken once a day
+    | 'delete'        // Before a task or template was deleted
+    | 'import'        // Before tasks were imported
+    | 'restore'       // Before another backup was restored
+    | 'clear';        // Before all tasks were cleared
+
+/**
+ * A backup file, as listed for restoring
+ */
+export interface BackupInfo {
+    /** The backup file */
+    uri: vscode.Uri;
+    /** When the backup was taken */
+    date: Date;
+    /** Why the backup was taken */
+    reason: BackupReason;
+    /** Number of tasks in the backup */
+    taskCount: number;
+    /** Number of templates in the backup */
+    templateCount: number;
+    /** Stores the tasks were backed up from */
+    stores: TaskStore[];
+}
+
+/**
+ * Differences between the current tasks and the tasks of a backup, matched by id
+ */
+export interface BackupComparison {
+    /** Tasks only in the backup, which restoring brings back */
+    added: Task[];
+    /** Tasks not in the backup, which restoring removes */
+    removed: Task[];
+    /** Tasks in both with different content, as they are now and in the backup */
+    changed: { current: Task; backup: Task }[];
+}
+
+/**
+ * Takes timestamped snapshots of the tasks and templates in the extension's global storage folder,
+ * daily and before destructive operations, keeping the number of snapshots set in recurringTasks.backups.retention.
+ * Each snapshot records the workspace and the stores it was taken from: a window only lists, restores and prunes
+ * the snapshots of its own workspace, as the workspace and shared stores of another one are not its own.
+ */
+export class BackupManager implements vscode.Disposable {
+    private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+    private static readonly CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+    private readonly backupFolder: vscode.Uri;
+    private readonly comparisonFile: vscode.Uri;
+    /** Pending writes and clean-ups of backup files, run one after the other */
+    private queue: Promise<unknown> = Promise.resolve();
+    private dailyTimer: NodeJS.Timeout | undefined;
+
+    constructor(context: vscode.ExtensionContext, private readonly storageManager: StorageManager, private readonly taskManager: TaskManager) {
+        this.backupFolder = vscode.Uri.joinPath(context.globalStorageUri, 'backups');
+        this.comparisonFile = vscode.Uri.joinPath(context.globalStorageUri, 'current-tasks.json');
+    }
+
+    /**
+     * Takes a backup of the tasks and templates as they are now in this window.
+     * The data is written out right away, so that a change made after the call is not part of the backup.
+     * @returns The backup, or undefined if there was nothing to back up or it could not be written
+     */
+    createBackup(reason: BackupReason): Promise<BackupInfo | undefined> {
+        const date = new Date();
+        const tasks = this.taskManager.getAllTasks();
+        const templates = this.taskManager.getTemplates();
+        const stores = this.storageManager.getAvailableStores();
+        const content = JSON.stringify({
+            backupDate: date.toISOString(),
+            reason,
+            version: StorageSchema.CURRENT_VERSION,
+            workspace: this.storageManager.getWorkspaceId(),
+            stores,
+            tasks,
+            templates
+        }, null, 2);
+
+        const backup = this.queue.then(async () => {
+            if (tasks.length === 0 && templates.length === 0) {
+                return undefined;
+            }
+
+            const uri = vscode.Uri.joinPath(this.backupFolder, `${date.toISOString().replace(/[:.]/g, '-')}-${reason}.json`);
+            await vscode.workspace.fs.createDirectory(this.backupFolder);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            await this.pruneBackups();
+
+            return { uri, date, reason, taskCount: tasks.length, templateCount: templates.length, stores };
+        }).catch(error => {
+            console.error('Failed to back up tasks:', error);
+            return undefined;
+        });
+
+        this.queue = backup;
+        return backup;
+    }
+
+    /**
+     * Takes a daily backup now if the last one is more than a day old, then checks again every hour
+     */
+    startDailyBackups(): void {
+        const check = async () => {
+            const lastDaily = (await this.listBackups()).find(backup => backup.reason === 'daily');
+            if (!lastDaily || Date.now() - lastDaily.date.getTime() >= BackupManager.DAY_MS) {
+                await this.createBackup('daily');
+            }
+        };
+
+        check();
+        this.dailyTimer = setInterval(check, BackupManager.CHECK_INTERVAL_MS);
+    }
+
+    /**
+     * Lists the backups taken in this workspace, most recent first; unreadable files are left out
+     */
+    async listBackups(): Promise<BackupInfo[]> {
+        const workspace = this.storageManager.getWorkspaceId();
+        const backups: BackupInfo[] = [];
+
+        for (const uri of await this.getBackupFiles()) {
+            try {
+                const data = JSON.parse(await this.readBackup(uri));
+                if (data.workspace !== workspace) {
+                    continue;
+                }
+                backups.push({
+                    uri,
+                    date: new Date(data.backupDate),
+                    reason: data.reason,
+                    taskCount: Array.isArray(data.tasks) ? data.tasks.length : 0,
+                    templateCount: Array.isArray(data.templates) ? data.templates.length : 0,
+                    stores: Array.isArray(data.stores) ? data.stores : ['global']
+                });
+            } catch (error) {
+                console.error('Failed to read backup:', uri.fsPath, error);
+            }
+        }
+
+        return backups.sort((a, b) => b.date.getTime() - a.date.getTime());
+    }
+
+    /**
+     * Reads the content of a backup, in the export format that importing and restoring take
+     */
+    async readBackup(uri: vscode.Uri): Promise<string> {
+        return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    }
+
+    /**
+     * Writes the current tasks (in the export format) next to the backups, to show them side by side with a backup
+     */
+    async writeComparisonFile(content: string): Promise<vscode.Uri> {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.comparisonFile, '..'));
+        await vscode.workspace.fs.writeFile(this.comparisonFile, Buffer.from(content, 'utf8'));
+        return this.comparisonFile;
+    }
+
+    /**
+     * Gets the stores whose tasks restoring a backup replaces: the stores it was taken from that this window has,
+     * the shared store only when asked for. A backup without tasks replaces none, so that restoring its templates keeps the tasks.
+     */
+    static getRestoredStores(backupContent: string, availableStores: TaskStore[], includeShared: boolean): TaskStore[] {
+        const data = JSON.parse(backupContent);
+        if (!Array.isArray(data.tasks) || data.tasks.length === 0) {
+            return [];
+        }
+        const stores: TaskStore[] = Array.isArray(data.stores) ? data.stores : ['global'];
+        return stores.filter(store => availableStores.includes(store) && (store !== 'shared' || includeShared));
+    }
+
+    /**
+     * Compares the current tasks with the tasks of a backup, in the stores restoring it replaces
+     */
+    static compare(currentTasks: Task[], backupContent: string, stores: TaskStore[]): BackupComparison {
+        const data = JSON.parse(backupContent);
+        const isRestored = (task: Task) => stores.includes(task.store || 'global');
+        const backupTasks = (StorageSchema.migrate(Array.isArray(data.tasks) ? data.tasks : [], StorageSchema.getVersion(data.version)).tasks as unknown as Task[])
+            .filter(isRestored);
+        const restoredTasks = currentTasks.filter(isRestored);
+        const currentById = new Map(restoredTasks.map(task => [task.id, task]));
+        const backupIds = new Set(backupTasks.map(task => task.id));
+
+        return {
+            added: backupTasks.filter(task => !currentById.has(task.id)),
+            removed: restoredTasks.filter(task => !backupIds.has(task.id)),
+            changed: backupTasks
+                .filter(task => currentById.has(task.id) && !SharedTaskFile.isSame(currentById.get(task.id)!, task))
+                .map(task => ({ current: currentById.get(task.id)!, backup: task }))
+        };
+    }
+
+    /**
+     * Gets the backup files, oldest first (their names start with the backup date)
+     */
+    private async getBackupFiles(): Promise<vscode.Uri[]> {
+        try {
+            const entries = await vscode.workspace.fs.readDirectory(this.backupFolder);
+            return entries
+                .filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.json'))
+                .map(([name]) => name)
+                .sort()
+                .map(name => vscode.Uri.joinPath(this.backupFolder, name));
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Deletes the oldest backups of this workspace beyond the retention count
+     */
+    private async pruneBackups(): Promise<void> {
+        const retention = Math.max(1, vscode.workspace.getConfiguration('recurringTasks.backups').get<number>('retention', 30));
+
+        for (const backup of (await this.listBackups()).slice(retention)) {
+            await vscode.workspace.fs.delete(backup.uri);
+        }
+    }
+
+    /**
+     * Stops the daily backups
+     */
+    dispose(): void {
+        if (this.dailyTimer) {
+            clearInterval(this.dailyTimer);
+        }
+    }
+}
@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+import { RecurrenceRuleHelper } from './RecurrenceRule';
+
+/**
+ * A holiday as declared in a holiday file
+ */
+export interface HolidayDefinition {
+    /** Display name of the holiday */
+    name: string;
+    /** Either 'YYYY-MM-DD' for a single day or 'MM-DD' for a day repeating every year */
+    date?: string;
+    /** Number of days after Easter Sunday (e.g. 1 for Easter Monday) */
+    easterOffset?: number;
+    /** Yearly recurrence rule for floating holidays (e.g. 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH') */
+    rrule?: string;
+}
+
+/**
+ * Holiday calendars shipped with the extension (file names in resources/holidays)
+ */
+const BUNDLED_CALENDARS = ['fr', 'us'];
+
+/**
+ * Knows which days are working days: weekends and holidays are not
+ */
+export class BusinessCalendar {
+    private static active: BusinessCalendar = new BusinessCalendar([]);
+
+    /** Resolved holidays per year, keyed by 'YYYY-MM-DD' */
+    private readonly holidaysByYear = new Map<number, Map<string, string>>();
+
+    constructor(
+        private readonly holidays: HolidayDefinition[],
+        private readonly weekendDays: number[] = [0, 6]
+    ) {}
+
+    /**
+     * Gets the calendar used for business-day calculations
+     */
+    static getActive(): BusinessCalendar {
+        return BusinessCalendar.active;
+    }
+
+    /**
+     * Sets the calendar used for business-day calculations
+     */
+    static setActive(calendar: BusinessCalendar): void {
+        BusinessCalendar.active = calendar;
+    }
+
+    /**
+     * Checks if a date is neither a weekend day nor a holiday
+     */
+    isWorkingDay(date: Date): boolean {
+        return !this.weekendDays.includes(date.getDay()) && this.getHolidayName(date) === undefined;
+    }
+
+    /**
+     * Gets the name of the holiday falling on a date, if any
+     */
+    getHolidayName(date: Date): string | undefined {
+        return this.getHolidays(date.getFullYear()).get(BusinessCalendar.toKey(date));
+    }
+
+    /**
+     * Moves a date by a number of working days (negative to go back), keeping its time of day
+     */
+    addBusinessDays(date: Date, count: number): Date {
+        const step = count < 0 ? -1 : 1;
+        const result = new Date(date);
+        let remaining = Math.abs(count);
+
+        while (remaining > 0) {
+            result.setDate(result.getDate() + step);
+            if (this.isWorkingDay(result)) {
+                remaining--;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Moves a date to the nearest working day in the given direction (unchanged if it already is one)
+     */
+    roll(date: Date, direction: 'next' | 'previous'): Date {
+        const result = new Date(date);
+
+        // A year without any working day would be a broken holiday file, don't loop forever
+        for (let i = 0; i < 366 && !this.isWorkingDay(result); i++) {
+            result.setDate(result.getDate() + (direction === 'next' ? 1 : -1));
+        }
+
+        return result;
+    }
+
+    /**
+     * Resolves the holidays of a year, caching the result
+     */
+    private getHolidays(year: number): Map<string, string> {
+        let holidays = this.holidaysByYear.get(year);
+        if (holidays) {
+            return holidays;
+        }
+
+        holidays = new Map<string, string>();
+        for (const holiday of this.holidays) {
+            for (const date of BusinessCalendar.resolveHoliday(holiday, year)) {
+                holidays.set(BusinessCalendar.toKey(date), holiday.name);
+            }
+        }
+
+        this.holidaysByYear.set(year, holidays);
+        return holidays;
+    }
+
+    /**
+     * Gets the dates a holiday falls on within a year
+     */
+    private static resolveHoliday(holiday: HolidayDefinition, year: number): Date[] {
+        if (holiday.easterOffset !== undefined) {
+            const easter = BusinessCalendar.getEasterSunday(year);
+            return [new Date(year, easter.getMonth(), easter.getDate() + holiday.easterOffset)];
+        }
+
+        if (holiday.rrule) {
+            // Yearly rules are expanded over the requested year only
+            return RecurrenceRuleHelper.getPeriodOccurrences(RecurrenceRuleHelper.parse(holiday.rrule), new Date(year, 0, 1), 0);
+        }
+
+        const parts = (holiday.date || '').split('-').map(part => parseInt(part, 10));
+        if (parts.length === 2) {
+            return [new Date(year, parts[0] - 1, parts[1])];
+        }
+        return parts[0] === year ? [new Date(parts[0], parts[1] - 1, parts[2])] : [];
+    }
+
+    /**
+     * Computes the date of Easter Sunday (Gregorian calendar, anonymous algorithm)
+     */
+    private static getEasterSunday(year: number): Date {
+        const a = year % 19;
+        const b = Math.floor(year / 100);
+        const c = year % 100;
+        const d = Math.floor(b / 4);
+        const e = b % 4;
+        const f = Math.floor((b + 8) / 25);
+        const g = Math.floor((b - f + 1) / 3);
+        const h = (19 * a + b - d - g + 15) % 30;
+        const i = Math.floor(c / 4);
+        const k = c % 4;
+        const l = (32 + 2 * e + 2 * i - h - k) % 7;
+        const m = Math.floor((a + 11 * h + 22 * l) / 451);
+        const month = Math.floor((h + l - 7 * m + 114) / 31);
+        const day = ((h + l - 7 * m + 114) % 31) + 1;
+        return new Date(year, month - 1, day);
+    }
+
+    /**
+     * Formats a date as a 'YYYY-MM-DD' key in local time
+     */
+    private static toKey(date: Date): string {
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+
+    /**
+     * Parses a holiday file, choosing the format from the file name
+     * @throws Error if the content is not a valid holiday file
+     */
+    static parseHolidayFile(content: string, fileName: string): HolidayDefinition[] {
+        return fileName.toLowerCase().endsWith('.ics')
+            ? BusinessCalendar.parseIcs(content)
+            : BusinessCalendar.parseJson(content);
+    }
+
+    /**
+     * Parses a JSON holiday file: either an array of holidays or an object with a "holidays" array
+     * @throws Error if an entry is invalid
+     */
+    static parseJson(content: string): HolidayDefinition[] {
+        const data = JSON.parse(content);
+        const entries = Array.isArray(data) ? data : data?.holidays;
+
+        if (!Array.isArray(entries)) {
+            throw new Error('holidays array not found');
+        }
+
+        return entries.map((entry: unknown, index: number) => {
+            if (!BusinessCalendar.isHolidayEntry(entry)) {
+                throw new Error(`Holiday ${index + 1}: not an object`);
+            }
+
+            const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : `Holiday ${index + 1}`;
+            const definedParts = (['date', 'easterOffset', 'rrule'] as const).filter(key => entry[key] !== undefined);
+
+            if (definedParts.length !== 1) {
+                throw new Error(`${name}: exactly one of date, easterOffset or rrule is required`);
+            }
+
+            if (entry.date !== undefined) {
+                if (typeof entry.date !== 'string' || !/^(\d{4}-)?\d{2}-\d{2}$/.test(entry.date)) {
+                    throw new Error(`${name}: date must be YYYY-MM-DD or MM-DD`);
+                }
+                return { name, date: entry.date };
+            }
+
+            if (entry.easterOffset !== undefined) {
+                if (typeof entry.easterOffset !== 'number' || !Number.isInteger(entry.easterOffset)) {
+                    throw new Error(`${name}: easterOffset must be an integer`);
+                }
+                return { name, easterOffset: entry.easterOffset };
+            }
+
+            const rule = RecurrenceRuleHelper.parse(String(entry.rrule));
+            if (rule.freq !== 'YEARLY' || rule.interval !== 1) {
+                throw new Error(`${name}: only FREQ=YEARLY rules are supported`);
+            }
+            return { name, rrule: RecurrenceRuleHelper.format(rule) };
+        });
+    }
+
+    /**
+     * Checks if a parsed JSON value is an object whose properties can be read as a holiday
+     */
+    private static isHolidayEntry(value: unknown): value is Partial<Record<keyof HolidayDefinition, unknown>> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Parses the all-day events of an iCalendar (.ics) file.
+     * Events repeating yearly are kept as yearly holidays; other events cover their own dates only.
+     */
+    static parseIcs(content: string): HolidayDefinition[] {
+        // Unfold continuation lines (RFC 5545 section 3.1)
+        const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+        const holidays: HolidayDefinition[] = [];
+        let event: Record<string, string> | null = null;
+
+        for (const line of lines) {
+            if (line === 'BEGIN:VEVENT') {
+                event = {};
+            } else if (line === 'END:VEVENT') {
+                if (event?.DTSTART) {
+                    holidays.push(...BusinessCalendar.icsEventToHolidays(event));
+                }
+                event = null;
+            } else if (event) {
+                const match = /^([A-Z-]+)(?:;[^:]*)?:(.*)$/.exec(line);
+                if (match) {
+                    event[match[1]] = match[2];
+                }
+            }
+        }
+
+        return holidays;
+    }
+
+    /**
+     * Converts an iCalendar event to holidays
+     */
+    private static icsEventToHolidays(event: Record<string, string>): HolidayDefinition[] {
+        const name = (event.SUMMARY || 'Holiday').replace(/\\([,;\\])/g, '$1');
+        const start = BusinessCalendar.parseIcsDate(event.DTSTART);
+        if (!start) {
+            return [];
+        }
+
+        if (event.RRULE) {
+            try {
+                // Holidays repeat forever: end conditions are dropped before parsing
+                const parts = event.RRULE.split(';').filter(part => !/^(UNTIL|COUNT)=/.test(part));
+                const rule = RecurrenceRuleHelper.parse(parts.join(';'));
+
+                if (rule.freq === 'YEARLY' && rule.interval === 1) {
+                    if (RecurrenceRuleHelper.isSimple(rule)) {
+                        return [{ name, date: BusinessCalendar.toKey(start).substring(5) }];
+                    }
+                    return [{ name, rrule: RecurrenceRuleHelper.format(rule) }];
+                }
+            } catch {
+                // Unsupported rule: fall back to the event's own dates
+            }
+        }
+
+        // DTEND is exclusive for all-day events
+        const end = (event.DTEND && BusinessCalendar.parseIcsDate(event.DTEND)) || new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+        const holidays: HolidayDefinition[] = [];
+        for (const day = new Date(start); day < end && holidays.length < 366; day.setDate(day.getDate() + 1)) {
+            holidays.push({ name, date: BusinessCalendar.toKey(day) });
+        }
+        return holidays;
+    }
+
+    /**
+     * Parses the date part of an iCalendar DATE or DATE-TIME value
+     */
+    private static parseIcsDate(value: string): Date | null {
+        const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+        return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : null;
+    }
+
+    /**
+     * Builds the calendar described by the recurringTasks.businessDays settings.
+     * Holiday files that cannot be read are reported and ignored.
+     */
+    static async loadFromSettings(extensionUri: vscode.Uri): Promise<BusinessCalendar> {
+        const config = vscode.workspace.getConfiguration('recurringTasks.businessDays');
+        const bundled = config.get<string>('holidayCalendar', 'none');
+        const holidayFile = config.get<string>('holidayFile', '').trim();
+        const holidays: HolidayDefinition[] = [];
+
+        const files: vscode.Uri[] = [];
+        if (BUNDLED_CALENDARS.includes(bundled)) {
+            files.push(vscode.Uri.joinPath(extensionUri, 'resources', 'holidays', `${bundled}.json`));
+        }
+        if (holidayFile) {
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            const isRelative = !holidayFile.startsWith('/') && !/^[a-zA-Z]:[\\/]/.test(holidayFile);
+            files.push(isRelative && workspaceFolder
+                ? vscode.Uri.joinPath(workspaceFolder.uri, holidayFile)
+                : vscode.Uri.file(holidayFile));
+        }
+
+        for (const file of files) {
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+                holidays.push(...BusinessCalendar.parseHolidayFile(content, file.path));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error('Failed to load holiday file:', file.fsPath, error);
+                vscode.window.showErrorMessage(vscode.l10n.t('Failed to load holiday file {0}: {1}', file.fsPath, message));
+            }
+        }
+
+        return new BusinessCalendar(holidays);
+    }
+}
@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
 import { l10n } from 'vscode';
-import { Task } from './Task';
+import { Task, TagHelper } from './Task';
 import { TaskManager } from './TaskManager';
 import { TaskStatusUtil } from './TaskStatusUtil';
+import { BusinessCalendar } from './BusinessCalendar';
+import { HtmlUtil } from './HtmlUtil';
 
 /**
  * Provides a calendar view of recurring tasks
@@ -12,6 +14,7 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
 
     private _view?: vscode.WebviewView;
     private currentDate: Date;
+    private tagFilter: string = '';
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
@@ -50,6 +53,10 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
                         this.currentDate = new Date();
                         this.refresh();
                         break;
+                    case 'filterByTag':
+                        this.tagFilter = message.tag || '';
+                        this.refresh();
+                        break;
                     case 'showTaskDetails':
                         if (message.taskId) {
                             const task = this.taskManager.getTask(message.taskId);
@@ -79,7 +86,13 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
     }
 
     private _getHtmlForWebview() {
-        const tasks = this.taskManager.getTasks();
+        // Forget the tag filter once no task uses the tag anymore
+        const allTags = this.taskManager.getAllTags();
+        if (this.tagFilter && !allTags.some(tag => tag.toLowerCase() === this.tagFilter.toLowerCase())) {
+            this.tagFilter = '';
+        }
+
+        const tasks = this.taskManager.getTasks().filter(task => !this.tagFilter || TagHelper.hasTag(task, this.tagFilter));
         const year = this.currentDate.getFullYear();
         const month = this.currentDate.getMonth();
         
@@ -195,6 +208,24 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
             background-color: var(--vscode-button-secondaryHoverBackground);
         }
 
+        .calendar-filter {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            margin-bottom: 8px;
+            font-size: 11px;
+        }
+
+        .calendar-filter select {
+            flex: 1;
+            min-width: 0;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            padding: 2px 4px;
+        }
+
         .calendar-grid {
             display: grid;
             grid-template-columns: repeat(7, 1fr);
@@ -245,6 +276,14 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
             opacity: 0.3;
         }
 
+        .non-working-day {
+            background-color: var(--vscode-editorWidget-background);
+        }
+
+        .non-working-day .day-number {
+            opacity: 0.6;
+        }
+
         .today {
             background-color: var(--vscode-focusBorder);
             color: var(--vscode-input-background);
@@ -343,6 +382,22 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
             color: var(--vscode-activityBarBadge-foreground);
         }
 
+        .priority-critical {
+            box-shadow: 0 0 0 2px var(--vscode-errorForeground);
+        }
+
+        .priority-high {
+            box-shadow: 0 0 0 1px var(--vscode-foreground);
+        }
+
+        .priority-low {
+            opacity: 0.5;
+        }
+
+        .task-blocked {
+            background-image: repeating-linear-gradient(45deg, transparent 0 2px, var(--vscode-editor-background) 2px 3px);
+        }
+
 
     </style>
 </head>
@@ -357,6 +412,15 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
         <button class="refresh-button" onclick="refresh()" title="${l10n.t('Refresh Calendar')}">⟳</button>
     </div>
 
+    ${allTags.length > 0 ? `
+    <div class="calendar-filter">
+        <label for="tag-filter">${l10n.t('Tag:')}</label>
+        <select id="tag-filter" onchange="filterByTag(this.value)">
+            <option value="">${l10n.t('All tags')}</option>
+            ${allTags.map(tag => `<option value="${HtmlUtil.escape(tag)}" ${tag.toLowerCase() === this.tagFilter.toLowerCase() ? 'selected' : ''}>#${HtmlUtil.escape(tag)}</option>`).join('')}
+        </select>
+    </div>` : ''}
+
     <div class="calendar-grid">
         ${this._generateDayHeaders(firstDayOfWeek)}
         
@@ -390,6 +454,10 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
         function refresh() {
             vscode.postMessage({ command: 'refresh' });
         }
+
+        function filterByTag(tag) {
+            vscode.postMessage({ command: 'filterByTag', tag: tag });
+        }
     </script>
 </body>
 </html>`;
@@ -438,6 +506,7 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
         const today = new Date();
         const isCurrentMonth = today.getFullYear() === year && today.getMonth() === month;
         const todayDate = today.getDate();
+        const businessCalendar = BusinessCalendar.getActive();
 
         // Calculate how many empty cells we need at the start
         // Adjust starting day based on the custom first day of week
@@ -455,8 +524,11 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
         for (let day = 1; day <= daysInMonth; day++) {
             const isToday = isCurrentMonth && day === todayDate;
             const dayTasks = tasksByDate.get(day.toString()) || [];
+            const date = new Date(year, month, day);
+            const isNonWorkingDay = !businessCalendar.isWorkingDay(date);
+            const holidayName = businessCalendar.getHolidayName(date);
             
-            html += `<div class="day-cell ${isToday ? 'today' : ''}">
+            html += `<div class="day-cell ${isToday ? 'today' : ''} ${isNonWorkingDay ? 'non-working-day' : ''}"${holidayName ? ` title="${HtmlUtil.escape(holidayName)}"` : ''}>
                 <div class="day-number">${day}</div>
                 <div class="tasks-container">`;
 
@@ -464,11 +536,15 @@ export class CalendarProvider implements vscode.WebviewViewProvider {
             dayTasks.forEach(task => {
                 const taskClass = TaskStatusUtil.isOverdue(task) ? 'task-overdue' : 
                                 TaskStatusUtil.isDueSoon(task) ? 'task-due-soon' : '';
+                const priority = TaskStatusUtil.getEffectivePriority(task);
+                const priorityPrefix = priority === 'critical' ? '🔥 ' : priority === 'high' ? '⬆ ' : priority === 'low' ? '⬇ ' : '';
+                const blockingTasks = this.taskManager.getBlockingTasks(task.id);
+                const blockedSuffix = blockingTasks.length > 0 ? ` 🔒 ${TaskStatusUtil.formatBlockedBy(blockingTasks)}` : '';
                 
-                html += `<div class="task-item ${taskClass}" 
+                html += `<div class="task-item ${taskClass} priority-${priority} ${blockingTasks.length > 0 ? 'task-blocked' : ''}" 
                     onclick="showTaskDetails('${task.id}')" 
-                    title="${task.description ? `${task.title} - ${task.description}` : task.title}">
-                    ${task.title}
+                    title="${HtmlUtil.escape(`${priorityPrefix}${task.description ? `${task.title} - ${task.description}` : task.title}${blockedSuffix}`)}">
+                    ${HtmlUtil.escape(task.title)}
                 </div>`;
             });
 
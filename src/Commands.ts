@@ -7,6 +7,11 @@ import { TaskTreeItem } from './TaskProvider';
 import { TaskDetailsProvider } from './TaskDetailsProvider';
 import { JiraService } from './JiraService';
 import { NotificationManager } from './NotificationManager';
+import { BackupManager, BackupReason, BackupComparison } from './BackupManager';
+import { Task, TaskTemplate, TaskPriority, PostponePreset, PostponeHelper, TaskStore } from './Task';
+import { TaskStatusUtil } from './TaskStatusUtil';
+import { TimeZoneUtil } from './TimeZoneUtil';
+import { QuickAddParser, QuickAddResult } from './QuickAddParser';
 
 /**
  * Handles all command implementations for the recurring tasks extension
@@ -18,14 +23,16 @@ export class Commands {
     private extensionUri: vscode.Uri;
     private jiraService: JiraService;
     private notificationManager: NotificationManager;
+    private backupManager: BackupManager;
 
-    constructor(taskManager: TaskManager, taskProvider: TaskProvider, calendarProvider: CalendarProvider, extensionUri: vscode.Uri, notificationManager: NotificationManager) {
+    constructor(taskManager: TaskManager, taskProvider: TaskProvider, calendarProvider: CalendarProvider, extensionUri: vscode.Uri, notificationManager: NotificationManager, backupManager: BackupManager) {
         this.taskManager = taskManager;
         this.taskProvider = taskProvider;
         this.calendarProvider = calendarProvider;
         this.extensionUri = extensionUri;
         this.jiraService = new JiraService();
         this.notificationManager = notificationManager;
+        this.backupManager = backupManager;
     }
 
     /**
@@ -37,11 +44,26 @@ export class Commands {
             this.createTaskWebview();
         });
 
+        // Quick Add command
+        const quickAddCommand = vscode.commands.registerCommand('recurringtasks.quickAdd', () => {
+            return this.quickAdd();
+        });
+
         // Validate Task command
         const validateTaskCommand = vscode.commands.registerCommand('recurringtasks.validateTask', (item: TaskTreeItem) => {
             this.validateTask(item);
         });
 
+        // Skip Occurrence command
+        const skipOccurrenceCommand = vscode.commands.registerCommand('recurringtasks.skipOccurrence', (item: TaskTreeItem) => {
+            this.skipOccurrence(item);
+        });
+
+        // Postpone Task command
+        const postponeTaskCommand = vscode.commands.registerCommand('recurringtasks.postponeTask', (item: TaskTreeItem) => {
+            return this.postponeTask(item);
+        });
+
         // Archive Task command
         const archiveTaskCommand = vscode.commands.registerCommand('recurringtasks.archiveTask', (item: TaskTreeItem) => {
             this.archiveTask(item);
@@ -52,6 +74,16 @@ export class Commands {
             this.unarchiveTask(item);
         });
 
+        // Pause Task command
+        const pauseTaskCommand = vscode.commands.registerCommand('recurringtasks.pauseTask', (item: TaskTreeItem) => {
+            this.pauseTask(item);
+        });
+
+        // Resume Task command
+        const resumeTaskCommand = vscode.commands.registerCommand('recurringtasks.resumeTask', (item: TaskTreeItem) => {
+            this.resumeTask(item);
+        });
+
         // Delete Task command
         const deleteTaskCommand = vscode.commands.registerCommand('recurringtasks.deleteTask', (item: TaskTreeItem) => {
             this.deleteTask(item);
@@ -122,6 +154,25 @@ export class Commands {
             this.importTasks();
         });
 
+        // Restore from Backup command
+        const restoreFromBackupCommand = vscode.commands.registerCommand('recurringtasks.restoreFromBackup', () => {
+            return this.restoreFromBackup();
+        });
+
+        // Show Quarantined Tasks command
+        const showQuarantinedTasksCommand = vscode.commands.registerCommand('recurringtasks.showQuarantinedTasks', () => {
+            return this.showQuarantinedTasks();
+        });
+
+        // Undo and Redo commands
+        const undoCommand = vscode.commands.registerCommand('recurringtasks.undo', () => {
+            this.undo();
+        });
+
+        const redoCommand = vscode.commands.registerCommand('recurringtasks.redo', () => {
+            this.redo();
+        });
+
         // Reactivate Notifications command
         const reactivateNotificationsCommand = vscode.commands.registerCommand('recurringtasks.reactivateNotifications', async (item?: TaskTreeItem) => {
             // If no item provided (e.g., called via keybinding), try to get selected task
@@ -148,12 +199,63 @@ export class Commands {
             TaskDetailsProvider.refreshWebviewForNotificationChange();
         });
 
+        // Set Sort Mode command
+        const setSortModeCommand = vscode.commands.registerCommand('recurringtasks.setSortMode', () => {
+            this.setSortMode();
+        });
+
+        // Toggle Assigned to Me command
+        const toggleAssignedToMeCommand = vscode.commands.registerCommand('recurringtasks.toggleAssignedToMe', () => {
+            this.toggleAssignedToMe();
+        });
+
+        // Toggle Group by Tag command
+        const toggleGroupByTagCommand = vscode.commands.registerCommand('recurringtasks.toggleGroupByTag', () => {
+            this.toggleGroupByTag();
+        });
+
+        // New Task from Template command
+        const createTaskFromTemplateCommand = vscode.commands.registerCommand('recurringtasks.createTaskFromTemplate', () => {
+            this.createTaskFromTemplate();
+        });
+
+        // Save as Template command
+        const saveAsTemplateCommand = vscode.commands.registerCommand('recurringtasks.saveAsTemplate', (item: TaskTreeItem) => {
+            this.saveAsTemplate(item);
+        });
+
+        // Move Task to Other Store command
+        const moveTaskToStoreCommand = vscode.commands.registerCommand('recurringtasks.moveTaskToStore', (item: TaskTreeItem) => {
+            return this.moveTaskToStore(item);
+        });
+
+        // Delete Template command
+        const deleteTemplateCommand = vscode.commands.registerCommand('recurringtasks.deleteTemplate', () => {
+            this.deleteTemplate();
+        });
+
+        // Timer commands (without a task, they act on the current timer or ask for a task)
+        const startTimerCommand = vscode.commands.registerCommand('recurringtasks.startTimer', (item?: TaskTreeItem) => {
+            this.startTimer(item?.task);
+        });
+        const pauseTimerCommand = vscode.commands.registerCommand('recurringtasks.pauseTimer', (item?: TaskTreeItem) => {
+            this.pauseTimer(item?.task);
+        });
+        const stopTimerCommand = vscode.commands.registerCommand('recurringtasks.stopTimer', (item?: TaskTreeItem) => {
+            this.stopTimer(item?.task);
+        });
+
         // Add all commands to subscriptions
         context.subscriptions.push(
             addTaskCommand,
+            quickAddCommand,
             validateTaskCommand,
+            skipOccurrenceCommand,
+            postponeTaskCommand,
             archiveTaskCommand,
             unarchiveTaskCommand,
+            pauseTaskCommand,
+            resumeTaskCommand,
             deleteTaskCommand,
             refreshTasksCommand,
             showTaskDetailsCommand,
@@ -164,8 +266,22 @@ export class Commands {
             testJiraConnectionCommand,
             exportTasksCommand,
             importTasksCommand,
+            showQuarantinedTasksCommand,
+            restoreFromBackupCommand,
+            undoCommand,
+            redoCommand,
             reactivateNotificationsCommand,
             setFirstDayOfWeekCommand,
+            toggleGroupByTagCommand,
+            toggleAssignedToMeCommand,
+            setSortModeCommand,
+            createTaskFromTemplateCommand,
+            saveAsTemplateCommand,
+            moveTaskToStoreCommand,
+            deleteTemplateCommand,
+            startTimerCommand,
+            pauseTimerCommand,
+            stopTimerCommand,
             refreshWebviewCommand
         );
     }
@@ -181,11 +297,350 @@ export class Commands {
         }
     }
 
+    /**
+     * Starts or resumes the timer of a task, asking for the task if none is given
+     */
+    private async startTimer(task?: Task): Promise<void> {
+        if (!task) {
+            const choice = await vscode.window.showQuickPick(
+                this.taskManager.getTasks().map(activeTask => ({
+                    label: activeTask.title,
+                    description: activeTask.timer ? l10n.t('{0} tracked', TaskStatusUtil.formatDuration(TaskStatusUtil.getTrackedTime(activeTask))) : undefined,
+                    task: activeTask
+                })),
+                { placeHolder: l10n.t('Choose the task to track time on') }
+            );
+            task = choice?.task;
+        }
+
+        if (!task) {
+            return;
+        }
+
+        if (this.taskManager.startTimer(task.id)) {
+            this.refreshTaskViews();
+        } else {
+            vscode.window.showErrorMessage(l10n.t('Failed to start timer'));
+        }
+    }
+
+    /**
+     * Pauses the timer of a task, or the running timer if no task is given
+     */
+    private pauseTimer(task?: Task): void {
+        const timerTask = task || this.taskManager.getTimerTask();
+
+        if (!timerTask?.timer?.runningSince) {
+            vscode.window.showInformationMessage(l10n.t('No timer is running.'));
+            return;
+        }
+
+        this.taskManager.pauseTimer(timerTask.id);
+        this.refreshTaskViews();
+    }
+
+    /**
+     * Stops the timer of a task, or the current timer if no task is given, keeping the tracked time until the task is validated
+     */
+    private stopTimer(task?: Task): void {
+        const timerTask = task || this.taskManager.getTimerTask();
+
+        if (!timerTask?.timer) {
+            vscode.window.showInformationMessage(l10n.t('No timer is running.'));
+            return;
+        }
+
+        const updatedTask = this.taskManager.stopTimer(timerTask.id);
+        this.refreshTaskViews();
+
+        if (updatedTask) {
+            vscode.window.showInformationMessage(
+                l10n.t('Timer stopped on "{0}": {1} tracked for the current occurrence', updatedTask.title, TaskStatusUtil.formatDuration(TaskStatusUtil.getTrackedTime(updatedTask)))
+            );
+        }
+    }
+
+    /**
+     * Refreshes the views showing a task state: the task list, the calendar and the open task details
+     */
+    private refreshTaskViews(): void {
+        this.refreshTasks();
+        TaskDetailsProvider.refreshWebviewForNotificationChange();
+    }
+
+    /**
+     * Asks for a template, then shows the create task form prefilled from it
+     */
+    private async createTaskFromTemplate(): Promise<void> {
+        const template = await this.pickTemplate(l10n.t('Choose the template of the new task'));
+        if (!template) {
+            return;
+        }
+
+        try {
+            TaskDetailsProvider.showCreateTaskForm(this.extensionUri, template.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to show create task form: {0}', String(error)));
+        }
+    }
+
+    /**
+     * Asks for a task described in one line, shows its next occurrences, then creates it
+     */
+    private async quickAdd(): Promise<void> {
+        const language = vscode.env.language || 'en';
+        let line = '';
+
+        // "Edit" goes back to the input with the line as typed
+        for (;;) {
+            const value = await vscode.window.showInputBox({
+                prompt: l10n.t('Describe the task in one line: title, recurrence, start date, #tags and !priority'),
+                placeHolder: l10n.t('e.g. Renew TLS certs every 3 months starting Jan 15 #security !high'),
+                value: line,
+                validateInput: input => {
+                    try {
+                        QuickAddParser.parse(input, language);
+                        return undefined;
+                    } catch (error) {
+                        return l10n.t('Could not understand this line: {0}', error instanceof Error ? error.message : String(error));
+                    }
+                }
+            });
+
+            if (value === undefined) {
+                return;
+            }
+            line = value;
+
+            let result: QuickAddResult;
+            try {
+                result = QuickAddParser.parse(line, language);
+            } catch (error) {
+                vscode.window.showErrorMessage(l10n.t('Could not understand this line: {0}', error instanceof Error ? error.message : String(error)));
+                continue;
+            }
+
+            const createLabel = l10n.t('Create Task');
+            const editLabel = l10n.t('Edit');
+            const choice = await vscode.window.showInformationMessage(
+                l10n.t('Create "{0}"?', result.title),
+                { modal: true, detail: Commands.formatQuickAddPreview(result) },
+                createLabel,
+                editLabel
+            );
+
+            if (choice === editLabel) {
+                continue;
+            }
+            if (choice !== createLabel) {
+                return;
+            }
+
+            try {
+                this.taskManager.addTask(result.title, result.periodicity, result.dueDate, undefined, {
+                    hasDueTime: result.hasDueTime,
+                    tags: result.tags,
+                    priority: result.priority,
+                    store: TaskStatusUtil.getDefaultStore(this.taskManager.getStores())
+                });
+                this.refreshTaskViews();
+                vscode.window.showInformationMessage(l10n.t('Task "{0}" created', result.title));
+            } catch (error) {
+                vscode.window.showErrorMessage(l10n.t('Failed to create task: {0}', String(error)));
+            }
+            return;
+        }
+    }
+
+    /**
+     * Describes a quick-add task before it is created: its recurrence, next due dates, tags and priority
+     */
+    private static formatQuickAddPreview(result: QuickAddResult): string {
+        const formatDate = (date: Date) => result.hasDueTime
+            ? date.toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+            : date.toLocaleDateString();
+        const dates = QuickAddParser.getUpcomingDates(result, 5);
+
+        const lines = [
+            l10n.t('Recurrence: {0}', result.periodicity.description),
+            result.periodicity.isRecurring
+                ? l10n.t('Next occurrences: {0}', dates.map(formatDate).join(', '))
+                : l10n.t('Due: {0}', formatDate(result.dueDate))
+        ];
+        if (result.periodicity.until) {
+            lines.push(l10n.t('Until: {0}', result.periodicity.until.toLocaleDateString()));
+        }
+        if (result.periodicity.count) {
+            lines.push(l10n.t('Occurrences: {0}', result.periodicity.count));
+        }
+        if (result.tags.length > 0) {
+            lines.push(l10n.t('Tags: {0}', result.tags.map(tag => `#${tag}`).join(' ')));
+        }
+        const priorities: Record<TaskPriority, string> = {
+            critical: l10n.t('Critical'),
+            high: l10n.t('High'),
+            normal: l10n.t('Normal'),
+            low: l10n.t('Low')
+        };
+        lines.push(l10n.t('Priority: {0}', priorities[result.priority]));
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Handles moving a task between the global store and the workspace store
+     */
+    private async moveTaskToStore(item: TaskTreeItem): Promise<void> {
+        const currentStore = item.task.store || 'global';
+        const targets = this.taskManager.getStores().filter(store => store !== currentStore);
+
+        if (targets.length === 0) {
+            vscode.window.showErrorMessage(l10n.t('Open a folder to keep tasks in a workspace store'));
+            return;
+        }
+
+        let target: TaskStore | undefined = targets[0];
+        if (targets.length > 1) {
+            const choice = await vscode.window.showQuickPick(
+                targets.map(store => ({ label: TaskStatusUtil.formatStore(store), store })),
+                { placeHolder: l10n.t('Move "{0}" to', item.task.title) }
+            );
+            target = choice?.store;
+        }
+        if (!target) {
+            return;
+        }
+
+        const task = this.taskManager.moveTaskToStore(item.task.id, target);
+        if (task) {
+            this.refreshTaskViews();
+            const messages: Record<TaskStore, string> = {
+                global: l10n.t('Task "{0}" moved to the global store', task.title),
+                workspace: l10n.t('Task "{0}" moved to the workspace store', task.title),
+                shared: l10n.t('Task "{0}" moved to the shared tasks file', task.title)
+            };
+            vscode.window.showInformationMessage(messages[target]);
+        } else {
+            vscode.window.showErrorMessage(l10n.t('Failed to move task'));
+        }
+    }
+
+    /**
+     * Handles saving a task as a template
+     */
+    private async saveAsTemplate(item: TaskTreeItem): Promise<void> {
+        try {
+            const name = await vscode.window.showInputBox({
+                prompt: l10n.t('Name of the template'),
+                value: item.task.title,
+                validateInput: value => value.trim() ? undefined : l10n.t('A template name is required')
+            });
+
+            if (name === undefined) {
+                return;
+            }
+
+            const titlePattern = await vscode.window.showInputBox({
+                prompt: l10n.t('Title of the tasks created from this template. Put the parts to fill in between braces, e.g. {0}.', '{system}'),
+                value: item.task.title,
+                validateInput: value => value.trim() ? undefined : l10n.t('Please enter a task title')
+            });
+
+            if (titlePattern === undefined) {
+                return;
+            }
+
+            const existing = this.taskManager.getTemplates().find(template => template.name.toLowerCase() === name.trim().toLowerCase());
+            if (existing) {
+                const replace = l10n.t('Replace');
+                const choice = await vscode.window.showWarningMessage(
+                    l10n.t('A template named "{0}" already exists. Do you want to replace it?', existing.name),
+                    { modal: true },
+                    replace
+                );
+                if (choice !== replace) {
+                    return;
+                }
+            }
+
+            const template = this.taskManager.saveTaskAsTemplate(item.task.id, name, titlePattern);
+
+            if (template) {
+                vscode.window.showInformationMessage(l10n.t('Template "{0}" saved', template.name));
+            } else {
+                vscode.window.showErrorMessage(l10n.t('Failed to save template'));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to save template: {0}', String(error)));
+        }
+    }
+
+    /**
+     * Handles deleting a template
+     */
+    private async deleteTemplate(): Promise<void> {
+        const template = await this.pickTemplate(l10n.t('Choose the template to delete'));
+        if (!template) {
+            return;
+        }
+
+        const deleteLabel = l10n.t('Delete');
+        const choice = await vscode.window.showWarningMessage(
+            l10n.t('Are you sure you want to delete the template "{0}"? Tasks created from it are kept.', template.name),
+            { modal: true },
+            deleteLabel
+        );
+
+        if (choice !== deleteLabel) {
+            return;
+        }
+
+        if (this.taskManager.deleteTemplate(template.id)) {
+            vscode.window.showInformationMessage(l10n.t('Template "{0}" deleted', template.name));
+        } else {
+            vscode.window.showErrorMessage(l10n.t('Failed to delete template'));
+        }
+    }
+
+    /**
+     * Asks the user to pick a template, telling them how to create one if there is none
+     */
+    private async pickTemplate(placeHolder: string): Promise<TaskTemplate | undefined> {
+        const templates = this.taskManager.getTemplates();
+
+        if (templates.length === 0) {
+            vscode.window.showInformationMessage(l10n.t('No templates yet. Right-click a task and choose "Save as Template" to create one.'));
+            return undefined;
+        }
+
+        const choice = await vscode.window.showQuickPick(
+            templates.map(template => ({
+                label: template.name,
+                description: template.titlePattern,
+                detail: template.periodicity.description,
+                template
+            })),
+            { placeHolder }
+        );
+
+        return choice?.template;
+    }
+
     /**
      * Handles validating a task
      */
     private async validateTask(item: TaskTreeItem): Promise<void> {
         try {
+            const blocker = TaskStatusUtil.getValidationBlocker(item.task);
+            if (blocker) {
+                vscode.window.showErrorMessage(blocker);
+                return;
+            }
+
+            if (!await TaskStatusUtil.confirmValidationWhileBlocked(item.task, this.taskManager.getBlockingTasks(item.task.id))) {
+                return;
+            }
+
             // Get validation comment
             const comment = await vscode.window.showInputBox({
                 prompt: `Validate task: ${item.task.title}`,
@@ -199,16 +654,22 @@ export class Commands {
             }
 
             // Validate the task (comment can be empty)
-            const updatedTask = this.taskManager.validateTask(item.task.id, comment || '');
+            const updatedTask = this.taskManager.validateTask(item.task.id, comment || '', TaskStatusUtil.getIdentity());
             
             if (updatedTask) {
                 // Refresh the view
                 this.refreshTasks();
                 
-                const nextDueDate = updatedTask.dueDate.toLocaleDateString();
-                vscode.window.showInformationMessage(
-                    l10n.t('Task "{0}" validated! Next due: {1}', item.task.title, nextDueDate)
-                );
+                if (updatedTask.status === 'archived' && updatedTask.periodicity.isRecurring) {
+                    this.showMessageWithUndo(
+                        l10n.t('Task "{0}" validated! The series is completed and the task was archived.', item.task.title)
+                    );
+                } else {
+                    const nextDueDate = TaskStatusUtil.formatDueDate(updatedTask);
+                    this.showMessageWithUndo(
+                        l10n.t('Task "{0}" validated! Next due: {1}', item.task.title, nextDueDate)
+                    );
+                }
             } else {
                 vscode.window.showErrorMessage(l10n.t('Failed to validate task'));
             }
@@ -217,6 +678,131 @@ export class Commands {
         }
     }
 
+    /**
+     * Handles skipping the current occurrence of a recurring task
+     */
+    private async skipOccurrence(item: TaskTreeItem): Promise<void> {
+        try {
+            if (!item.task.periodicity.isRecurring || item.task.periodicity.type === 'none') {
+                vscode.window.showErrorMessage(l10n.t('Only recurring tasks can skip an occurrence.'));
+                return;
+            }
+
+            // A reason is required to tell skipped occurrences apart from forgotten ones
+            const reason = await vscode.window.showInputBox({
+                prompt: l10n.t('Skip occurrence of "{0}" due {1}', item.task.title, TaskStatusUtil.formatDueDate(item.task)),
+                placeHolder: l10n.t('Reason for skipping (e.g. holiday week, freeze period)'),
+                validateInput: value => value.trim() ? undefined : l10n.t('A reason is required to skip an occurrence')
+            });
+
+            if (reason === undefined) {
+                return;
+            }
+
+            const updatedTask = this.taskManager.skipOccurrence(item.task.id, reason);
+
+            if (updatedTask) {
+                this.refreshTasks();
+
+                if (updatedTask.status === 'archived') {
+                    vscode.window.showInformationMessage(
+                        l10n.t('Occurrence of "{0}" skipped. The series is completed and the task was archived.', item.task.title)
+                    );
+                } else {
+                    vscode.window.showInformationMessage(
+                        l10n.t('Occurrence of "{0}" skipped. Next due: {1}', item.task.title, TaskStatusUtil.formatDueDate(updatedTask))
+                    );
+                }
+            } else {
+                vscode.window.showErrorMessage(l10n.t('Failed to skip occurrence'));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to skip occurrence: {0}', String(error)));
+        }
+    }
+
+    /**
+     * Handles postponing a task to a preset or chosen date, with an optional reason
+     */
+    private async postponeTask(item: TaskTreeItem): Promise<void> {
+        const task = item.task;
+        const presets: Array<{ label: string; preset: PostponePreset }> = [
+            { label: l10n.t('Tomorrow'), preset: 'tomorrow' },
+            { label: l10n.t('Next week'), preset: 'nextWeek' },
+            { label: l10n.t('Next period'), preset: 'nextPeriod' }
+        ];
+        const userLocale = vscode.env.language || 'en-US';
+
+        // Presets that would not push the task back are left out
+        const choices: Array<{ label: string; description?: string; dueDate?: Date }> = [];
+        for (const { label, preset } of presets) {
+            const dueDate = PostponeHelper.getPostponedDate(task, preset);
+            if (dueDate && dueDate > task.dueDate) {
+                choices.push({ label, description: dueDate.toLocaleDateString(userLocale), dueDate });
+            }
+        }
+        choices.push({ label: l10n.t('Pick a date...') });
+
+        const choice = await vscode.window.showQuickPick(choices, {
+            placeHolder: l10n.t('Postpone "{0}", due {1}', task.title, TaskStatusUtil.formatDueDate(task))
+        });
+        if (!choice) {
+            return;
+        }
+
+        let dueDate = choice.dueDate;
+        if (!dueDate) {
+            const value = await vscode.window.showInputBox({
+                prompt: l10n.t('New due date (YYYY-MM-DD)'),
+                placeHolder: 'YYYY-MM-DD',
+                validateInput: value => Commands.parsePostponedDate(task, value) ? undefined : l10n.t('Enter a date after the current due date as YYYY-MM-DD')
+            });
+            if (value === undefined) {
+                return;
+            }
+            dueDate = Commands.parsePostponedDate(task, value);
+        }
+
+        const reason = await vscode.window.showInputBox({
+            prompt: l10n.t('Reason for postponing (optional)'),
+            placeHolder: l10n.t('e.g. waiting for the vendor, team offsite')
+        });
+        if (reason === undefined || !dueDate) {
+            return;
+        }
+
+        try {
+            const updatedTask = this.taskManager.postponeTask(task.id, dueDate, reason);
+            if (!updatedTask) {
+                vscode.window.showErrorMessage(l10n.t('Failed to postpone task.'));
+                return;
+            }
+
+            this.refreshTaskViews();
+            if (TaskStatusUtil.isPostponedTooOften(updatedTask)) {
+                vscode.window.showWarningMessage(l10n.t('Task "{0}" postponed to {1}. {2}', updatedTask.title, TaskStatusUtil.formatDueDate(updatedTask), TaskStatusUtil.formatPostponed(updatedTask)));
+            } else {
+                vscode.window.showInformationMessage(l10n.t('Task "{0}" postponed to {1}.', updatedTask.title, TaskStatusUtil.formatDueDate(updatedTask)));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to postpone task: {0}', String(error)));
+        }
+    }
+
+    /**
+     * Parses a due date typed as YYYY-MM-DD for a postponed task, keeping its due time.
+     * The date must be after the current due date.
+     */
+    private static parsePostponedDate(task: Task, value: string): Date | undefined {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+            return undefined;
+        }
+        const dueDate = task.hasDueTime
+            ? TimeZoneUtil.createDueDate(value.trim(), TimeZoneUtil.formatTime(task.dueDate, task.timeZone), task.timeZone)
+            : TimeZoneUtil.createDueDate(value.trim());
+        return !isNaN(dueDate.getTime()) && dueDate > task.dueDate ? dueDate : undefined;
+    }
+
     /**
      * Handles archiving a task
      */
@@ -225,7 +811,7 @@ export class Commands {
             const success = this.taskManager.archiveTask(item.task.id);
             if (success) {
                 this.refreshTasks();
-                vscode.window.showInformationMessage(l10n.t('Task "{0}" archived.', item.task.title));
+                this.showMessageWithUndo(l10n.t('Task "{0}" archived.', item.task.title));
             } else {
                 vscode.window.showErrorMessage(l10n.t('Failed to archive task.'));
             }
@@ -269,7 +855,7 @@ export class Commands {
                 if (success) {
                     // Refresh the view
                     this.refreshTasks();
-                    vscode.window.showInformationMessage(l10n.t('Task "{0}" deleted successfully!', item.task.title));
+                    this.showMessageWithUndo(l10n.t('Task "{0}" deleted successfully!', item.task.title));
                 } else {
                     vscode.window.showErrorMessage(l10n.t('Failed to delete task'));
                 }
@@ -279,6 +865,79 @@ export class Commands {
         }
     }
 
+    /**
+     * Handles pausing a task, until a date or until it is resumed by hand
+     */
+    private async pauseTask(item: TaskTreeItem): Promise<void> {
+        const choice = await vscode.window.showQuickPick(
+            [
+                { label: l10n.t('Until I resume it'), untilDate: false },
+                { label: l10n.t('Until a date...'), untilDate: true }
+            ],
+            { placeHolder: l10n.t('Pause "{0}"', item.task.title) }
+        );
+        if (!choice) {
+            return;
+        }
+
+        let resumeDate: Date | undefined;
+        if (choice.untilDate) {
+            const value = await vscode.window.showInputBox({
+                prompt: l10n.t('Date the task resumes on (YYYY-MM-DD)'),
+                placeHolder: 'YYYY-MM-DD',
+                validateInput: value => Commands.parseResumeDate(value) ? undefined : l10n.t('Enter a future date as YYYY-MM-DD')
+            });
+            if (value === undefined) {
+                return;
+            }
+            resumeDate = Commands.parseResumeDate(value);
+        }
+
+        try {
+            const updatedTask = this.taskManager.pauseTask(item.task.id, resumeDate);
+            if (updatedTask) {
+                this.refreshTaskViews();
+                vscode.window.showInformationMessage(l10n.t('Task "{0}": {1}.', updatedTask.title, TaskStatusUtil.formatPaused(updatedTask)));
+            } else {
+                vscode.window.showErrorMessage(l10n.t('Failed to pause task.'));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to pause task: {0}', String(error)));
+        }
+    }
+
+    /**
+     * Parses a resume date typed as YYYY-MM-DD, which must be after today
+     */
+    private static parseResumeDate(value: string): Date | undefined {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+            return undefined;
+        }
+        const resumeDate = TimeZoneUtil.createDueDate(value.trim());
+        return !isNaN(resumeDate.getTime()) && resumeDate > new Date() ? resumeDate : undefined;
+    }
+
+    /**
+     * Handles resuming a paused task
+     */
+    private async resumeTask(item: TaskTreeItem): Promise<void> {
+        try {
+            const updatedTask = this.taskManager.resumeTask(item.task.id);
+            if (updatedTask) {
+                this.refreshTaskViews();
+                vscode.window.showInformationMessage(updatedTask.status === 'archived'
+                    ? l10n.t('Task "{0}" resumed. The series ended while it was paused and the task was archived.', updatedTask.title)
+                    : l10n.t('Task "{0}" resumed, next due {1}.', updatedTask.title, updatedTask.dueDate.toLocaleDateString(vscode.env.language || 'en-US')));
+            } else if (item.task.activeWindow) {
+                vscode.window.showErrorMessage(l10n.t('Task "{0}" is only active {1}. Change its active window to resume it now.', item.task.title, TaskStatusUtil.formatActiveWindow(item.task.activeWindow)));
+            } else {
+                vscode.window.showErrorMessage(l10n.t('Failed to resume task.'));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to resume task: {0}', String(error)));
+        }
+    }
+
     /**
      * Refreshes the task view
      */
@@ -287,6 +946,52 @@ export class Commands {
         this.calendarProvider.refresh();
     }
 
+    /**
+     * Undoes the last change made to the tasks
+     */
+    private undo(): void {
+        const operation = this.taskManager.undo();
+        if (!operation) {
+            vscode.window.showInformationMessage(l10n.t('Nothing to undo.'));
+            return;
+        }
+
+        this.refreshTaskViews();
+        vscode.window.showInformationMessage(l10n.t('Undone: {0}', operation.label));
+    }
+
+    /**
+     * Does again the last change undone
+     */
+    private redo(): void {
+        const operation = this.taskManager.redo();
+        if (!operation) {
+            vscode.window.showInformationMessage(l10n.t('Nothing to redo.'));
+            return;
+        }
+
+        this.refreshTaskViews();
+        vscode.window.showInformationMessage(l10n.t('Redone: {0}', operation.label));
+    }
+
+    /**
+     * Shows an information message about the change just made, with a button undoing it.
+     * The button only undoes that change: once other changes followed it, they have to be undone first.
+     */
+    private async showMessageWithUndo(message: string): Promise<void> {
+        const operation = this.taskManager.getLastOperation();
+        const undoLabel = l10n.t('Undo');
+
+        if (await vscode.window.showInformationMessage(message, undoLabel) !== undoLabel) {
+            return;
+        }
+        if (!operation || this.taskManager.getLastOperation() !== operation) {
+            vscode.window.showWarningMessage(l10n.t('Other changes were made since. Use the Undo command to undo them one at a time.'));
+            return;
+        }
+        this.undo();
+    }
+
     /**
      * Handles reactivating notifications for a task
      */
@@ -317,7 +1022,6 @@ export class Commands {
             const task = item.task;
             const subject = encodeURIComponent(task.title);
             const body = encodeURIComponent(task.description || '');
-            const startDate = task.dueDate.toISOString();
             
             // Get user's preferred calendar from settings
             const preferredCalendar = vscode.workspace.getConfiguration('recurringTasks').get<string>('preferredCalendar', 'Ask each time');
@@ -348,12 +1052,9 @@ export class Commands {
             let meetingUrl: string;
             
             if (calendarChoice === l10n.t('Outlook Web')) {
-                meetingUrl = `https://outlook.office.com/calendar/action/compose?subject=${subject}&body=${body}&startdt=${startDate}`;
+                meetingUrl = `https://outlook.office.com/calendar/action/compose?subject=${subject}&body=${body}&${this.formatDatesForOutlookWeb(task)}`;
             } else if (calendarChoice === l10n.t('Google Calendar')) {
-                // Google Calendar requires dates in YYYYMMDDTHHMMSSZ format
-                const googleStartDate = this.formatDateForGoogleCalendar(task.dueDate);
-                const googleEndDate = this.formatDateForGoogleCalendar(new Date(task.dueDate.getTime() + 60 * 60 * 1000)); // 1 hour later
-                meetingUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${subject}&details=${body}&dates=${googleStartDate}/${googleEndDate}`;
+                meetingUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${subject}&details=${body}&${this.formatDatesForGoogleCalendar(task)}`;
             } else {
                 vscode.window.showErrorMessage(l10n.t('Invalid calendar choice'));
                 return;
@@ -369,7 +1070,46 @@ export class Commands {
     }
 
     /**
-     * Formats a date for Google Calendar URL (YYYYMMDDTHHMMSSZ format)
+     * Formats the meeting dates of a task for an Outlook Web URL.
+     * Timed tasks use one-hour meetings in UTC; tasks without a due time become all-day events.
+     */
+    private formatDatesForOutlookWeb(task: Task): string {
+        if (!task.hasDueTime) {
+            const nextDay = new Date(task.dueDate.getFullYear(), task.dueDate.getMonth(), task.dueDate.getDate() + 1);
+            return `startdt=${TimeZoneUtil.formatDay(task.dueDate)}&enddt=${TimeZoneUtil.formatDay(nextDay)}&allday=true`;
+        }
+
+        const endDate = new Date(task.dueDate.getTime() + 60 * 60 * 1000); // 1 hour later
+        return `startdt=${encodeURIComponent(task.dueDate.toISOString())}&enddt=${encodeURIComponent(endDate.toISOString())}`;
+    }
+
+    /**
+     * Formats the meeting dates of a task for a Google Calendar URL.
+     * Timed tasks use the task's time zone (ctz) when set and UTC otherwise; tasks without a due time become all-day events.
+     */
+    private formatDatesForGoogleCalendar(task: Task): string {
+        if (!task.hasDueTime) {
+            const nextDay = new Date(task.dueDate.getFullYear(), task.dueDate.getMonth(), task.dueDate.getDate() + 1);
+            return `dates=${TimeZoneUtil.formatDay(task.dueDate).replace(/-/g, '')}/${TimeZoneUtil.formatDay(nextDay).replace(/-/g, '')}`;
+        }
+
+        const endDate = new Date(task.dueDate.getTime() + 60 * 60 * 1000); // 1 hour later
+
+        if (task.timeZone) {
+            // Wall-clock times (YYYYMMDDTHHMMSS) interpreted in the task's time zone
+            const start = this.formatDateForGoogleCalendar(TimeZoneUtil.toWallClock(task.dueDate, task.timeZone));
+            const end = this.formatDateForGoogleCalendar(TimeZoneUtil.toWallClock(endDate, task.timeZone));
+            return `dates=${start}/${end}&ctz=${encodeURIComponent(task.timeZone)}`;
+        }
+
+        // UTC times (YYYYMMDDTHHMMSSZ)
+        const start = this.formatDateForGoogleCalendar(TimeZoneUtil.toWallClock(task.dueDate, 'UTC'));
+        const end = this.formatDateForGoogleCalendar(TimeZoneUtil.toWallClock(endDate, 'UTC'));
+        return `dates=${start}Z/${end}Z`;
+    }
+
+    /**
+     * Formats the local fields of a date for a Google Calendar URL (YYYYMMDDTHHMMSS format)
      */
     private formatDateForGoogleCalendar(date: Date): string {
         const year = date.getFullYear();
@@ -379,7 +1119,7 @@ export class Commands {
         const minutes = String(date.getMinutes()).padStart(2, '0');
         const seconds = String(date.getSeconds()).padStart(2, '0');
         
-        return `${year}${month}${day}T${hours}${minutes}${seconds}Z`;
+        return `${year}${month}${day}T${hours}${minutes}${seconds}`;
     }
 
     /**
@@ -436,7 +1176,7 @@ export class Commands {
         const taskItems = tasks.map(task => ({
             label: task.title,
             description: task.description || '',
-            detail: `Due: ${task.dueDate.toLocaleDateString()} - ${this.getTaskStatusText(task)}`,
+            detail: `Due: ${TaskStatusUtil.formatDueDate(task)} - ${this.getTaskStatusText(task)}`,
             task: task
         }));
 
@@ -503,23 +1243,72 @@ export class Commands {
         this.calendarProvider.refresh();
     }
 
+    /**
+     * Switches the task tree between showing all tasks and only the tasks assigned to the user,
+     * asking for the user's name first if it is not configured
+     */
+    private async toggleAssignedToMe(): Promise<void> {
+        const assignedToMeOnly = !TaskProvider.isAssignedToMeOnly();
+
+        if (assignedToMeOnly && !TaskStatusUtil.getIdentity()) {
+            const identity = await vscode.window.showInputBox({
+                prompt: l10n.t('Your name as it appears in task assignee lists'),
+                validateInput: value => value.trim() ? undefined : l10n.t('A name is required to show the tasks assigned to you')
+            });
+
+            if (identity === undefined) {
+                return;
+            }
+            await vscode.workspace.getConfiguration('recurringTasks.assignees').update('identity', identity.trim(), vscode.ConfigurationTarget.Global);
+        }
+
+        await vscode.workspace.getConfiguration('recurringTasks.tree').update('assignedToMeOnly', assignedToMeOnly, vscode.ConfigurationTarget.Global);
+        this.taskProvider.refresh();
+        vscode.window.showInformationMessage(assignedToMeOnly
+            ? l10n.t('Showing the tasks assigned to {0}', TaskStatusUtil.getIdentity() || '')
+            : l10n.t('Showing all tasks'));
+    }
+
+    /**
+     * Switches the task tree between grouping by status and grouping by tag
+     */
+    private async toggleGroupByTag(): Promise<void> {
+        const grouping = TaskProvider.getGrouping() === 'tag' ? 'status' : 'tag';
+
+        await vscode.workspace.getConfiguration('recurringTasks.tree').update('groupBy', grouping, vscode.ConfigurationTarget.Global);
+        this.taskProvider.refresh();
+    }
+
+    /**
+     * Lets the user choose how tasks are ordered in the tree
+     */
+    private async setSortMode(): Promise<void> {
+        const currentSortMode = TaskProvider.getSortMode();
+        const choice = await vscode.window.showQuickPick(
+            [
+                { label: l10n.t('Due date'), value: 'dueDate', description: l10n.t('Earliest due date first') },
+                { label: l10n.t('Priority'), value: 'priority', description: l10n.t('Most important first, then by due date') },
+                { label: l10n.t('Urgency'), value: 'urgency', description: l10n.t('Due date weighted by priority') }
+            ].map(item => ({ ...item, picked: item.value === currentSortMode })),
+            {
+                placeHolder: l10n.t('Choose how tasks are sorted'),
+                canPickMany: false
+            }
+        );
+
+        if (!choice) {
+            return;
+        }
+
+        await vscode.workspace.getConfiguration('recurringTasks.tree').update('sortBy', choice.value, vscode.ConfigurationTarget.Global);
+        this.taskProvider.refresh();
+    }
+
     /**
      * Gets a human-readable status text for a task
      */
     private getTaskStatusText(task: any): string {
-        const now = new Date();
-        const isOverdue = task.dueDate < now;
-        const isDueToday = task.dueDate.toDateString() === now.toDateString();
-        
-        if (isOverdue) {
-            const daysOverdue = Math.floor((now.getTime() - task.dueDate.getTime()) / (1000 * 60 * 60 * 24));
-            return `Overdue by ${daysOverdue} day${daysOverdue !== 1 ? 's' : ''}`;
-        } else if (isDueToday) {
-            return l10n.t('Due today');
-        } else {
-            const daysUntilDue = Math.floor((task.dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            return `Due in ${daysUntilDue} day${daysUntilDue !== 1 ? 's' : ''}`;
-        }
+        return TaskStatusUtil.getTimeRemaining(task);
     }
 
     /**
@@ -752,7 +1541,7 @@ export class Commands {
         try {
             const tasks = this.taskManager.getAllTasks();
             
-            if (tasks.length === 0) {
+            if (tasks.length === 0 && this.taskManager.getTemplates().length === 0) {
                 vscode.window.showInformationMessage(l10n.t('No tasks to export.'));
                 return;
             }
@@ -881,4 +1670,125 @@ export class Commands {
             vscode.window.showErrorMessage(l10n.t('Failed to import tasks: {0}', String(error)));
         }
     }
+
+    /**
+     * Lets the user pick a backup of this workspace, shows how it differs from the current tasks, and restores it once confirmed.
+     * The shared tasks file is only restored when the user explicitly chooses to, as it is the team's.
+     */
+    private async restoreFromBackup(): Promise<void> {
+        try {
+            const backups = await this.backupManager.listBackups();
+            if (backups.length === 0) {
+                vscode.window.showInformationMessage(l10n.t('No backups have been taken yet'));
+                return;
+            }
+
+            const reasons: Record<BackupReason, string> = {
+                daily: l10n.t('Daily backup'),
+                delete: l10n.t('Before a deletion'),
+                import: l10n.t('Before an import'),
+                restore: l10n.t('Before a restore'),
+                clear: l10n.t('Before clearing all tasks')
+            };
+            const choice = await vscode.window.showQuickPick(
+                backups.map(backup => ({
+                    label: backup.date.toLocaleString(),
+                    description: reasons[backup.reason] || backup.reason,
+                    detail: l10n.t('{0} task(s), {1} template(s)', backup.taskCount, backup.templateCount),
+                    backup
+                })),
+                { placeHolder: l10n.t('Choose the backup to restore') }
+            );
+            if (!choice) {
+                return;
+            }
+
+            const content = await this.backupManager.readBackup(choice.backup.uri);
+            const stores = BackupManager.getRestoredStores(content, this.taskManager.getStores(), false);
+            const sharedStores = BackupManager.getRestoredStores(content, this.taskManager.getStores(), true).filter(store => store === 'shared');
+            let detail: string;
+            if (stores.length === 0 && sharedStores.length === 0) {
+                detail = l10n.t('The backup has no tasks to restore here: your current tasks are kept.');
+            } else {
+                detail = Commands.formatBackupComparison(BackupManager.compare(this.taskManager.getAllTasks(), content, stores));
+                if (sharedStores.length > 0) {
+                    detail += '\n\n' + l10n.t('Shared tasks file, only restored with "{0}":', l10n.t('Restore Including Shared Tasks')) + '\n' +
+                        Commands.formatBackupComparison(BackupManager.compare(this.taskManager.getAllTasks(), content, sharedStores));
+                }
+            }
+            const restoreLabel = l10n.t('Restore');
+            const restoreSharedLabel = l10n.t('Restore Including Shared Tasks');
+            const showDifferencesLabel = l10n.t('Show Differences');
+            const restoreLabels = sharedStores.length > 0 ? [restoreLabel, restoreSharedLabel] : [restoreLabel];
+
+            let action = await vscode.window.showWarningMessage(
+                l10n.t('Restore the backup of {0}? Your current tasks are backed up first.', choice.label),
+                { modal: true, detail },
+                ...restoreLabels,
+                showDifferencesLabel
+            );
+            if (action === showDifferencesLabel) {
+                const currentUri = await this.backupManager.writeComparisonFile(this.taskManager.exportTasks());
+                await vscode.commands.executeCommand('vscode.diff', currentUri, choice.backup.uri, l10n.t('Current tasks ↔ Backup of {0}', choice.label));
+                action = await vscode.window.showWarningMessage(
+                    l10n.t('Restore the backup of {0}? Your current tasks are backed up first.', choice.label),
+                    ...restoreLabels
+                );
+            }
+            if (action !== restoreLabel && action !== restoreSharedLabel) {
+                return;
+            }
+
+            const result = this.taskManager.restoreTasks(content, action === restoreSharedLabel ? [...stores, ...sharedStores] : stores);
+            if (result.success) {
+                this.refreshTaskViews();
+                vscode.window.showInformationMessage(l10n.t('Restored {0} task(s) and {1} template(s) from the backup of {2}', result.imported, result.importedTemplates, choice.label));
+            } else {
+                vscode.window.showErrorMessage(l10n.t('Failed to restore backup: {0}', result.errors.join('; ') || result.message));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to restore backup: {0}', String(error)));
+        }
+    }
+
+    /**
+     * Describes what restoring a backup changes: the tasks it brings back, removes and reverts
+     */
+    private static formatBackupComparison(comparison: BackupComparison): string {
+        const formatTitles = (tasks: { title: string }[]) => tasks.length > 10
+            ? `${tasks.slice(0, 10).map(task => task.title).join(', ')}, …`
+            : tasks.map(task => task.title).join(', ');
+
+        const lines: string[] = [];
+        if (comparison.added.length > 0) {
+            lines.push(l10n.t('Brought back ({0}): {1}', comparison.added.length, formatTitles(comparison.added)));
+        }
+        if (comparison.removed.length > 0) {
+            lines.push(l10n.t('Removed ({0}): {1}', comparison.removed.length, formatTitles(comparison.removed)));
+        }
+        if (comparison.changed.length > 0) {
+            // Validation history is what a bad change usually costs, so its size is shown for each reverted task
+            const changed = comparison.changed.map(({ current, backup }) =>
+                l10n.t('{0} ({1} → {2} history entries)', backup.title, current.comments.length, backup.comments.length));
+            lines.push(l10n.t('Reverted ({0}): {1}', changed.length, formatTitles(changed.map(title => ({ title })))));
+        }
+        return lines.length > 0 ? lines.join('\n\n') : l10n.t('The backup has the same tasks as now.');
+    }
+
+    /**
+     * Shows the stored tasks that could not be migrated, so that they can be fixed and imported again
+     */
+    private async showQuarantinedTasks(): Promise<void> {
+        const quarantined = this.taskManager.getQuarantinedTasks();
+        if (quarantined.length === 0) {
+            vscode.window.showInformationMessage(l10n.t('No stored tasks were set aside'));
+            return;
+        }
+
+        const doc = await vscode.workspace.openTextDocument({
+            content: JSON.stringify(quarantined, null, 2),
+            language: 'json'
+        });
+        await vscode.window.showTextDocument(doc);
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,353 @@
+import { env, l10n } from 'vscode';
+
+/**
+ * A range of values of a cron field, e.g. "1-5", "*\/15" or "MON" (start = end)
+ */
+interface CronRange {
+    start: number;
+    end: number;
+    step: number;
+    /** Whether the range is written '*' (all the values of the field) */
+    wildcard: boolean;
+}
+
+/**
+ * A field of a cron expression: the ranges as written and the values they allow
+ */
+interface CronField {
+    ranges: CronRange[];
+    values: number[];
+}
+
+/**
+ * Represents a standard 5-field cron expression: minute, hour, day of month, month and day of week
+ */
+export interface CronExpression {
+    /** The expression, normalized to single spaces and uppercase names */
+    text: string;
+    minute: CronField;
+    hour: CronField;
+    dayOfMonth: CronField;
+    month: CronField;
+    /** Days of the week, Sunday = 0 (7 is accepted for Sunday too) */
+    dayOfWeek: CronField;
+}
+
+/**
+ * Bounds and names of each field, in expression order
+ */
+const FIELDS: Array<{ key: keyof Omit<CronExpression, 'text'>; label: string; min: number; max: number; names?: string[] }> = [
+    { key: 'minute', label: 'minute', min: 0, max: 59 },
+    { key: 'hour', label: 'hour', min: 0, max: 23 },
+    { key: 'dayOfMonth', label: 'day-of-month', min: 1, max: 31 },
+    { key: 'month', label: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+    { key: 'dayOfWeek', label: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+/**
+ * Words describing the values of a field, e.g. "every minute", "every 15th minute", "minute 5 and 10"
+ */
+interface FieldWords {
+    every: () => string;
+    everyNth: (ordinal: string) => string;
+    values: (list: string) => string;
+}
+
+const FIELD_WORDS: Record<keyof Omit<CronExpression, 'text'>, FieldWords> = {
+    minute: { every: () => l10n.t('every minute'), everyNth: ordinal => l10n.t('every {0} minute', ordinal), values: list => l10n.t('minute {0}', list) },
+    hour: { every: () => l10n.t('every hour'), everyNth: ordinal => l10n.t('every {0} hour', ordinal), values: list => l10n.t('hour {0}', list) },
+    dayOfMonth: { every: () => l10n.t('every day-of-month'), everyNth: ordinal => l10n.t('every {0} day-of-month', ordinal), values: list => l10n.t('day-of-month {0}', list) },
+    month: { every: () => l10n.t('every month'), everyNth: ordinal => l10n.t('every {0} month', ordinal), values: list => l10n.t('month {0}', list) },
+    dayOfWeek: { every: () => l10n.t('every day-of-week'), everyNth: ordinal => l10n.t('every {0} day-of-week', ordinal), values: list => l10n.t('day-of-week {0}', list) }
+};
+
+/** Maximum number of days scanned when searching for a run: a 28-year calendar cycle covers every date and weekday */
+const MAX_DAYS = 28 * 366;
+
+/**
+ * Utility class for parsing, describing and evaluating cron expressions
+ */
+export class CronExpressionHelper {
+    /**
+     * Parses a 5-field cron expression such as "0 9 * * 1-5"
+     * @throws Error if the expression is malformed or never runs
+     */
+    static parse(text: string): CronExpression {
+        const parts = text.trim().split(/\s+/).filter(part => part);
+        if (parts.length !== FIELDS.length) {
+            throw new Error(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+        }
+
+        const expression = { text: parts.join(' ').toUpperCase() } as CronExpression;
+        FIELDS.forEach((field, index) => {
+            expression[field.key] = CronExpressionHelper.parseField(parts[index].toUpperCase(), field.label, field.min, field.max, field.names);
+        });
+
+        // Sunday can be written 0 or 7
+        expression.dayOfWeek.values = [...new Set(expression.dayOfWeek.values.map(day => day % 7))].sort((a, b) => a - b);
+
+        // A day of month that no chosen month has (e.g. "0 0 30 2 *") never runs, unless a day of week is also given
+        if (!CronExpressionHelper.isRestricted(expression.dayOfWeek)) {
+            const longestMonth = Math.max(...expression.month.values.map(month => new Date(2024, month, 0).getDate()));
+            if (expression.dayOfMonth.values[0] > longestMonth) {
+                throw new Error('The expression never runs: no chosen month has the chosen days of month');
+            }
+        }
+
+        return expression;
+    }
+
+    /**
+     * Checks if a text is a valid cron expression
+     */
+    static isValid(text: string): boolean {
+        try {
+            CronExpressionHelper.parse(text);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Builds a human-readable description of an expression in the display language, e.g. "At 09:00 on Monday through Friday"
+     */
+    static describe(expression: CronExpression): string {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        const isSingleValues = (field: CronField) => field.ranges.every(range => !range.wildcard && range.start === range.end);
+        let description: string;
+
+        // A few fixed times read best as clock times
+        if (isSingleValues(expression.minute) && isSingleValues(expression.hour) &&
+            expression.minute.values.length * expression.hour.values.length <= 4) {
+            const times = expression.hour.values.flatMap(hour => expression.minute.values.map(minute => `${pad(hour)}:${pad(minute)}`));
+            description = l10n.t('At {0}', CronExpressionHelper.joinList(times));
+        } else if (CronExpressionHelper.isRestricted(expression.hour)) {
+            description = l10n.t('At {0} past {1}', CronExpressionHelper.describeField(expression.minute, FIELD_WORDS.minute),
+                CronExpressionHelper.describeField(expression.hour, FIELD_WORDS.hour));
+        } else {
+            description = l10n.t('At {0}', CronExpressionHelper.describeField(expression.minute, FIELD_WORDS.minute));
+        }
+
+        const locale = env.language || 'en-US';
+        // January 2, 2000 was a Sunday
+        const weekday = (value: number) => new Date(2000, 0, 2 + value % 7).toLocaleDateString(locale, { weekday: 'long' });
+        const month = (value: number) => new Date(2000, value - 1, 1).toLocaleDateString(locale, { month: 'long' });
+        const days = [
+            ...(CronExpressionHelper.isRestricted(expression.dayOfMonth) ? [CronExpressionHelper.describeField(expression.dayOfMonth, FIELD_WORDS.dayOfMonth)] : []),
+            ...(CronExpressionHelper.isRestricted(expression.dayOfWeek) ? [CronExpressionHelper.describeField(expression.dayOfWeek, FIELD_WORDS.dayOfWeek, weekday)] : [])
+        ];
+        if (days.length > 0) {
+            // Cron runs on either day when both are given
+            description = l10n.t('{0} on {1}', description, days.length > 1 ? l10n.t('{0} or on {1}', days[0], days[1]) : days[0]);
+        }
+        if (CronExpressionHelper.isRestricted(expression.month)) {
+            description = l10n.t('{0} in {1}', description, CronExpressionHelper.describeField(expression.month, FIELD_WORDS.month, month));
+        }
+
+        return description;
+    }
+
+    /**
+     * Finds the first run strictly after a date, or null if there is none within the scanned years
+     */
+    static nextOccurrence(expression: CronExpression, after: Date): Date | null {
+        let date = new Date(after.getFullYear(), after.getMonth(), after.getDate(), after.getHours(), after.getMinutes() + 1);
+
+        for (let day = 0; day < MAX_DAYS; day++) {
+            if (!expression.month.values.includes(date.getMonth() + 1)) {
+                date = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+                continue;
+            }
+            if (!CronExpressionHelper.matchesDay(expression, date)) {
+                date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+                continue;
+            }
+
+            const time = CronExpressionHelper.findTime(expression, date.getHours(), date.getMinutes(), 1);
+            if (time) {
+                return new Date(date.getFullYear(), date.getMonth(), date.getDate(), time[0], time[1]);
+            }
+            date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+        }
+
+        return null;
+    }
+
+    /**
+     * Finds the last run strictly before a date, or null if there is none within the scanned years
+     */
+    static previousOccurrence(expression: CronExpression, before: Date): Date | null {
+        let date = new Date(before.getFullYear(), before.getMonth(), before.getDate(), before.getHours(), before.getMinutes() - (before.getSeconds() || before.getMilliseconds() ? 0 : 1));
+
+        for (let day = 0; day < MAX_DAYS; day++) {
+            if (!expression.month.values.includes(date.getMonth() + 1)) {
+                date = new Date(date.getFullYear(), date.getMonth(), 0, 23, 59);
+                continue;
+            }
+            if (!CronExpressionHelper.matchesDay(expression, date)) {
+                date = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 23, 59);
+                continue;
+            }
+
+            const time = CronExpressionHelper.findTime(expression, date.getHours(), date.getMinutes(), -1);
+            if (time) {
+                return new Date(date.getFullYear(), date.getMonth(), date.getDate(), time[0], time[1]);
+            }
+            date = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 23, 59);
+        }
+
+        return null;
+    }
+
+    /**
+     * Checks whether a day matches the day fields. As in standard cron, a day matches either field when both are restricted.
+     */
+    private static matchesDay(expression: CronExpression, date: Date): boolean {
+        const matchesDayOfMonth = expression.dayOfMonth.values.includes(date.getDate());
+        const matchesDayOfWeek = expression.dayOfWeek.values.includes(date.getDay());
+
+        if (CronExpressionHelper.isRestricted(expression.dayOfMonth) && CronExpressionHelper.isRestricted(expression.dayOfWeek)) {
+            return matchesDayOfMonth || matchesDayOfWeek;
+        }
+        return matchesDayOfMonth && matchesDayOfWeek;
+    }
+
+    /**
+     * Finds the first run time of a day from a time, searching forward (direction 1) or backward (direction -1), inclusive
+     */
+    private static findTime(expression: CronExpression, hour: number, minute: number, direction: 1 | -1): [number, number] | null {
+        const hours = direction === 1 ? expression.hour.values : [...expression.hour.values].reverse();
+        const minutes = direction === 1 ? expression.minute.values : [...expression.minute.values].reverse();
+
+        for (const candidateHour of hours) {
+            if ((candidateHour - hour) * direction < 0) {
+                continue;
+            }
+            // Later hours (earlier when searching backward) can use any minute
+            const candidateMinute = candidateHour === hour
+                ? minutes.find(value => (value - minute) * direction >= 0)
+                : minutes[0];
+            if (candidateMinute !== undefined) {
+                return [candidateHour, candidateMinute];
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Whether a field restricts its values (anything but a plain '*')
+     */
+    private static isRestricted(field: CronField): boolean {
+        return !field.ranges.some(range => range.wildcard && range.step === 1);
+    }
+
+    /**
+     * Describes a field, e.g. "every 15th minute", "hour 9 through 17" or "Monday, Wednesday and Friday"
+     */
+    private static describeField(field: CronField, words: FieldWords, name?: (value: number) => string): string {
+        const single: string[] = [];
+        const others: string[] = [];
+        const label = (value: number) => name ? name(value) : String(value);
+
+        for (const range of field.ranges) {
+            const every = range.step > 1 ? words.everyNth(CronExpressionHelper.ordinal(range.step)) : words.every();
+            if (range.wildcard) {
+                others.push(every);
+            } else if (range.start === range.end) {
+                single.push(label(range.start));
+            } else if (range.step === 1 && name) {
+                others.push(l10n.t('{0} through {1}', label(range.start), label(range.end)));
+            } else {
+                others.push(l10n.t('{0} from {1} through {2}', every, label(range.start), label(range.end)));
+            }
+        }
+
+        if (single.length > 0) {
+            others.unshift(name ? CronExpressionHelper.joinList(single) : words.values(CronExpressionHelper.joinList(single)));
+        }
+        return CronExpressionHelper.joinList(others);
+    }
+
+    /**
+     * Joins items as "a, b and c"
+     */
+    private static joinList(items: string[]): string {
+        return items.length > 1 ? l10n.t('{0} and {1}', items.slice(0, -1).join(', '), items[items.length - 1]) : items.join('');
+    }
+
+    /**
+     * Formats a number as an ordinal, e.g. 2nd
+     */
+    private static ordinal(n: number): string {
+        if (n % 100 >= 11 && n % 100 <= 13) {
+            return l10n.t('{0}th', n);
+        }
+        switch (n % 10) {
+            case 1: return l10n.t('{0}st', n);
+            case 2: return l10n.t('{0}nd', n);
+            case 3: return l10n.t('{0}rd', n);
+            default: return l10n.t('{0}th', n);
+        }
+    }
+
+    /**
+     * Parses a field such as "*", "*\/15", "1-5", "MON,WED,FRI" or "0-30/10"
+     */
+    private static parseField(text: string, label: string, min: number, max: number, names?: string[]): CronField {
+        const ranges = text.split(',').map(item => {
+            const match = /^(\*|[0-9A-Z]+)(?:-([0-9A-Z]+))?(?:\/(\d+))?$/.exec(item);
+            if (!match || (match[1] === '*' && match[2] !== undefined)) {
+                throw new Error(`Invalid ${label} value: ${item}`);
+            }
+
+            const step = match[3] !== undefined ? parseInt(match[3], 10) : 1;
+            if (step < 1 || step > max - min + 1) {
+                throw new Error(`Invalid ${label} step: ${item}`);
+            }
+
+            if (match[1] === '*') {
+                return { start: min, end: max === 7 ? 6 : max, step, wildcard: true };
+            }
+
+            const start = CronExpressionHelper.parseValue(match[1], label, min, max, names);
+            // "5/15" runs from 5 to the end of the field, every 15
+            const end = match[2] !== undefined
+                ? CronExpressionHelper.parseValue(match[2], label, min, max, names)
+                : match[3] !== undefined ? max : start;
+            if (end < start) {
+                throw new Error(`Invalid ${label} range: ${item} (start after end)`);
+            }
+            return { start, end, step, wildcard: false };
+        });
+
+        const values = new Set<number>();
+        for (const range of ranges) {
+            for (let value = range.start; value <= range.end; value += range.step) {
+                values.add(value);
+            }
+        }
+
+        return { ranges, values: [...values].sort((a, b) => a - b) };
+    }
+
+    /**
+     * Parses a value of a field, as a number or a three-letter name
+     */
+    private static parseValue(text: string, label: string, min: number, max: number, names?: string[]): number {
+        if (/^\d+$/.test(text)) {
+            const value = parseInt(text, 10);
+            if (value < min || value > max) {
+                throw new Error(`${label} value out of range: ${text} (allowed ${min}-${max})`);
+            }
+            return value;
+        }
+
+        const index = names ? names.indexOf(text) : -1;
+        if (index === -1) {
+            throw new Error(`Invalid ${label} value: ${text}`);
+        }
+        return index + min;
+    }
+}
@@ -0,0 +1,16 @@
+/**
+ * Utility class for building the markup of webviews
+ */
+export class HtmlUtil {
+    /**
+     * Escapes a string for safe insertion into HTML, as text or as an attribute value
+     */
+    static escape(str: string): string {
+        return str
+            .replace(/&/g, '&amp;')   // Escape ampersands first
+            .replace(/</g, '&lt;')    // Escape less than
+            .replace(/>/g, '&gt;')    // Escape greater than
+            .replace(/"/g, '&quot;')  // Escape double quotes
+            .replace(/'/g, '&#39;');  // Escape single quotes
+    }
+}
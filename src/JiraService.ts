@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { Task } from './Task';
+import { TaskStatusUtil } from './TaskStatusUtil';
 
 /**
  * Interface for JIRA configuration
@@ -254,7 +255,7 @@ export class JiraService {
                                                 content: [
                                                     {
                                                         type: 'text',
-                                                        text: `Due Date: ${task.dueDate.toLocaleDateString()}`
+                                                        text: `Due Date: ${TaskStatusUtil.formatDueDate(task)}`
                                                     }
                                                 ]
                                             }
@@ -3,6 +3,7 @@ import { Task } from './Task';
 import { TaskManager } from './TaskManager';
 import { TaskProvider } from './TaskProvider';
 import { CalendarProvider } from './CalendarProvider';
+import { TaskStatusUtil } from './TaskStatusUtil';
 
 /**
  * Notification frequency options
@@ -33,6 +34,7 @@ export class NotificationManager {
     private context: vscode.ExtensionContext;
     private notificationStates: Map<string, TaskNotificationState> = new Map();
     private checkInterval: NodeJS.Timeout | undefined;
+    private dueTimeTimers: NodeJS.Timeout[] = [];
     private readonly CHECK_INTERVAL_MS = 30 * 60 * 1000; // Check every 30 minutes
 
     constructor(taskManager: TaskManager, taskProvider: TaskProvider, calendarProvider: CalendarProvider, context: vscode.ExtensionContext) {
@@ -41,6 +43,7 @@ export class NotificationManager {
         this.calendarProvider = calendarProvider;
         this.context = context;
         this.loadNotificationStates();
+        this.updatePausedTasks();
         this.startPeriodicCheck();
         this.setupConfigurationListener();
     }
@@ -50,10 +53,21 @@ export class NotificationManager {
      */
     private startPeriodicCheck(): void {
         this.checkInterval = setInterval(() => {
+            this.updatePausedTasks();
             this.checkAndNotifyDueTasks();
         }, this.CHECK_INTERVAL_MS);
     }
 
+    /**
+     * Resumes the paused tasks whose resume date has come and pauses the tasks outside their active window
+     */
+    private updatePausedTasks(): void {
+        if (this.taskManager.updatePausedTasks().length > 0) {
+            this.taskProvider.refresh();
+            this.calendarProvider.refresh();
+        }
+    }
+
     /**
      * Sets up a listener for configuration changes
      */
@@ -114,6 +128,7 @@ export class NotificationManager {
         frequency: NotificationFrequency;
         showOverdueOnly: boolean;
         maxNotificationsPerTask: number;
+        globalTasksInWorkspaces: boolean;
     } {
         const config = vscode.workspace.getConfiguration('recurringTasks.notifications');
         
@@ -121,10 +136,21 @@ export class NotificationManager {
             enabled: config.get<boolean>('enabled', true),
             frequency: config.get<NotificationFrequency>('frequency', 'hourly'),
             showOverdueOnly: config.get<boolean>('showOverdueOnly', false),
-            maxNotificationsPerTask: config.get<number>('maxNotificationsPerTask', 5)
+            maxNotificationsPerTask: config.get<number>('maxNotificationsPerTask', 5),
+            globalTasksInWorkspaces: config.get<boolean>('globalTasksInWorkspaces', true)
         };
     }
 
+    /**
+     * Checks if the tasks of a task's store are notified in this window: workspace and shared tasks always are,
+     * global tasks only outside of a workspace unless the user wants them everywhere
+     */
+    private isNotifiedStore(task: Task, settings: ReturnType<typeof this.getNotificationSettings>): boolean {
+        return (task.store || 'global') !== 'global'
+            || settings.globalTasksInWorkspaces
+            || !this.taskManager.getStores().includes('workspace');
+    }
+
     /**
      * Checks if enough time has passed since the last notification for a task
      */
@@ -146,6 +172,11 @@ export class NotificationManager {
             return true;
         }
 
+        // Announce a task reaching its due time even if it was notified as due shortly before
+        if (isOverdue && !state.isOverdue) {
+            return true;
+        }
+
         // Check if enough time has passed based on frequency setting
         const now = new Date();
         const timeSinceLastNotification = now.getTime() - state.lastNotificationTime.getTime();
@@ -187,13 +218,18 @@ export class NotificationManager {
      */
     private createNotificationMessage(task: Task, isOverdue: boolean): string {
         const overdueText = isOverdue ? 'OVERDUE: ' : '';
-        const dueDateText = task.dueDate.toLocaleDateString();
-        
-        if (isOverdue) {
+        const dueDateText = TaskStatusUtil.formatDueDate(task);
+        // Tasks pushed back again and again are called out
+        const postponedText = TaskStatusUtil.isPostponedTooOften(task) ? ` - postponed ${task.postponedCount} times in a row` : '';
+        
+        if (task.hasDueTime) {
+            // Timed tasks are described relative to their exact due time
+            return `${overdueText}${task.title} (due ${dueDateText}, ${TaskStatusUtil.getTimeRemaining(task).toLowerCase()})${postponedText}`;
+        } else if (isOverdue) {
             const daysSinceOverdue = Math.floor((new Date().getTime() - task.dueDate.getTime()) / (1000 * 60 * 60 * 24));
-            return `${overdueText}${task.title} (due ${dueDateText}, ${daysSinceOverdue} day${daysSinceOverdue === 1 ? '' : 's'} ago)`;
+            return `${overdueText}${task.title} (due ${dueDateText}, ${daysSinceOverdue} day${daysSinceOverdue === 1 ? '' : 's'} ago)${postponedText}`;
         } else {
-            return `${task.title} is due today (${dueDateText})`;
+            return `${task.title} is due today (${dueDateText})${postponedText}`;
         }
     }
 
@@ -210,24 +246,32 @@ export class NotificationManager {
         
         // Define notification actions
         const validateAction = 'Validate Task';
+        const skipAction = 'Skip Occurrence';
+        const postponeAction = 'Postpone';
         const showDetailsAction = 'Show Details';
         const snoozeAction = `Snooze (${snoozeText})`;
         const disableAction = 'Disable Notifications';
         
+        // Only recurring tasks have an occurrence to skip
+        const isRecurring = task.periodicity.isRecurring && task.periodicity.type !== 'none';
+        const actions = isRecurring
+            ? [validateAction, skipAction, postponeAction, showDetailsAction, snoozeAction, disableAction]
+            : [validateAction, postponeAction, showDetailsAction, snoozeAction, disableAction];
+        
         // Show the notification with actions
-        const selectedAction = await vscode.window.showWarningMessage(
-            message,
-            validateAction,
-            showDetailsAction,
-            snoozeAction,
-            disableAction
-        );
+        const selectedAction = await vscode.window.showWarningMessage(message, ...actions);
         
         // Handle the user's action
         switch (selectedAction) {
             case validateAction:
                 await this.handleValidateTask(task);
                 break;
+            case skipAction:
+                await this.handleSkipOccurrence(task);
+                break;
+            case postponeAction:
+                await this.handlePostponeTask(task);
+                break;
             case showDetailsAction:
                 await this.handleShowTaskDetails(task);
                 break;
@@ -247,12 +291,23 @@ export class NotificationManager {
      * Handles task validation from notification
      */
     private async handleValidateTask(task: Task): Promise<void> {
+        const blocker = TaskStatusUtil.getValidationBlocker(task);
+        if (blocker) {
+            vscode.window.showErrorMessage(blocker);
+            await this.handleShowTaskDetails(task);
+            return;
+        }
+
+        if (!await TaskStatusUtil.confirmValidationWhileBlocked(task, this.taskManager.getBlockingTasks(task.id))) {
+            return;
+        }
+
         const comment = await vscode.window.showInputBox({
             prompt: 'Add a validation comment (optional)',
             placeHolder: 'Task completed successfully...'
         });
         
-        this.taskManager.validateTask(task.id, comment || '');
+        this.taskManager.validateTask(task.id, comment || '', TaskStatusUtil.getIdentity());
         this.taskProvider.refresh();
         this.calendarProvider.refresh();
         
@@ -266,6 +321,59 @@ export class NotificationManager {
         this.refreshWebviewForTask(task.id);
     }
 
+    /**
+     * Handles skipping the current occurrence from notification
+     */
+    private async handleSkipOccurrence(task: Task): Promise<void> {
+        const reason = await vscode.window.showInputBox({
+            prompt: 'Reason for skipping this occurrence (required)',
+            placeHolder: 'Holiday week, freeze period...',
+            validateInput: value => value.trim() ? undefined : 'A reason is required to skip an occurrence'
+        });
+
+        if (reason === undefined) {
+            return;
+        }
+
+        const updatedTask = this.taskManager.skipOccurrence(task.id, reason);
+        if (!updatedTask) {
+            vscode.window.showErrorMessage('Failed to skip occurrence');
+            return;
+        }
+
+        this.taskProvider.refresh();
+        this.calendarProvider.refresh();
+
+        // The skipped occurrence no longer needs notifications
+        this.notificationStates.delete(task.id);
+        this.saveNotificationStates();
+
+        vscode.window.showInformationMessage(updatedTask.status === 'archived'
+            ? `Occurrence of "${task.title}" skipped. The series is completed and the task was archived.`
+            : `Occurrence of "${task.title}" skipped.`);
+
+        // Refresh webview if it's showing this task
+        this.refreshWebviewForTask(task.id);
+    }
+
+    /**
+     * Handles postponing a task from notification, with the postpone command
+     */
+    private async handlePostponeTask(task: Task): Promise<void> {
+        const dueDate = task.dueDate.getTime();
+        await vscode.commands.executeCommand('recurringtasks.postponeTask', {
+            task: task,
+            label: task.title,
+            collapsibleState: vscode.TreeItemCollapsibleState.None
+        });
+
+        // The postponed occurrence starts over with notifications
+        if (this.taskManager.getTask(task.id)?.dueDate.getTime() !== dueDate) {
+            this.notificationStates.delete(task.id);
+            this.saveNotificationStates();
+        }
+    }
+
     /**
      * Handles showing task details from notification
      */
@@ -366,11 +474,15 @@ export class NotificationManager {
         
         const now = new Date();
         const activeTasks = this.taskManager.getTasks();
-        
-        // Check each active task
-        for (const task of activeTasks) {
-            const isOverdue = task.dueDate < now;
-            const isDueToday = this.isSameDay(task.dueDate, now);
+        const notifiedTasks = activeTasks.filter(task => this.isNotifiedStore(task, settings));
+        
+        // Check each active task of the relevant stores (paused tasks are not due until they resume)
+        for (const task of notifiedTasks) {
+            const isOverdue = TaskStatusUtil.isOverdue(task);
+            // Timed tasks are announced when their due time falls before the next check, other tasks on their due day
+            const isDueToday = task.hasDueTime
+                ? task.dueDate.getTime() - now.getTime() <= this.CHECK_INTERVAL_MS
+                : this.isSameDay(task.dueDate, now);
             
             // Skip if we only want overdue notifications and task is not overdue
             if (settings.showOverdueOnly && !isOverdue) {
@@ -388,6 +500,32 @@ export class NotificationManager {
         
         // Clean up notification states for tasks that no longer exist
         this.cleanupNotificationStates(activeTasks);
+
+        this.scheduleDueTimeChecks(notifiedTasks);
+    }
+
+    /**
+     * Schedules a check at the exact due time of timed tasks falling due before the next periodic check,
+     * so that their overdue notification is not delayed by the check interval
+     */
+    private scheduleDueTimeChecks(activeTasks: Task[]): void {
+        this.clearDueTimeTimers();
+
+        const now = Date.now();
+        for (const task of activeTasks) {
+            const delay = task.dueDate.getTime() - now;
+            if (task.hasDueTime && delay > 0 && delay <= this.CHECK_INTERVAL_MS) {
+                this.dueTimeTimers.push(setTimeout(() => this.checkAndNotifyDueTasks(), delay + 1000));
+            }
+        }
+    }
+
+    /**
+     * Cancels the scheduled due time checks
+     */
+    private clearDueTimeTimers(): void {
+        this.dueTimeTimers.forEach(timer => clearTimeout(timer));
+        this.dueTimeTimers = [];
     }
 
     /**
@@ -508,6 +646,7 @@ export class NotificationManager {
      */
     public dispose(): void {
         this.stopPeriodicCheck();
+        this.clearDueTimeTimers();
         this.saveNotificationStates();
     }
 } 
\ No newline at end of file
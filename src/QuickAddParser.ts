@@ -0,0 +1,379 @@
+import { Periodicity, PeriodicityHelper, PeriodUnit, TaskPriority, TagHelper } from './Task';
+
+/**
+ * A task described in one line, as understood by the quick-add command
+ */
+export interface QuickAddResult {
+    /** What is left of the line once the recognized phrases are taken out */
+    title: string;
+    /** Recurrence of the task (one-shot if none was recognized) */
+    periodicity: Periodicity;
+    /** First due date: the start date, or the first occurrence of the rule from it */
+    dueDate: Date;
+    /** Whether a time of day was given */
+    hasDueTime: boolean;
+    /** Tags written as #tag */
+    tags: string[];
+    /** Priority written as !high (defaults to normal) */
+    priority: TaskPriority;
+}
+
+/**
+ * Words and phrases of a language understood by the quick-add parser.
+ * Each entry is a lowercase regular expression alternative.
+ */
+interface QuickAddGrammar {
+    /** Words introducing a repetition, e.g. "every" */
+    every: string[];
+    /** Word for "every other" (every second period), if the language has one */
+    other: string[];
+    /** Words for each unit, singular and plural, longest phrases first */
+    units: Record<PeriodUnit, string[]>;
+    /** Adjectives for a repetition every single period, e.g. "weekly" */
+    adjectives: Record<'day' | 'week' | 'month' | 'year', string[]>;
+    /** Weekday names, Sunday first */
+    weekdays: string[];
+    /** Month names, January first */
+    months: string[];
+    /** Words joining the items of a list */
+    and: string[];
+    /** Words introducing the start date */
+    start: string[];
+    /** Words introducing the end date of the series */
+    until: string[];
+    /** Word counting the occurrences of the series, e.g. "6 times" */
+    times: string;
+    /** Words for today and tomorrow */
+    today: string[];
+    tomorrow: string[];
+    /** Pattern of the next given weekday, where {weekday} stands for the weekday name */
+    nextWeekday: string;
+    /** Pattern of a time of day, capturing the hours, the minutes and an optional am/pm */
+    time: string;
+    /** Whether numeric dates are written day first (15/01) rather than month first (01/15) */
+    dayFirst: boolean;
+}
+
+const ENGLISH: QuickAddGrammar = {
+    every: ['every', 'each'],
+    other: ['other'],
+    units: {
+        businessDay: ['business days?', 'working days?', 'weekdays?'],
+        day: ['days?'],
+        week: ['weeks?'],
+        month: ['months?'],
+        year: ['years?']
+    },
+    adjectives: {
+        day: ['daily'],
+        week: ['weekly'],
+        month: ['monthly'],
+        year: ['yearly', 'annually']
+    },
+    weekdays: ['sun(?:day)?', 'mon(?:day)?', 'tue(?:s|sday)?', 'wed(?:nesday)?', 'thu(?:rs?|rsday)?', 'fri(?:day)?', 'sat(?:urday)?'],
+    months: ['jan(?:uary)?', 'feb(?:ruary)?', 'mar(?:ch)?', 'apr(?:il)?', 'may', 'june?', 'july?', 'aug(?:ust)?', 'sep(?:t|tember)?', 'oct(?:ober)?', 'nov(?:ember)?', 'dec(?:ember)?'],
+    and: ['and', '&'],
+    start: ['starting(?: on| from)?', 'beginning(?: on)?', 'from', 'due(?: on)?', 'on'],
+    until: ['until', 'till', 'through'],
+    times: 'times',
+    today: ['today'],
+    tomorrow: ['tomorrow'],
+    nextWeekday: 'next {weekday}',
+    time: 'at\\s+(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?',
+    dayFirst: false
+};
+
+const FRENCH: QuickAddGrammar = {
+    every: ['tous les', 'toutes les', 'chaque'],
+    other: [],
+    units: {
+        businessDay: ['jours? ouvrés?', 'jours? ouvrables?'],
+        day: ['jours?'],
+        week: ['semaines?'],
+        month: ['mois'],
+        year: ['ans?', 'années?']
+    },
+    adjectives: {
+        day: ['quotidien(?:ne)?', 'quotidiennement'],
+        week: ['hebdomadaire'],
+        month: ['mensuel(?:le)?'],
+        year: ['annuel(?:le)?']
+    },
+    weekdays: ['dim(?:anche)?s?', 'lun(?:di)?s?', 'mar(?:di)?s?', 'mer(?:credi)?s?', 'jeu(?:di)?s?', 'ven(?:dredi)?s?', 'sam(?:edi)?s?'],
+    months: ['janv(?:ier)?', 'f[ée]vr(?:ier)?', 'mars', 'avr(?:il)?', 'mai', 'juin', 'juil(?:let)?', 'ao[uû]t', 'sept(?:embre)?', 'oct(?:obre)?', 'nov(?:embre)?', 'd[ée]c(?:embre)?'],
+    and: ['et', '&'],
+    start: ['à partir du', 'à partir de', 'à compter du', 'dès le', 'commençant le', 'le'],
+    until: ['jusqu[\'’]au', 'jusqu[\'’]à'],
+    times: 'fois',
+    today: ['aujourd[\'’]hui'],
+    tomorrow: ['demain'],
+    nextWeekday: '{weekday} prochain',
+    time: 'à\\s+(\\d{1,2})\\s*(?:h|:)\\s*(\\d{2})?()',
+    dayFirst: true
+};
+
+/** Start and end of a whole word, letters with accents included */
+const WORD_START = '(?<![\\p{L}\\d])';
+const WORD_END = '(?![\\p{L}\\d])';
+
+/**
+ * Parses a one-line task description such as "Renew TLS certs every 3 months starting Jan 15 #security !high"
+ * (or "Renouveler les certificats tous les 3 mois à partir du 15 janvier #sécurité !haute").
+ */
+export class QuickAddParser {
+    /** Priority names accepted after '!', in English and French */
+    private static readonly PRIORITY_NAMES: Record<string, TaskPriority> = {
+        critical: 'critical', critique: 'critical', urgent: 'critical',
+        high: 'high', haute: 'high', haut: 'high', important: 'high',
+        normal: 'normal', normale: 'normal',
+        low: 'low', basse: 'low', bas: 'low'
+    };
+
+    /**
+     * Parses a line, trying the grammar of a language first and the other one if the first recognizes nothing
+     * @param language Language of the user interface (e.g. 'fr' or 'en-US')
+     * @throws Error if the line has no title or a date does not exist
+     */
+    static parse(line: string, language: string = 'en', now: Date = new Date()): QuickAddResult {
+        const grammars = language.toLowerCase().startsWith('fr') ? [FRENCH, ENGLISH] : [ENGLISH, FRENCH];
+
+        let fallback: { result: QuickAddResult; recognized: boolean } | undefined;
+        for (const grammar of grammars) {
+            const attempt = QuickAddParser.parseWithGrammar(line, grammar, now);
+            if (attempt.recognized) {
+                return attempt.result;
+            }
+            fallback = fallback || attempt;
+        }
+
+        return fallback!.result;
+    }
+
+    /**
+     * Lists the first due dates of a parsed task, within the end conditions of its series
+     */
+    static getUpcomingDates(result: QuickAddResult, count: number): Date[] {
+        const dates = [result.dueDate];
+        const periodicity = result.periodicity;
+
+        while (periodicity.isRecurring && dates.length < count && (!periodicity.count || dates.length < periodicity.count)) {
+            const next = PeriodicityHelper.calculateFollowingDueDate(dates[dates.length - 1], periodicity, { seriesStart: result.dueDate });
+            if (next <= dates[dates.length - 1] || PeriodicityHelper.hasSeriesEnded(periodicity, 0, next)) {
+                break;
+            }
+            dates.push(next);
+        }
+
+        return dates;
+    }
+
+    /**
+     * Parses a line with one grammar, telling whether any of its phrases was recognized
+     */
+    private static parseWithGrammar(line: string, grammar: QuickAddGrammar, now: Date): { result: QuickAddResult; recognized: boolean } {
+        let text = ` ${line.trim()} `;
+        let recognized = false;
+
+        // Takes the first match of a pattern out of the text
+        const take = (pattern: string): RegExpExecArray | null => {
+            const match = new RegExp(`${WORD_START}${pattern}${WORD_END}`, 'iu').exec(text);
+            if (match) {
+                text = `${text.substring(0, match.index)} ${text.substring(match.index + match[0].length)}`;
+                recognized = true;
+            }
+            return match;
+        };
+
+        // Tags and priority are written the same way in every language
+        const tags: string[] = [];
+        text = text.replace(/(^|\s)#([^\s#!]+)/gu, (_, space: string, tag: string) => {
+            tags.push(tag);
+            return space;
+        });
+        let priority: TaskPriority = 'normal';
+        text = text.replace(/(^|\s)!(\p{L}+)/gu, (match, space: string, name: string) => {
+            const value = QuickAddParser.PRIORITY_NAMES[name.toLowerCase()];
+            if (!value) {
+                return match;
+            }
+            priority = value;
+            return space;
+        });
+
+        const periodicity = QuickAddParser.takePeriodicity(grammar, take);
+        const datePattern = QuickAddParser.getDatePattern(grammar);
+
+        // End conditions only make sense for a recurring task
+        if (periodicity.isRecurring) {
+            const until = take(`(?:${grammar.until.join('|')})\\s+${datePattern}`);
+            if (until) {
+                periodicity.until = QuickAddParser.toDate(until.slice(1), grammar, now);
+            }
+            const count = take(`(?:for\\s+|pendant\\s+)?(\\d+)\\s+${grammar.times}`);
+            if (count) {
+                periodicity.count = Math.max(1, parseInt(count[1], 10));
+            }
+        }
+
+        // The start date may be introduced by a word ("starting Jan 15") or stand on its own ("Jan 15")
+        const start = take(`(?:(?:${grammar.start.join('|')})\\s+)?${datePattern}`);
+        const startDate = start ? QuickAddParser.toDate(start.slice(1), grammar, now) : new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+        const time = take(grammar.time);
+        if (time) {
+            let hours = parseInt(time[1], 10);
+            const minutes = time[2] ? parseInt(time[2], 10) : 0;
+            if (time[3]) {
+                hours = (hours % 12) + (time[3].toLowerCase() === 'pm' ? 12 : 0);
+            }
+            if (hours > 23 || minutes > 59) {
+                throw new Error(`Invalid time: ${time[0].trim()}`);
+            }
+            startDate.setHours(hours, minutes, 0, 0);
+        }
+
+        const title = text.replace(/\s+/g, ' ').trim();
+        if (!title) {
+            throw new Error('A title is required');
+        }
+
+        // Rules naming days only fall on some of them: the task is first due on the first of these days from the start date
+        let dueDate = startDate;
+        if (periodicity.type === 'rrule') {
+            const dayBefore = new Date(startDate);
+            dayBefore.setDate(dayBefore.getDate() - 1);
+            dueDate = PeriodicityHelper.calculateFollowingDueDate(dayBefore, periodicity);
+        }
+
+        return {
+            result: { title, periodicity, dueDate, hasDueTime: !!time, tags: TagHelper.normalize(tags), priority },
+            recognized
+        };
+    }
+
+    /**
+     * Takes a recurrence phrase out of the text, if any
+     */
+    private static takePeriodicity(grammar: QuickAddGrammar, take: (pattern: string) => RegExpExecArray | null): Periodicity {
+        const every = `(?:${grammar.every.join('|')})`;
+        const units = Object.entries(grammar.units) as Array<[PeriodUnit, string[]]>;
+
+        // Every N units, or every other unit
+        for (const [unit, words] of units) {
+            const interval = take(`${every}\\s+(\\d+)\\s+(?:${words.join('|')})`);
+            if (interval) {
+                return QuickAddParser.createPeriodicity(unit, Math.max(1, parseInt(interval[1], 10)));
+            }
+            if (grammar.other.length > 0 && take(`${every}\\s+(?:${grammar.other.join('|')})\\s+(?:${words.join('|')})`)) {
+                return QuickAddParser.createPeriodicity(unit, 2);
+            }
+        }
+
+        // Every given weekdays, e.g. "every Monday and Thursday"
+        const weekday = `(?:${grammar.weekdays.join('|')})`;
+        const separator = `(?:\\s*,\\s*|\\s+(?:${grammar.and.join('|')})\\s+)`;
+        const weekdays = take(`${every}\\s+(${weekday}s?(?:${separator}${weekday}s?)*)`);
+        if (weekdays) {
+            const codes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+            const days = weekdays[1].split(new RegExp(separator, 'iu'))
+                .map(name => grammar.weekdays.findIndex(pattern => new RegExp(`^(?:${pattern})s?$`, 'iu').test(name.trim())))
+                .filter(index => index !== -1);
+            return PeriodicityHelper.createFromRRule(`FREQ=WEEKLY;BYDAY=${[...new Set(days)].map(index => codes[index]).join(',')}`);
+        }
+
+        // Every single unit, e.g. "every month" or "monthly"
+        for (const [unit, words] of units) {
+            if (take(`${every}\\s+(?:${words.join('|')})`)) {
+                return QuickAddParser.createPeriodicity(unit, 1);
+            }
+        }
+        for (const [unit, words] of Object.entries(grammar.adjectives) as Array<[PeriodUnit, string[]]>) {
+            if (take(`(?:${words.join('|')})`)) {
+                return QuickAddParser.createPeriodicity(unit, 1);
+            }
+        }
+
+        return PeriodicityHelper.createOneShot();
+    }
+
+    /**
+     * Creates the periodicity repeating every `interval` units
+     */
+    private static createPeriodicity(unit: PeriodUnit, interval: number): Periodicity {
+        switch (unit) {
+            case 'day':
+                return PeriodicityHelper.createDaily(interval);
+            case 'businessDay':
+                return PeriodicityHelper.createBusinessDays(interval);
+            case 'week':
+                return PeriodicityHelper.createWeekly(interval);
+            case 'month':
+                return PeriodicityHelper.createMonthly(interval);
+            case 'year':
+                return PeriodicityHelper.createYearly(interval);
+        }
+    }
+
+    /**
+     * Builds the pattern of a date, with one capturing group per form:
+     * ISO date, numeric date, day then month name, month name then day, today, tomorrow, next weekday
+     */
+    private static getDatePattern(grammar: QuickAddGrammar): string {
+        const month = `(${grammar.months.join('|')})\\.?`;
+        const year = '(?:,?\\s+(\\d{4}))?';
+        return '(?:' + [
+            '(\\d{4})-(\\d{2})-(\\d{2})',
+            '(\\d{1,2})/(\\d{1,2})(?:/(\\d{4}))?',
+            `(\\d{1,2})(?:st|nd|rd|th|er)?\\s+${month}${year}`,
+            `${month}\\s+(\\d{1,2})(?:st|nd|rd|th)?${year}`,
+            `(${grammar.today.join('|')})`,
+            `(${grammar.tomorrow.join('|')})`,
+            grammar.nextWeekday.replace('{weekday}', `(${grammar.weekdays.join('|')})`)
+        ].join('|') + ')';
+    }
+
+    /**
+     * Converts the groups captured by the date pattern to a date.
+     * Dates without a year are the next ones from today.
+     * @throws Error if the date does not exist
+     */
+    private static toDate(groups: Array<string | undefined>, grammar: QuickAddGrammar, now: Date): Date {
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        const monthIndex = (name: string) => grammar.months.findIndex(pattern => new RegExp(`^(?:${pattern})$`, 'iu').test(name));
+        const [isoYear, isoMonth, isoDay, numA, numB, numYear, dayA, monthA, yearA, monthB, dayB, yearB, todayWord, tomorrowWord, nextWeekday] = groups;
+
+        let year: number | undefined;
+        let month: number;
+        let day: number;
+
+        if (isoYear) {
+            [year, month, day] = [parseInt(isoYear, 10), parseInt(isoMonth!, 10) - 1, parseInt(isoDay!, 10)];
+        } else if (numA) {
+            const [first, second] = [parseInt(numA, 10), parseInt(numB!, 10)];
+            [day, month] = grammar.dayFirst ? [first, second - 1] : [second, first - 1];
+            year = numYear ? parseInt(numYear, 10) : undefined;
+        } else if (dayA) {
+            [day, month] = [parseInt(dayA, 10), monthIndex(monthA!)];
+            year = yearA ? parseInt(yearA, 10) : undefined;
+        } else if (monthB) {
+            [day, month] = [parseInt(dayB!, 10), monthIndex(monthB)];
+            year = yearB ? parseInt(yearB, 10) : undefined;
+        } else if (todayWord || tomorrowWord) {
+            return new Date(today.getFullYear(), today.getMonth(), today.getDate() + (tomorrowWord ? 1 : 0));
+        } else {
+            // The next given weekday, a week later if it is today
+            const weekday = grammar.weekdays.findIndex(pattern => new RegExp(`^(?:${pattern})$`, 'iu').test(nextWeekday!));
+            const offset = ((weekday - today.getDay() + 7) % 7) || 7;
+            return new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+        }
+
+        let date = new Date(year ?? today.getFullYear(), month, day);
+        if (year === undefined && date < today) {
+            date = new Date(today.getFullYear() + 1, month, day);
+        }
+        if (month < 0 || date.getMonth() !== month || date.getDate() !== day) {
+            throw new Error(`Invalid date: ${groups.filter(group => group).join(' ')}`);
+        }
+        return date;
+    }
+}
@@ -0,0 +1,470 @@
+import { env, l10n } from 'vscode';
+
+/**
+ * Frequencies supported by recurrence rules (RFC 5545 FREQ)
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * Two-letter weekday codes (RFC 5545), ordered to match Date.getDay()
+ */
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * A BYDAY entry, optionally with an ordinal (e.g. 2TU, -1FR)
+ */
+export interface WeekdayNum {
+    /** The day of the week */
+    weekday: Weekday;
+    /** The nth occurrence within the month or year (negative counts from the end) */
+    ordinal?: number;
+}
+
+/**
+ * Represents an RFC 5545 recurrence rule
+ */
+export interface RecurrenceRule {
+    /** The base frequency of the rule */
+    freq: RecurrenceFrequency;
+    /** Number of periods between occurrences */
+    interval: number;
+    /** Days of the week the rule applies to */
+    byDay?: WeekdayNum[];
+    /** Days of the month the rule applies to (negative counts from the end) */
+    byMonthDay?: number[];
+    /** Positions to keep within each period's set of occurrences */
+    bySetPos?: number[];
+    /** Months (1-12) the rule applies to */
+    byMonth?: number[];
+    /** The day the week starts on */
+    wkst?: Weekday;
+}
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Maximum number of periods scanned when searching for an occurrence */
+const MAX_PERIODS = 5000;
+
+/**
+ * Utility class for parsing, formatting and evaluating recurrence rules
+ */
+export class RecurrenceRuleHelper {
+    /**
+     * Parses an RRULE string such as "FREQ=MONTHLY;BYDAY=2TU"
+     * @throws Error if the rule is malformed or uses unsupported parts
+     */
+    static parse(text: string): RecurrenceRule {
+        const source = text.trim().replace(/^RRULE:/i, '');
+        if (!source) {
+            throw new Error('Recurrence rule is empty');
+        }
+
+        const rule: Partial<RecurrenceRule> = {};
+
+        for (const part of source.split(';')) {
+            if (!part) {
+                continue;
+            }
+
+            const [rawName, value] = part.split('=');
+            const name = rawName.trim().toUpperCase();
+            if (value === undefined || value.trim() === '') {
+                throw new Error(`Missing value for ${name}`);
+            }
+
+            switch (name) {
+                case 'FREQ': {
+                    const freq = value.trim().toUpperCase() as RecurrenceFrequency;
+                    if (!FREQUENCIES.includes(freq)) {
+                        throw new Error(`Unsupported FREQ: ${value}`);
+                    }
+                    rule.freq = freq;
+                    break;
+                }
+                case 'INTERVAL':
+                    rule.interval = RecurrenceRuleHelper.parseInteger(name, value, 1, 1000);
+                    break;
+                case 'BYDAY':
+                    rule.byDay = value.split(',').map(entry => RecurrenceRuleHelper.parseWeekdayNum(entry));
+                    break;
+                case 'BYMONTHDAY':
+                    rule.byMonthDay = RecurrenceRuleHelper.parseIntegerList(name, value, 31, true);
+                    break;
+                case 'BYSETPOS':
+                    rule.bySetPos = RecurrenceRuleHelper.parseIntegerList(name, value, 366, true);
+                    break;
+                case 'BYMONTH':
+                    rule.byMonth = RecurrenceRuleHelper.parseIntegerList(name, value, 12, false);
+                    break;
+                case 'WKST': {
+                    const wkst = value.trim().toUpperCase() as Weekday;
+                    if (!WEEKDAYS.includes(wkst)) {
+                        throw new Error(`Invalid WKST: ${value}`);
+                    }
+                    rule.wkst = wkst;
+                    break;
+                }
+                default:
+                    throw new Error(`Unsupported rule part: ${name}`);
+            }
+        }
+
+        if (!rule.freq) {
+            throw new Error('FREQ is required');
+        }
+
+        const parsed: RecurrenceRule = { ...rule, freq: rule.freq, interval: rule.interval || 1 };
+        RecurrenceRuleHelper.validate(parsed);
+        return parsed;
+    }
+
+    /**
+     * Checks combinations of rule parts that RFC 5545 does not allow
+     * @throws Error if the rule is invalid
+     */
+    static validate(rule: RecurrenceRule): void {
+        if (!FREQUENCIES.includes(rule.freq)) {
+            throw new Error(`Unsupported FREQ: ${rule.freq}`);
+        }
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+            throw new Error('INTERVAL must be a positive integer');
+        }
+        if (rule.byDay && rule.byDay.some(day => day.ordinal !== undefined) &&
+            rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+            throw new Error('BYDAY ordinals are only allowed with FREQ=MONTHLY or FREQ=YEARLY');
+        }
+        if (rule.byMonthDay && rule.freq === 'WEEKLY') {
+            throw new Error('BYMONTHDAY is not allowed with FREQ=WEEKLY');
+        }
+        if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+            throw new Error('BYSETPOS requires another BYxxx rule part');
+        }
+    }
+
+    /**
+     * Formats a rule back to its RRULE string representation (without the "RRULE:" prefix)
+     */
+    static format(rule: RecurrenceRule): string {
+        const parts = [`FREQ=${rule.freq}`];
+
+        if (rule.interval > 1) {
+            parts.push(`INTERVAL=${rule.interval}`);
+        }
+        if (rule.byMonth?.length) {
+            parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+        }
+        if (rule.byMonthDay?.length) {
+            parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+        }
+        if (rule.byDay?.length) {
+            parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+        }
+        if (rule.bySetPos?.length) {
+            parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+        }
+        if (rule.wkst) {
+            parts.push(`WKST=${rule.wkst}`);
+        }
+
+        return parts.join(';');
+    }
+
+    /**
+     * Builds a human-readable description of a rule in the display language
+     */
+    static describe(rule: RecurrenceRule): string {
+        const units: Record<RecurrenceFrequency, [() => string, (interval: number) => string]> = {
+            DAILY: [() => l10n.t('Daily'), interval => l10n.t('Every {0} days', interval)],
+            WEEKLY: [() => l10n.t('Weekly'), interval => l10n.t('Every {0} weeks', interval)],
+            MONTHLY: [() => l10n.t('Monthly'), interval => l10n.t('Every {0} months', interval)],
+            YEARLY: [() => l10n.t('Yearly'), interval => l10n.t('Every {0} years', interval)]
+        };
+        const [adverb, every] = units[rule.freq];
+        let description = rule.interval === 1 ? adverb() : every(rule.interval);
+
+        const ordinal = (n: number): string => {
+            if (n === -1) {
+                return l10n.t('last');
+            }
+            if (n < 0) {
+                return l10n.t('{0} to last', ordinal(-n));
+            }
+            if (n % 100 >= 11 && n % 100 <= 13) {
+                return l10n.t('{0}th', n);
+            }
+            switch (n % 10) {
+                case 1: return l10n.t('{0}st', n);
+                case 2: return l10n.t('{0}nd', n);
+                case 3: return l10n.t('{0}rd', n);
+                default: return l10n.t('{0}th', n);
+            }
+        };
+        const locale = env.language || 'en-US';
+        // January 2, 2000 was a Sunday
+        const weekday = (day: Weekday) => new Date(2000, 0, 2 + WEEKDAYS.indexOf(day)).toLocaleDateString(locale, { weekday: 'long' });
+        const month = (value: number) => new Date(2000, value - 1, 1).toLocaleDateString(locale, { month: 'long' });
+
+        if (rule.byDay?.length) {
+            const days = rule.byDay.map(day => day.ordinal !== undefined ? l10n.t('the {0} {1}', ordinal(day.ordinal), weekday(day.weekday)) : weekday(day.weekday));
+            description = l10n.t('{0} on {1}', description, days.join(', '));
+        }
+        if (rule.byMonthDay?.length) {
+            description = l10n.t('{0} on day {1}', description, rule.byMonthDay.map(day => day < 0 ? ordinal(day) : String(day)).join(', '));
+        }
+        if (rule.byMonth?.length) {
+            description = l10n.t('{0} in {1}', description, rule.byMonth.map(month).join(', '));
+        }
+        if (rule.bySetPos?.length) {
+            description = l10n.t('{0} ({1} match)', description, rule.bySetPos.map(ordinal).join(', '));
+        }
+
+        return description;
+    }
+
+    /**
+     * Whether the rule only repeats its anchor date (no BYxxx parts)
+     */
+    static isSimple(rule: RecurrenceRule): boolean {
+        return !rule.byDay?.length && !rule.byMonthDay?.length && !rule.bySetPos?.length && !rule.byMonth?.length;
+    }
+
+    /**
+     * Finds the first occurrence strictly after a date.
+     * The anchor is the series start: it fixes the interval alignment and the time of day.
+     */
+    static nextOccurrence(rule: RecurrenceRule, anchor: Date, after: Date): Date | null {
+        // Periods entirely before the lower bound have no candidate: start one interval before its period
+        const first = Math.max(0, Math.floor(RecurrenceRuleHelper.countPeriods(rule, anchor, after) / rule.interval) - 1);
+        for (let period = first; period < first + MAX_PERIODS; period++) {
+            const candidate = RecurrenceRuleHelper.getPeriodOccurrences(rule, anchor, period * rule.interval)
+                .find(date => date.getTime() > after.getTime());
+            if (candidate) {
+                return candidate;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Finds the last occurrence strictly before a date, walking backwards from the upper bound's period.
+     * The anchor is the series start, as for nextOccurrence.
+     */
+    static previousOccurrence(rule: RecurrenceRule, anchor: Date, before: Date): Date | null {
+        const last = Math.ceil(RecurrenceRuleHelper.countPeriods(rule, anchor, before) / rule.interval) + 1;
+        for (let period = last; period > last - MAX_PERIODS; period--) {
+            const candidates = RecurrenceRuleHelper.getPeriodOccurrences(rule, anchor, period * rule.interval)
+                .filter(date => date.getTime() < before.getTime());
+            if (candidates.length > 0) {
+                return candidates[candidates.length - 1];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Gets the sorted occurrences within the period that is `offset` frequency units away from the anchor's period
+     */
+    static getPeriodOccurrences(rule: RecurrenceRule, anchor: Date, offset: number): Date[] {
+        let days: Date[];
+
+        switch (rule.freq) {
+            case 'DAILY':
+                days = [new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + offset)];
+                break;
+            case 'WEEKLY':
+                days = RecurrenceRuleHelper.expandWeek(rule, anchor, offset);
+                break;
+            case 'MONTHLY': {
+                const month = new Date(anchor.getFullYear(), anchor.getMonth() + offset, 1);
+                days = RecurrenceRuleHelper.expandMonth(rule, anchor, month.getFullYear(), month.getMonth());
+                break;
+            }
+            case 'YEARLY':
+                days = RecurrenceRuleHelper.expandYear(rule, anchor, anchor.getFullYear() + offset);
+                break;
+        }
+
+        // Limit the expanded days by the remaining BYxxx parts
+        days = days.filter(day => {
+            if (rule.byMonth?.length && !rule.byMonth.includes(day.getMonth() + 1)) {
+                return false;
+            }
+            if (rule.byMonthDay?.length && !RecurrenceRuleHelper.matchesMonthDay(day, rule.byMonthDay)) {
+                return false;
+            }
+            if (rule.byDay?.length && !rule.byDay.some(entry => WEEKDAYS.indexOf(entry.weekday) === day.getDay())) {
+                return false;
+            }
+            return true;
+        });
+
+        // Remove duplicates and sort chronologically
+        const unique = Array.from(new Map(days.map(day => [day.getTime(), day])).values())
+            .sort((a, b) => a.getTime() - b.getTime());
+
+        const selected = rule.bySetPos?.length
+            ? rule.bySetPos
+                .map(pos => unique[pos > 0 ? pos - 1 : unique.length + pos])
+                .filter((day): day is Date => day !== undefined)
+                .sort((a, b) => a.getTime() - b.getTime())
+            : unique;
+
+        // Apply the anchor's time of day to every occurrence
+        return selected.map(day => new Date(
+            day.getFullYear(), day.getMonth(), day.getDate(),
+            anchor.getHours(), anchor.getMinutes(), anchor.getSeconds(), anchor.getMilliseconds()
+        ));
+    }
+
+    /**
+     * Counts the frequency units from the period of one date to the period of another (negative if it is earlier).
+     * Weeks are counted by days, which may be one off depending on the week start.
+     */
+    private static countPeriods(rule: RecurrenceRule, from: Date, to: Date): number {
+        const days = Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / (24 * 60 * 60 * 1000));
+
+        switch (rule.freq) {
+            case 'DAILY':
+                return days;
+            case 'WEEKLY':
+                return Math.floor(days / 7);
+            case 'MONTHLY':
+                return (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth();
+            case 'YEARLY':
+                return to.getFullYear() - from.getFullYear();
+        }
+    }
+
+    /**
+     * Expands a WEEKLY period into candidate days
+     */
+    private static expandWeek(rule: RecurrenceRule, anchor: Date, offset: number): Date[] {
+        if (!rule.byDay?.length) {
+            return [new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + offset * 7)];
+        }
+
+        const weekStart = WEEKDAYS.indexOf(rule.wkst || 'MO');
+        const shift = (anchor.getDay() - weekStart + 7) % 7;
+        const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() - shift + offset * 7);
+
+        return Array.from({ length: 7 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+    }
+
+    /**
+     * Expands a single month into candidate days
+     */
+    private static expandMonth(rule: RecurrenceRule, anchor: Date, year: number, month: number): Date[] {
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+        if (rule.byDay?.length) {
+            // Weekdays (with optional ordinals) within the month
+            const all = Array.from({ length: daysInMonth }, (_, i) => new Date(year, month, i + 1));
+            return RecurrenceRuleHelper.selectWeekdays(all, rule.byDay);
+        }
+
+        if (rule.byMonthDay?.length) {
+            return rule.byMonthDay
+                .map(day => day > 0 ? day : daysInMonth + day + 1)
+                .filter(day => day >= 1 && day <= daysInMonth)
+                .map(day => new Date(year, month, day));
+        }
+
+        // Same day of month as the anchor, clamped to the end of shorter months (Jan 31 -> Feb 28/29)
+        return [new Date(year, month, Math.min(anchor.getDate(), daysInMonth))];
+    }
+
+    /**
+     * Expands a single year into candidate days
+     */
+    private static expandYear(rule: RecurrenceRule, anchor: Date, year: number): Date[] {
+        if (rule.byMonth?.length) {
+            return rule.byMonth.flatMap(month => RecurrenceRuleHelper.expandMonth(rule, anchor, year, month - 1));
+        }
+
+        if (rule.byMonthDay?.length) {
+            return Array.from({ length: 12 }, (_, month) => month)
+                .flatMap(month => RecurrenceRuleHelper.expandMonth(rule, anchor, year, month));
+        }
+
+        if (rule.byDay?.length) {
+            // Ordinals are relative to the whole year when no BYMONTH is given
+            const daysInYear = Math.round((new Date(year + 1, 0, 1).getTime() - new Date(year, 0, 1).getTime()) / (24 * 60 * 60 * 1000));
+            const all = Array.from({ length: daysInYear }, (_, i) => new Date(year, 0, i + 1));
+            return RecurrenceRuleHelper.selectWeekdays(all, rule.byDay);
+        }
+
+        return RecurrenceRuleHelper.expandMonth(rule, anchor, year, anchor.getMonth());
+    }
+
+    /**
+     * Selects the days matching BYDAY entries within a span of consecutive days
+     */
+    private static selectWeekdays(span: Date[], byDay: WeekdayNum[]): Date[] {
+        return byDay.flatMap(entry => {
+            const matching = span.filter(day => day.getDay() === WEEKDAYS.indexOf(entry.weekday));
+            if (entry.ordinal === undefined) {
+                return matching;
+            }
+            const index = entry.ordinal > 0 ? entry.ordinal - 1 : matching.length + entry.ordinal;
+            return matching[index] ? [matching[index]] : [];
+        });
+    }
+
+    /**
+     * Checks whether a day matches any BYMONTHDAY value
+     */
+    private static matchesMonthDay(day: Date, byMonthDay: number[]): boolean {
+        const daysInMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+        return byMonthDay.some(value => (value > 0 ? value : daysInMonth + value + 1) === day.getDate());
+    }
+
+    /**
+     * Parses a BYDAY entry such as "TU", "2TU" or "-1FR"
+     */
+    private static parseWeekdayNum(entry: string): WeekdayNum {
+        const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry.trim().toUpperCase());
+        if (!match) {
+            throw new Error(`Invalid BYDAY value: ${entry}`);
+        }
+
+        const weekday = match[2] as Weekday;
+        if (match[1] === undefined) {
+            return { weekday };
+        }
+
+        const ordinal = parseInt(match[1], 10);
+        if (ordinal === 0 || Math.abs(ordinal) > 53) {
+            throw new Error(`Invalid BYDAY ordinal: ${entry}`);
+        }
+        return { weekday, ordinal };
+    }
+
+    /**
+     * Parses a comma-separated list of integers within a range
+     */
+    private static parseIntegerList(name: string, value: string, max: number, allowNegative: boolean): number[] {
+        return value.split(',').map(entry => {
+            const parsed = RecurrenceRuleHelper.parseInteger(name, entry, allowNegative ? -max : 1, max);
+            if (parsed === 0) {
+                throw new Error(`Invalid ${name} value: ${entry}`);
+            }
+            return parsed;
+        });
+    }
+
+    /**
+     * Parses an integer within a range
+     */
+    private static parseInteger(name: string, value: string, min: number, max: number): number {
+        const trimmed = value.trim();
+        if (!/^[+-]?\d+$/.test(trimmed)) {
+            throw new Error(`Invalid ${name} value: ${value}`);
+        }
+        const parsed = parseInt(trimmed, 10);
+        if (parsed < min || parsed > max) {
+            throw new Error(`${name} value out of range: ${value}`);
+        }
+        return parsed;
+    }
+}
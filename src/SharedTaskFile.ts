@@ -0,0 +1,140 @@
+import { Task, Comment } from './Task';
+import { StorageSchema } from './StorageSchema';
+
+/**
+ * Contents of a shared task file, as committed to the repository
+ */
+export interface SharedTaskFileContent {
+    /** Schema version of the tasks */
+    version: number;
+    /** Tasks of the shared store, without their store */
+    tasks: Task[];
+}
+
+/**
+ * Reads, writes and merges the file backing the shared task store.
+ * Tasks are handled in their stored form (dates as strings), as they appear in the file.
+ */
+export class SharedTaskFile {
+    /**
+     * Parses the content of a shared task file, bringing its tasks to the current schema; an empty file has no tasks
+     * @throws Error if the content is not a shared task file or has tasks that cannot be migrated
+     */
+    static parse(content: string): Task[] {
+        if (!content.trim()) {
+            return [];
+        }
+
+        const data = JSON.parse(content) as Partial<SharedTaskFileContent>;
+        if (!data || !Array.isArray(data.tasks)) {
+            throw new Error('The file has no "tasks" array');
+        }
+
+        // Tasks the file cannot be saved without are not quarantined: the whole file waits to be fixed
+        const { tasks, quarantined } = StorageSchema.migrate(data.tasks, StorageSchema.getVersion(data.version));
+        if (quarantined.length > 0) {
+            throw new Error(quarantined.map(task => task.error).join('; '));
+        }
+        return tasks as unknown as Task[];
+    }
+
+    /**
+     * Writes tasks as the content of a shared task file, one key per line so that changes diff well
+     */
+    static serialize(tasks: Task[]): string {
+        const content: SharedTaskFileContent = {
+            version: StorageSchema.CURRENT_VERSION,
+            tasks: tasks.map(({ store: _store, ...task }) => task as Task)
+        };
+        return JSON.stringify(content, null, 2) + '\n';
+    }
+
+    /**
+     * Merges the tasks saved in this window with the tasks found in the file, by task id.
+     * The base is the content of the file when this window last read it, which tells apart the changes made here
+     * from the changes made by someone else since: tasks only changed on one side keep that side's version,
+     * tasks changed on both sides are merged property by property (this window wins when both changed the same one)
+     * and keep the comments added on either side.
+     * @param base Tasks of the file when it was last read
+     * @param ours Tasks saved in this window
+     * @param theirs Tasks currently in the file
+     */
+    static merge(base: Task[], ours: Task[], theirs: Task[]): Task[] {
+        const baseById = new Map(base.map(task => [task.id, task]));
+        const theirsById = new Map(theirs.map(task => [task.id, task]));
+        const oursIds = new Set(ours.map(task => task.id));
+        const merged: Task[] = [];
+
+        for (const task of ours) {
+            const baseTask = baseById.get(task.id);
+            const theirTask = theirsById.get(task.id);
+            const changedHere = !baseTask || !SharedTaskFile.isSame(task, baseTask);
+
+            if (!theirTask) {
+                // Deleted elsewhere: kept only if it is new or was changed here
+                if (changedHere) {
+                    merged.push(task);
+                }
+            } else if (!changedHere) {
+                merged.push(theirTask);
+            } else if (baseTask && !SharedTaskFile.isSame(theirTask, baseTask)) {
+                merged.push(SharedTaskFile.mergeTask(baseTask, task, theirTask));
+            } else {
+                merged.push(task);
+            }
+        }
+
+        // Tasks added elsewhere, unless they were there before and deleted here
+        for (const task of theirs) {
+            if (!oursIds.has(task.id) && !baseById.has(task.id)) {
+                merged.push(task);
+            }
+        }
+
+        return merged;
+    }
+
+    /**
+     * Merges a task changed both in this window and elsewhere: the other side's version with the properties changed here
+     */
+    private static mergeTask(base: Task, ours: Task, theirs: Task): Task {
+        const merged: Record<string, unknown> = { ...theirs };
+        const keys = new Set([...Object.keys(base), ...Object.keys(ours)] as (keyof Task)[]);
+        for (const key of keys) {
+            if (key !== 'store' && SharedTaskFile.canonicalize(ours[key]) !== SharedTaskFile.canonicalize(base[key])) {
+                merged[key] = ours[key];
+            }
+        }
+        merged.comments = SharedTaskFile.mergeComments(base.comments, ours.comments, theirs.comments);
+        return merged as unknown as Task;
+    }
+
+    /**
+     * Keeps the comments of this window and adds those added elsewhere, in date order
+     */
+    private static mergeComments(base: Comment[], ours: Comment[], theirs: Comment[]): Comment[] {
+        const knownIds = new Set([...base, ...ours].map(comment => comment.id));
+        const added = theirs.filter(comment => !knownIds.has(comment.id));
+        return [...ours, ...added].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    }
+
+    /**
+     * Checks if two tasks have the same content, whatever the order of their properties
+     */
+    static isSame(a: Task, b: Task): boolean {
+        const { store: _storeA, ...storedA } = a;
+        const { store: _storeB, ...storedB } = b;
+        return SharedTaskFile.canonicalize(storedA) === SharedTaskFile.canonicalize(storedB);
+    }
+
+    /**
+     * Writes a value as JSON with sorted keys, so that values differing only by the order of their properties match
+     */
+    private static canonicalize(value: unknown): string | undefined {
+        return JSON.stringify(value, (_key, value) =>
+            value && typeof value === 'object' && !Array.isArray(value)
+                ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+                : value
+        );
+    }
+}
@@ -1,56 +1,327 @@
 import * as vscode from 'vscode';
-import { Task } from './Task';
+import { l10n } from 'vscode';
+import { Task, TaskTemplate, TaskStore } from './Task';
+import { SharedTaskFile } from './SharedTaskFile';
+import { StorageSchema, QuarantinedTask } from './StorageSchema';
+import { BackupManager, BackupReason } from './BackupManager';
 
 /**
- * Manages the persistence of tasks using VS Code's globalState
+ * Manages the persistence of tasks and task templates.
+ * Tasks are kept in VS Code's globalState, in its workspaceState for the workspace store, or in a file of the workspace
+ * for the shared store; templates are always global.
  */
-export class StorageManager {
+export class StorageManager implements vscode.Disposable {
     private readonly storageKey = 'recurringTasks';
+    private readonly templatesStorageKey = 'recurringTasks.templates';
+    private readonly schemaVersionKey = 'recurringTasks.schemaVersion';
+    private readonly quarantineKey = 'recurringTasks.quarantine';
     private context: vscode.ExtensionContext;
 
+    /** Tasks of the shared file as last read or written by this window, in their stored form */
+    private sharedTasks: Task[] = [];
+    /** Pending reads and writes of the shared file, run one after the other */
+    private sharedFileQueue: Promise<void> = Promise.resolve();
+    private sharedFileWatcher: vscode.FileSystemWatcher | undefined;
+    private readonly sharedTasksChanged = new vscode.EventEmitter<void>();
+    private backupManager: BackupManager | undefined;
+
+    /**
+     * Fires when the tasks of the shared file were changed outside of this window
+     */
+    readonly onDidChangeSharedTasks = this.sharedTasksChanged.event;
+
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
     }
 
     /**
-     * Loads and returns all tasks from storage
+     * Sets the backup manager taking snapshots before destructive operations
+     */
+    setBackupManager(backupManager: BackupManager): void {
+        this.backupManager = backupManager;
+    }
+
+    /**
+     * Takes a backup of the tasks and templates before a destructive operation, if backups are set up
+     */
+    backup(reason: BackupReason): void {
+        this.backupManager?.createBackup(reason);
+    }
+
+    /**
+     * Gets the stores tasks can be kept in: the workspace and shared stores need an open folder
+     */
+    getAvailableStores(): TaskStore[] {
+        if (!vscode.workspace.workspaceFolders?.length) {
+            return ['global'];
+        }
+        return this.getSharedFileUri() ? ['global', 'workspace', 'shared'] : ['global', 'workspace'];
+    }
+
+    /**
+     * Identifies the open workspace by its workspace file or, for a single folder, the folder; undefined when no folder is open
+     */
+    getWorkspaceId(): string | undefined {
+        return (vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri)?.toString();
+    }
+
+    /**
+     * Gets the file backing the shared store (recurringTasks.storage.sharedFile setting, relative to the first workspace folder)
+     */
+    getSharedFileUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const path = vscode.workspace.getConfiguration('recurringTasks.storage').get<string>('sharedFile', '.vscode/recurring-tasks.json').trim();
+        return workspaceFolder && path ? vscode.Uri.joinPath(workspaceFolder.uri, path) : undefined;
+    }
+
+    /**
+     * Gets the VS Code state backing a store
+     */
+    private getState(store: TaskStore): vscode.Memento {
+        return store === 'workspace' ? this.context.workspaceState : this.context.globalState;
+    }
+
+    /**
+     * Loads and returns all tasks from the available stores
      * @returns Array of tasks, or empty array if no tasks exist
      */
     getTasks(): Task[] {
-        const storedTasks = this.context.globalState.get<Task[]>(this.storageKey, []);
-        
-        // Convert date strings back to Date objects and ensure comments have IDs
-        return storedTasks.map(task => ({
+        return this.getAvailableStores().flatMap(store => {
+            // Shared tasks are copied so that changing them leaves the file as last read untouched
+            const tasks = store === 'shared'
+                ? JSON.parse(JSON.stringify(this.sharedTasks)) as Task[]
+                : this.loadStoredTasks(store);
+            return tasks.map(task => this.reviveTask(task, store));
+        });
+    }
+
+    /**
+     * Reads the tasks of a state-backed store, migrating them to the current schema version.
+     * Migrated tasks are saved back; tasks that cannot be migrated are moved to the store's quarantine and reported.
+     */
+    private loadStoredTasks(store: TaskStore): Task[] {
+        const state = this.getState(store);
+        const storedTasks = state.get<unknown[]>(this.storageKey, []);
+        const version = StorageSchema.getVersion(state.get<number>(this.schemaVersionKey));
+
+        if (version > StorageSchema.CURRENT_VERSION) {
+            vscode.window.showWarningMessage(l10n.t('Your tasks were saved by a newer version of the Recurring Tasks extension. Update the extension to avoid losing their latest changes.'));
+        }
+
+        const { tasks, quarantined } = StorageSchema.migrate(Array.isArray(storedTasks) ? storedTasks : [], version);
+
+        if (quarantined.length > 0) {
+            console.error('Quarantined stored tasks:', quarantined);
+            state.update(this.quarantineKey, [
+                ...state.get<QuarantinedTask[]>(this.quarantineKey, []),
+                ...quarantined.map(task => ({ ...task, store }))
+            ]);
+            this.reportQuarantinedTasks(quarantined.length);
+        }
+        if (version < StorageSchema.CURRENT_VERSION || quarantined.length > 0) {
+            state.update(this.storageKey, tasks);
+            state.update(this.schemaVersionKey, StorageSchema.CURRENT_VERSION);
+        }
+
+        return tasks as unknown as Task[];
+    }
+
+    /**
+     * Tells the user that stored tasks were set aside, offering to show them
+     */
+    private async reportQuarantinedTasks(count: number): Promise<void> {
+        const show = l10n.t('Show');
+        const choice = await vscode.window.showWarningMessage(
+            l10n.t('{0} stored task(s) could not be loaded and were set aside.', count),
+            show
+        );
+        if (choice === show) {
+            vscode.commands.executeCommand('recurringtasks.showQuarantinedTasks');
+        }
+    }
+
+    /**
+     * Gets the stored tasks set aside because they could not be migrated, from all available stores
+     */
+    getQuarantinedTasks(): QuarantinedTask[] {
+        return this.getAvailableStores()
+            .filter(store => store !== 'shared')
+            .flatMap(store => this.getState(store).get<QuarantinedTask[]>(this.quarantineKey, []));
+    }
+
+    /**
+     * Converts a stored task of the current schema back to a task of a store
+     */
+    private reviveTask(task: Task, store: TaskStore): Task {
+        // Convert date strings back to Date objects
+        return {
             ...task,
+            store,
+            periodicity: {
+                ...task.periodicity,
+                until: task.periodicity.until ? new Date(task.periodicity.until) : undefined
+            },
             creationDate: new Date(task.creationDate),
             dueDate: new Date(task.dueDate),
+            seriesStart: task.seriesStart ? new Date(task.seriesStart) : undefined,
+            resumeDate: task.resumeDate ? new Date(task.resumeDate) : undefined,
             comments: task.comments.map(comment => ({
                 ...comment,
-                id: comment.id || this.generateCommentId(), // Add ID if missing
                 date: new Date(comment.date)
-            }))
-        }));
+            })),
+            occurrences: task.occurrences?.map(occurrence => ({
+                ...occurrence,
+                scheduledDate: new Date(occurrence.scheduledDate),
+                completedAt: occurrence.completedAt ? new Date(occurrence.completedAt) : undefined
+            })),
+            timer: task.timer ? {
+                ...task.timer,
+                runningSince: task.timer.runningSince ? new Date(task.timer.runningSince) : undefined
+            } : undefined
+        };
     }
 
     /**
-     * Generates a unique ID for a comment
+     * Saves the provided array of tasks to storage, each in its store (the store itself is implied by where it is saved)
+     * @param tasks Array of tasks to save
      */
-    private generateCommentId(): string {
-        return 'comment_' + Date.now().toString() + Math.random().toString(36).substr(2, 9);
+    saveTasks(tasks: Task[]): void {
+        for (const store of this.getAvailableStores()) {
+            const storeTasks = tasks
+                .filter(task => (task.store || 'global') === store)
+                .map(({ store: _store, ...task }) => task);
+            if (store === 'shared') {
+                this.saveSharedTasks(storeTasks);
+            } else {
+                this.getState(store).update(this.storageKey, storeTasks);
+                this.getState(store).update(this.schemaVersionKey, StorageSchema.CURRENT_VERSION);
+            }
+        }
     }
 
     /**
-     * Saves the provided array of tasks to storage
-     * @param tasks Array of tasks to save
+     * Writes the tasks of the shared store to its file, merged with the changes made to the file since it was last read
+     * so that the edits and comments of other people are kept
      */
-    saveTasks(tasks: Task[]): void {
-        this.context.globalState.update(this.storageKey, tasks);
+    private saveSharedTasks(tasks: Task[]): void {
+        const uri = this.getSharedFileUri();
+        if (!uri) {
+            return;
+        }
+
+        this.sharedFileQueue = this.sharedFileQueue.then(async () => {
+            const current = await this.readSharedFile(uri);
+            const merged = SharedTaskFile.merge(this.sharedTasks, tasks, current === undefined ? [] : SharedTaskFile.parse(current));
+            const content = SharedTaskFile.serialize(merged);
+
+            // The file is only created once there are shared tasks
+            if (content !== current && (current !== undefined || merged.length > 0)) {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            }
+
+            this.sharedTasks = SharedTaskFile.parse(content);
+            if (merged.length !== tasks.length || merged.some((task, index) => !SharedTaskFile.isSame(task, tasks[index]))) {
+                this.sharedTasksChanged.fire();
+            }
+        }).catch(error => this.showSharedFileError(uri, error));
+    }
+
+    /**
+     * Reads the tasks of the shared file again, and announces them if they changed
+     */
+    reloadSharedTasks(): Promise<void> {
+        const uri = this.getSharedFileUri();
+
+        this.sharedFileQueue = this.sharedFileQueue.then(async () => {
+            const current = uri ? await this.readSharedFile(uri) : undefined;
+            const tasks = current === undefined ? [] : SharedTaskFile.parse(current);
+
+            if (SharedTaskFile.serialize(tasks) !== SharedTaskFile.serialize(this.sharedTasks)) {
+                this.sharedTasks = tasks;
+                this.sharedTasksChanged.fire();
+            }
+        }).catch(error => this.showSharedFileError(uri, error));
+
+        return this.sharedFileQueue;
+    }
+
+    /**
+     * Watches the shared file for changes made outside of this window (e.g. by a git pull), and reads it
+     */
+    watchSharedFile(): Promise<void> {
+        this.sharedFileWatcher?.dispose();
+        this.sharedFileWatcher = undefined;
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const uri = this.getSharedFileUri();
+        if (workspaceFolder && uri) {
+            const path = vscode.workspace.asRelativePath(uri, false);
+            this.sharedFileWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, path));
+            this.sharedFileWatcher.onDidChange(() => this.reloadSharedTasks());
+            this.sharedFileWatcher.onDidCreate(() => this.reloadSharedTasks());
+            this.sharedFileWatcher.onDidDelete(() => this.reloadSharedTasks());
+        }
+
+        return this.reloadSharedTasks();
+    }
+
+    /**
+     * Reads the content of the shared file
+     * @returns The content, or undefined if the file does not exist
+     */
+    private async readSharedFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Reports a shared file that cannot be read or written; the file is left as is until it is fixed
+     */
+    private showSharedFileError(uri: vscode.Uri | undefined, error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('Failed to sync shared tasks file:', uri?.fsPath, error);
+        vscode.window.showErrorMessage(l10n.t('Failed to sync shared tasks file {0}: {1}', uri?.fsPath || '', message));
+    }
+
+    /**
+     * Loads and returns all task templates from storage
+     */
+    getTemplates(): TaskTemplate[] {
+        return this.context.globalState.get<TaskTemplate[]>(this.templatesStorageKey, []);
     }
 
     /**
-     * Clears all stored tasks
+     * Saves the provided array of task templates to storage
+     */
+    saveTemplates(templates: TaskTemplate[]): void {
+        this.context.globalState.update(this.templatesStorageKey, templates);
+    }
+
+    /**
+     * Clears all stored tasks of the available stores
      */
     clearTasks(): void {
-        this.context.globalState.update(this.storageKey, []);
+        this.backup('clear');
+        for (const store of this.getAvailableStores()) {
+            if (store === 'shared') {
+                this.saveSharedTasks([]);
+            } else {
+                this.getState(store).update(this.storageKey, []);
+            }
+        }
+    }
+
+    /**
+     * Stops watching the shared file
+     */
+    dispose(): void {
+        this.sharedFileWatcher?.dispose();
+        this.sharedTasksChanged.dispose();
     }
 } 
\ No newline at end of file
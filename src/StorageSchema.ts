@@ -0,0 +1,246 @@
+import { Periodicity, PeriodicityHelper, PeriodUnit, RecurrenceType, TaskStore } from './Task';
+import { RecurrenceRule, RecurrenceRuleHelper } from './RecurrenceRule';
+import { CronExpressionHelper } from './CronExpression';
+
+/**
+ * A task as persisted (JSON values, dates as strings), in any version of the schema
+ */
+export type StoredTask = Record<string, unknown>;
+
+/**
+ * A periodicity as persisted, its end date a string
+ */
+export type StoredPeriodicity = Omit<Periodicity, 'until'> & { until?: string };
+
+/**
+ * Upgrades stored tasks from one version of the schema to the next.
+ * Migrations must leave tasks that already have the new shape untouched, so that running one twice is harmless.
+ */
+interface Migration {
+    /** Version the migration upgrades to */
+    version: number;
+    /** What the migration changes */
+    description: string;
+    /** Upgrades a stored task, throwing if it cannot be */
+    migrate(task: StoredTask): StoredTask;
+}
+
+/**
+ * A stored task that could not be migrated or read, set aside instead of being loaded
+ */
+export interface QuarantinedTask {
+    /** The stored task, as found */
+    data: unknown;
+    /** Why it could not be loaded */
+    error: string;
+    /** When it was set aside (ISO string) */
+    date: string;
+    /** Store it was found in */
+    store?: TaskStore;
+}
+
+/**
+ * Result of bringing stored tasks to the current schema
+ */
+export interface MigrationResult {
+    /** Tasks in the current schema, still in their stored form */
+    tasks: StoredTask[];
+    /** Tasks that could not be migrated */
+    quarantined: QuarantinedTask[];
+}
+
+/**
+ * Units of the periodicity format used before recurrence types, and the units of today's custom intervals
+ */
+const LEGACY_UNITS: Record<string, PeriodUnit> = { days: 'day', weeks: 'week', months: 'month', years: 'year' };
+
+/**
+ * Recurrence types that need nothing besides their type
+ */
+const SIMPLE_TYPES: RecurrenceType[] = ['none', 'daily', 'weekly', 'monthly', 'yearly'];
+
+/**
+ * Units a custom interval can be counted in
+ */
+const PERIOD_UNITS: PeriodUnit[] = ['day', 'businessDay', 'week', 'month', 'year'];
+
+/**
+ * Migrations in version order; the last one gives the current version
+ */
+const MIGRATIONS: Migration[] = [
+    {
+        version: 2,
+        description: 'Give comments an id and convert { value, unit } periodicities to recurrence types',
+        migrate: task => {
+            const periodicity = task.periodicity;
+            if (StorageSchema.isRecord(periodicity) && !periodicity.type && 'unit' in periodicity) {
+                const unit = typeof periodicity.unit === 'string' && Object.hasOwn(LEGACY_UNITS, periodicity.unit) ? LEGACY_UNITS[periodicity.unit] : undefined;
+                if (periodicity.unit === 'one-shot') {
+                    task.periodicity = PeriodicityHelper.createOneShot();
+                } else if (unit && typeof periodicity.value === 'number' && Number.isInteger(periodicity.value) && periodicity.value > 0) {
+                    task.periodicity = PeriodicityHelper.createInterval(periodicity.value, unit);
+                } else {
+                    throw new Error(`Unknown periodicity ${JSON.stringify(periodicity)}`);
+                }
+            }
+            task.comments = (Array.isArray(task.comments) ? task.comments : []).map((comment: unknown, index: number) => {
+                if (!StorageSchema.isRecord(comment)) {
+                    throw new Error(`Invalid comment ${JSON.stringify(comment)}`);
+                }
+                return { ...comment, id: comment.id || `comment_${task.id}_${index}` };
+            });
+            return task;
+        }
+    },
+    {
+        version: 3,
+        description: 'Give custom intervals an explicit unit (they used to always count days)',
+        migrate: task => {
+            const periodicity = task.periodicity;
+            if (StorageSchema.isRecord(periodicity) && periodicity.type === 'custom' && !periodicity.unit) {
+                task.periodicity = { ...periodicity, unit: 'day' };
+            }
+            return task;
+        }
+    },
+    {
+        version: 4,
+        description: 'Record the start of the fixed schedule, so that month-end and leap-day series keep their day',
+        migrate: task => {
+            if (!task.seriesStart) {
+                task.seriesStart = task.dueDate;
+            }
+            return task;
+        }
+    }
+];
+
+/**
+ * Versions the persisted format of tasks and brings older data to the current version
+ */
+export class StorageSchema {
+    /** Version of the schema written by this version of the extension */
+    static readonly CURRENT_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+    /**
+     * Reads the schema version of persisted data. Data from before versioning is version 1,
+     * as are exports labelled with the former '1.0' format version.
+     */
+    static getVersion(version: unknown): number {
+        return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+    }
+
+    /**
+     * Whether a value is a JSON object (neither null nor an array)
+     */
+    static isRecord(value: unknown): value is StoredTask {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    /**
+     * Reads a date stored as a string or a timestamp
+     * @returns The date, or undefined if the value is not a valid date
+     */
+    static toDate(value: unknown): Date | undefined {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            return undefined;
+        }
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+
+    /**
+     * Runs the migrations from a version up to the current one on each task, then checks the result.
+     * A task that fails is quarantined with the reason, the others are still migrated.
+     */
+    static migrate(tasks: unknown[], fromVersion: number): MigrationResult {
+        const result: MigrationResult = { tasks: [], quarantined: [] };
+        const migrations = MIGRATIONS.filter(migration => migration.version > fromVersion);
+
+        for (const data of tasks) {
+            try {
+                if (!StorageSchema.isRecord(data)) {
+                    throw new Error('Not a task');
+                }
+                // Migrations work on a copy so that quarantined tasks are kept as found
+                let task: StoredTask = JSON.parse(JSON.stringify(data));
+                for (const migration of migrations) {
+                    task = migration.migrate(task);
+                }
+                StorageSchema.validate(task);
+                result.tasks.push(task);
+            } catch (error) {
+                result.quarantined.push({
+                    data,
+                    error: error instanceof Error ? error.message : String(error),
+                    date: new Date().toISOString()
+                });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks that a migrated task has what loading it needs
+     * @throws Error describing the first problem found
+     */
+    private static validate(task: StoredTask): void {
+        if (typeof task.id !== 'string' || !task.id) {
+            throw new Error('Missing id');
+        }
+        if (typeof task.title !== 'string' || !task.title) {
+            throw new Error(`Task ${task.id}: missing title`);
+        }
+        if (!StorageSchema.isRecord(task.periodicity) || typeof task.periodicity.type !== 'string') {
+            throw new Error(`Task "${task.title}": missing periodicity`);
+        }
+        try {
+            StorageSchema.validatePeriodicity(task.periodicity);
+        } catch (error) {
+            throw new Error(`Task "${task.title}": invalid periodicity (${error instanceof Error ? error.message : String(error)})`);
+        }
+        if (!StorageSchema.toDate(task.dueDate)) {
+            throw new Error(`Task "${task.title}": invalid due date ${JSON.stringify(task.dueDate)}`);
+        }
+        if (!Array.isArray(task.comments)) {
+            throw new Error(`Task "${task.title}": invalid comments`);
+        }
+    }
+    /**
+     * Checks that a periodicity has what its type needs: a custom interval a positive whole number of known units,
+     * a recurrence rule or a cron expression that parses, and valid end conditions
+     * @throws Error describing the first problem found
+     */
+    static validatePeriodicity(periodicity: StoredTask): asserts periodicity is StoredPeriodicity {
+        const type = periodicity.type;
+        if (type === 'custom') {
+            if (typeof periodicity.interval !== 'number' || !Number.isInteger(periodicity.interval) || periodicity.interval < 1) {
+                throw new Error(`interval must be a positive integer, got ${JSON.stringify(periodicity.interval)}`);
+            }
+            // Intervals without a unit count days
+            if (periodicity.unit !== undefined && !PERIOD_UNITS.some(unit => unit === periodicity.unit)) {
+                throw new Error(`unknown unit ${JSON.stringify(periodicity.unit)}`);
+            }
+        } else if (type === 'rrule') {
+            if (!StorageSchema.isRecord(periodicity.rrule)) {
+                throw new Error('missing recurrence rule');
+            }
+            // The rule goes back through the parser as text, which checks each of its parts
+            const rule = periodicity.rrule as unknown as RecurrenceRule;
+            RecurrenceRuleHelper.validate(rule);
+            RecurrenceRuleHelper.parse(RecurrenceRuleHelper.format(rule));
+        } else if (type === 'cron') {
+            CronExpressionHelper.parse(typeof periodicity.cron === 'string' ? periodicity.cron : '');
+        } else if (!SIMPLE_TYPES.some(simpleType => simpleType === type)) {
+            throw new Error(`unknown recurrence type ${JSON.stringify(type)}`);
+        }
+
+        if (periodicity.count !== undefined && (typeof periodicity.count !== 'number' || !Number.isInteger(periodicity.count) || periodicity.count < 1)) {
+            throw new Error(`count must be a positive integer, got ${JSON.stringify(periodicity.count)}`);
+        }
+        if (periodicity.until && (typeof periodicity.until !== 'string' || !StorageSchema.toDate(periodicity.until))) {
+            throw new Error(`invalid end date ${JSON.stringify(periodicity.until)}`);
+        }
+    }
+}
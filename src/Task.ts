@@ -1,3 +1,8 @@
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceRuleHelper } from './RecurrenceRule';
+import { BusinessCalendar } from './BusinessCalendar';
+import { TimeZoneUtil } from './TimeZoneUtil';
+import { CronExpressionHelper } from './CronExpression';
+
 /**
  * Represents different types of task recurrence patterns
  */
@@ -7,7 +12,73 @@ export type RecurrenceType =
     | 'weekly'        // Weekly recurrence  
     | 'monthly'       // Monthly recurrence
     | 'yearly'        // Yearly recurrence
-    | 'custom';       // Custom interval
+    | 'custom'        // Custom interval
+    | 'rrule'         // RFC 5545 recurrence rule
+    | 'cron';         // Standard 5-field cron expression
+
+/**
+ * Units a custom interval can be expressed in
+ */
+export type PeriodUnit = 'day' | 'businessDay' | 'week' | 'month' | 'year';
+
+/**
+ * Determines what the next due date of a recurring task is calculated from
+ */
+export type RecurrenceAnchor =
+    | 'schedule'      // Fixed schedule: next due date follows the previous due date
+    | 'completion';   // After completion: next due date follows the validation date
+
+/**
+ * Determines what happens when a computed due date falls on a weekend or holiday
+ */
+export type NonWorkingDayPolicy =
+    | 'keep'          // Keep the computed date
+    | 'next'          // Roll forward to the next business day
+    | 'previous';     // Roll back to the previous business day
+
+/**
+ * Determines how validating a task after several of its occurrences went by is handled
+ */
+export type CatchUpPolicy =
+    | 'collapse'      // Jump to the next future occurrence, forgetting the ones in between
+    | 'skipMissed'    // Record each occurrence in between as missed, then jump to the next future occurrence
+    | 'oneAtATime';   // Advance by exactly one period per validation
+
+/**
+ * Determines who is assigned to the current occurrence of a task with several assignees
+ */
+export type RotationPolicy =
+    | 'roundRobin'    // Hand over to the next assignee each time the task is validated
+    | 'weekly';       // Assign each week to the next assignee, whatever the number of validations
+
+/**
+ * Quick choices for postponing a task
+ */
+export type PostponePreset =
+    | 'tomorrow'      // Due tomorrow, at the same time of day
+    | 'nextWeek'      // Due in a week from today, at the same time of day
+    | 'nextPeriod';   // Due on the next occurrence of the schedule still to come
+
+/**
+ * Where a task is kept
+ */
+export type TaskStore =
+    | 'global'        // Shown in every window
+    | 'workspace'     // Shown only in the workspace it belongs to
+    | 'shared';       // Kept in a file of the workspace, shared with the team through the repository
+
+/**
+ * Importance of a task, from most to least important
+ */
+export type TaskPriority = 'critical' | 'high' | 'normal' | 'low';
+
+/**
+ * Kinds of entries recorded in the history of a task by the extension itself
+ */
+export type CommentKind =
+    | 'missed'        // An occurrence that went by without being validated
+    | 'skipped'       // An occurrence deliberately skipped, with a reason
+    | 'postponed';    // The due date of an occurrence pushed back, with an optional reason
 
 /**
  * Represents the periodicity/recurrence of a task
@@ -17,6 +88,16 @@ export interface Periodicity {
     type: RecurrenceType;
     /** The interval value (only used for custom and some built-in types) */
     interval?: number;
+    /** The unit the interval is counted in (only used for custom; defaults to days) */
+    unit?: PeriodUnit;
+    /** The recurrence rule (only used for the rrule type) */
+    rrule?: RecurrenceRule;
+    /** The cron expression (only used for the cron type) */
+    cron?: string;
+    /** Last day the series may fall on (inclusive); the series ends after it */
+    until?: Date;
+    /** Maximum number of occurrences in the series */
+    count?: number;
     /** Human-readable description of the periodicity */
     description: string;
     /** Whether this task recurs */
@@ -35,6 +116,73 @@ export interface Comment {
     date: Date;
     /** Whether this comment is associated with a task validation */
     isValidation: boolean;
+    /** Kind of history entry (regular comments and validations have none) */
+    kind?: CommentKind;
+    /** Number of missed occurrences a missed entry stands for, when older ones are grouped in one entry (defaults to 1) */
+    missedCount?: number;
+}
+
+/**
+ * Represents a step of a task's checklist, ticked off during the current occurrence
+ */
+export interface ChecklistItem {
+    /** Unique identifier for the item */
+    id: string;
+    /** The text of the step */
+    text: string;
+    /** Whether the step is done for the current occurrence */
+    done: boolean;
+    /** Whether the step must be done before the task can be validated (if validation blocking is enabled) */
+    required?: boolean;
+}
+
+/**
+ * How an occurrence of a task ended
+ */
+export type OccurrenceOutcome = 'done' | 'skipped' | 'missed';
+
+/**
+ * Records what happened to one occurrence of a task
+ */
+export interface OccurrenceRecord {
+    /** The due date of the occurrence */
+    scheduledDate: Date;
+    /** When the occurrence was validated or skipped (missed occurrences have none) */
+    completedAt?: Date;
+    /** How the occurrence ended */
+    outcome: OccurrenceOutcome;
+    /** Milliseconds between the due date and the completion, 0 when on time (whole days for tasks without a due time) */
+    lateness?: number;
+    /** ID of the comment written for the occurrence */
+    commentId?: string;
+    /** Time tracked on the occurrence, in milliseconds */
+    duration?: number;
+    /** Who validated the occurrence */
+    completedBy?: string;
+}
+
+/**
+ * Time tracked on the current occurrence of a task.
+ * The timer is running while runningSince is set, paused while paused is true, and stopped otherwise.
+ */
+export interface TaskTimer {
+    /** Milliseconds tracked before the timer was last started */
+    elapsed: number;
+    /** When the timer was last started or resumed */
+    runningSince?: Date;
+    /** Whether the timer was paused, to be resumed later */
+    paused?: boolean;
+}
+
+/**
+ * Months of the year a seasonal task is active in, from startMonth to endMonth inclusive (1 for January).
+ * The window wraps around the end of the year when endMonth is before startMonth (e.g. October to March).
+ */
+export interface ActiveWindow {
+    /** First month of the window */
+    startMonth: number;
+    /** Last month of the window */
+    endMonth: number;
 }
 
 /**
@@ -53,16 +201,335 @@ export interface Task {
     creationDate: Date;
     /** The date when the next occurrence of the task is due */
     dueDate: Date;
+    /** First due date of the fixed schedule, which keeps its day of month and month (defaults to the due date) */
+    seriesStart?: Date;
+    /** Number of occurrences of the series already past, validated or missed (recurring tasks only) */
+    completedOccurrences?: number;
+    /** Whether the time of day of the due date matters (otherwise the task is due for the whole day) */
+    hasDueTime?: boolean;
+    /** IANA time zone the due time is expressed in (defaults to the local time zone) */
+    timeZone?: string;
+    /** What the next due date is calculated from (defaults to 'completion') */
+    anchorMode?: RecurrenceAnchor;
+    /** How due dates falling on non-working days are adjusted (defaults to 'keep') */
+    nonWorkingDayPolicy?: NonWorkingDayPolicy;
+    /** How occurrences that went by before a late validation are handled (defaults to 'collapse') */
+    catchUpPolicy?: CatchUpPolicy;
     /** History of comments/validations for this task */
     comments: Comment[];
-    /** The status of the task */
-    status: 'active' | 'archived';
+    /** Importance of the task (defaults to 'normal') */
+    priority?: TaskPriority;
+    /** Free-form labels used to group and filter tasks */
+    tags?: string[];
+    /** Ordered steps of the task, reset each time the task moves to its next occurrence */
+    checklist?: ChecklistItem[];
+    /** Log of the past occurrences of this task, oldest first */
+    occurrences?: OccurrenceRecord[];
+    /** IDs of the tasks whose current occurrence must be validated before this task can be */
+    dependsOn?: string[];
+    /** Expected time to complete one occurrence, in minutes */
+    estimatedDuration?: number;
+    /** Time tracked on the current occurrence, attached to it when the task is validated */
+    timer?: TaskTimer;
+    /** People taking turns on the task, in rotation order */
+    assignees?: string[];
+    /** How the task rotates between its assignees (defaults to 'roundRobin') */
+    rotationPolicy?: RotationPolicy;
+    /** Index of the current assignee for round-robin rotation */
+    rotationIndex?: number;
+    /** Number of times the current occurrence was postponed in a row */
+    postponedCount?: number;
+    /** Postponements in a row after which the task is flagged (defaults to the recurringTasks.postpone.limit setting, 0 never flags) */
+    postponeLimit?: number;
+    /** When a paused task resumes by itself */
+    resumeDate?: Date;
+    /** Months the task is active in; it is paused for the rest of the year */
+    activeWindow?: ActiveWindow;
+    /** Store the task is kept in (defaults to 'global') */
+    store?: TaskStore;
+    /** The status of the task: paused tasks keep their schedule but are not due until resumed */
+    status: 'active' | 'paused' | 'archived';
+}
+
+/**
+ * Reusable blueprint prefilling the create form for tasks of the same kind
+ */
+export interface TaskTemplate {
+    /** Unique identifier for the template */
+    id: string;
+    /** Name the template is picked by */
+    name: string;
+    /** Title of the created tasks; text in braces such as {system} is to be filled in */
+    titlePattern: string;
+    /** Description of the created tasks */
+    description?: string;
+    /** Recurrence of the created tasks (without an end date, which belongs to a single task) */
+    periodicity: Periodicity;
+    /** How the next due date of the created tasks is calculated */
+    anchorMode?: RecurrenceAnchor;
+    /** What happens when a due date of the created tasks falls on a non-working day */
+    nonWorkingDayPolicy?: NonWorkingDayPolicy;
+    /** How the created tasks handle occurrences missed before a late validation */
+    catchUpPolicy?: CatchUpPolicy;
+    /** Importance of the created tasks */
+    priority?: TaskPriority;
+    /** Tags of the created tasks */
+    tags?: string[];
+    /** Checklist steps of the created tasks */
+    checklist?: Array<Pick<ChecklistItem, 'text' | 'required'>>;
+}
+
+/**
+ * Task settings that affect how the next due date is calculated
+ */
+export type DueDateOptions = Partial<Pick<Task, 'anchorMode' | 'nonWorkingDayPolicy' | 'hasDueTime' | 'timeZone' | 'seriesStart'>>;
+
+/**
+ * Utility class for comparing and escalating task priorities
+ */
+export class PriorityHelper {
+    /** Priorities from most to least important */
+    static readonly PRIORITIES: TaskPriority[] = ['critical', 'high', 'normal', 'low'];
+
+    /**
+     * Gets the rank of a priority (0 for critical, higher numbers are less important)
+     */
+    static getRank(priority: TaskPriority = 'normal'): number {
+        const rank = PriorityHelper.PRIORITIES.indexOf(priority);
+        return rank === -1 ? PriorityHelper.PRIORITIES.indexOf('normal') : rank;
+    }
+
+    /**
+     * Raises a priority by a number of levels, up to critical
+     */
+    static escalate(priority: TaskPriority = 'normal', levels: number): TaskPriority {
+        return PriorityHelper.PRIORITIES[Math.max(0, PriorityHelper.getRank(priority) - Math.max(0, levels))];
+    }
+
+    /**
+     * Checks if a value is a known priority
+     */
+    static isPriority(value: unknown): value is TaskPriority {
+        return PriorityHelper.PRIORITIES.includes(value as TaskPriority);
+    }
+}
+
+/**
+ * Utility class for postponing tasks
+ */
+export class PostponeHelper {
+    /**
+     * Gets the due date a task would be postponed to with a preset, keeping its time of day.
+     * Returns null for the next period of a one-shot task.
+     */
+    static getPostponedDate(task: Task, preset: PostponePreset, now: Date = new Date()): Date | null {
+        if (preset === 'nextPeriod') {
+            if (!task.periodicity.isRecurring || task.periodicity.type === 'none') {
+                return null;
+            }
+            const passedOccurrences = PeriodicityHelper.getOccurrencesUntil(task.dueDate, task.periodicity, task, now, 1);
+            return PeriodicityHelper.calculateFollowingDueDate(passedOccurrences[0] || task.dueDate, task.periodicity, task);
+        }
+
+        // Days are counted in the time zone of the due time, if any
+        const timeZone = task.hasDueTime ? task.timeZone : undefined;
+        const dueWallClock = timeZone ? TimeZoneUtil.toWallClock(task.dueDate, timeZone) : new Date(task.dueDate);
+        const today = timeZone ? TimeZoneUtil.toWallClock(now, timeZone) : now;
+        dueWallClock.setFullYear(today.getFullYear(), today.getMonth(), today.getDate() + (preset === 'tomorrow' ? 1 : 7));
+
+        return timeZone ? TimeZoneUtil.fromWallClock(dueWallClock, timeZone) : dueWallClock;
+    }
+
+    /**
+     * Checks if a task was postponed more times in a row than its limit allows
+     */
+    static isOverLimit(task: Task, defaultLimit: number): boolean {
+        const limit = task.postponeLimit ?? defaultLimit;
+        return limit > 0 && (task.postponedCount || 0) > limit;
+    }
+}
+
+/**
+ * Utility class for prerequisite relations between tasks
+ */
+export class DependencyHelper {
+    /**
+     * Gets the prerequisites of a task that are not done yet for its current occurrence.
+     * An active one-shot prerequisite always blocks; a recurring one blocks until it has moved past the task's due date.
+     */
+    static getBlockingTasks(task: Task, tasks: Task[]): Task[] {
+        return (task.dependsOn || [])
+            .map(id => tasks.find(other => other.id === id))
+            .filter((prerequisite): prerequisite is Task => !!prerequisite && prerequisite.status === 'active')
+            .filter(prerequisite => !prerequisite.periodicity.isRecurring || prerequisite.periodicity.type === 'none'
+                || prerequisite.dueDate.getTime() <= task.dueDate.getTime());
+    }
+
+    /**
+     * Finds the cycle that giving a task these prerequisites would create
+     * @returns The IDs along the cycle, starting and ending with the task, or null if there is none
+     */
+    static findCycle(taskId: string, dependsOn: string[], tasks: Task[]): string[] | null {
+        const getPrerequisites = (id: string) => id === taskId ? dependsOn : tasks.find(task => task.id === id)?.dependsOn || [];
+        const visited = new Set<string>();
+
+        const visit = (path: string[]): string[] | null => {
+            for (const id of getPrerequisites(path[path.length - 1])) {
+                if (id === taskId) {
+                    return [...path, id];
+                }
+                if (!visited.has(id)) {
+                    visited.add(id);
+                    const cycle = visit([...path, id]);
+                    if (cycle) {
+                        return cycle;
+                    }
+                }
+            }
+            return null;
+        };
+
+        return visit([taskId]);
+    }
+}
+
+/**
+ * Utility class for the rotation of a task between its assignees
+ */
+export class AssigneeHelper {
+    /**
+     * Parses assignees from a comma separated string, or cleans up a list of assignees.
+     * Duplicates (ignoring case) are removed, keeping the first one in the rotation order.
+     */
+    static normalize(assignees: string | string[]): string[] {
+        const values = Array.isArray(assignees) ? assignees : assignees.split(',');
+        const result: string[] = [];
+
+        for (const value of values) {
+            const assignee = String(value).trim();
+            if (assignee && !result.some(existing => existing.toLowerCase() === assignee.toLowerCase())) {
+                result.push(assignee);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Gets who is assigned to the current occurrence of a task, if it has assignees
+     */
+    static getCurrentAssignee(task: Task): string | undefined {
+        return AssigneeHelper.getAssignee(task, 0);
+    }
+
+    /**
+     * Gets who takes the next turn on a task (after the next validation, or next week for weekly rotation)
+     */
+    static getNextAssignee(task: Task): string | undefined {
+        return AssigneeHelper.getAssignee(task, 1);
+    }
+
+    /**
+     * Checks if the current occurrence of a task is assigned to someone (ignoring case)
+     */
+    static isAssignedTo(task: Task, identity: string): boolean {
+        return AssigneeHelper.getCurrentAssignee(task)?.toLowerCase() === identity.trim().toLowerCase();
+    }
+
+    /**
+     * Gets the assignee of the occurrence a number of turns after the current one.
+     * Weekly rotation follows the week of the due date, weeks starting on Monday.
+     */
+    private static getAssignee(task: Task, turnsAhead: number): string | undefined {
+        const assignees = task.assignees || [];
+        if (assignees.length === 0) {
+            return undefined;
+        }
+
+        let turn: number;
+        if (task.rotationPolicy === 'weekly') {
+            // Days since 1970-01-01 (a Thursday), shifted so that weeks start on Monday
+            const day = Math.floor(Date.UTC(task.dueDate.getFullYear(), task.dueDate.getMonth(), task.dueDate.getDate()) / (1000 * 60 * 60 * 24));
+            turn = Math.floor((day + 3) / 7) + turnsAhead;
+        } else {
+            turn = (task.rotationIndex || 0) + turnsAhead;
+        }
+
+        return assignees[((turn % assignees.length) + assignees.length) % assignees.length];
+    }
+}
+
+/**
+ * Utility class for the seasonal active windows of tasks
+ */
+export class ActiveWindowHelper {
+    /**
+     * Checks if a window has valid months
+     */
+    static isValid(window: ActiveWindow): boolean {
+        const isMonth = (month: number) => Number.isInteger(month) && month >= 1 && month <= 12;
+        return isMonth(window.startMonth) && isMonth(window.endMonth);
+    }
+
+    /**
+     * Checks if a date falls within a window
+     */
+    static contains(window: ActiveWindow, date: Date): boolean {
+        const month = date.getMonth() + 1;
+        return window.startMonth <= window.endMonth
+            ? month >= window.startMonth && month <= window.endMonth
+            : month >= window.startMonth || month <= window.endMonth;
+    }
+
+    /**
+     * Gets the first day of the next opening of a window after a date
+     */
+    static getNextStart(window: ActiveWindow, date: Date): Date {
+        const start = new Date(date.getFullYear(), window.startMonth - 1, 1);
+        if (start <= date) {
+            start.setFullYear(start.getFullYear() + 1);
+        }
+        return start;
+    }
+}
+
+/**
+ * Utility class for cleaning up task tags
+ */
+export class TagHelper {
+    /**
+     * Parses tags from a comma or space separated string, or cleans up a list of tags.
+     * Leading '#' are dropped and duplicates (ignoring case) are removed, keeping the first spelling.
+     */
+    static normalize(tags: string | string[]): string[] {
+        const values = Array.isArray(tags) ? tags : tags.split(/[,\s]+/);
+        const result: string[] = [];
+
+        for (const value of values) {
+            const tag = String(value).trim().replace(/^#+/, '');
+            if (tag && !result.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+                result.push(tag);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Checks if a task has a tag (ignoring case)
+     */
+    static hasTag(task: Task, tag: string): boolean {
+        return (task.tags || []).some(existing => existing.toLowerCase() === tag.toLowerCase());
+    }
 }
 
 /**
  * Utility class for creating and managing periodicity configurations
  */
 export class PeriodicityHelper {
+    /** Maximum number of occurrences skipped when looking for one that rolls to a working day after the reference date */
+    private static readonly MAX_SKIPPED_OCCURRENCES = 366;
+
     /**
      * Creates a one-shot (non-recurring) periodicity
      */
@@ -85,12 +552,7 @@ export class PeriodicityHelper {
                 isRecurring: true
             };
         } else {
-            return {
-                type: 'custom',
-                interval: days,
-                description: `Every ${days} days`,
-                isRecurring: true
-            };
+            return PeriodicityHelper.createInterval(days, 'day');
         }
     }
 
@@ -105,12 +567,7 @@ export class PeriodicityHelper {
                 isRecurring: true
             };
         } else {
-            return {
-                type: 'custom',
-                interval: weeks * 7,
-                description: `Every ${weeks} weeks`,
-                isRecurring: true
-            };
+            return PeriodicityHelper.createInterval(weeks, 'week');
         }
     }
 
@@ -125,12 +582,7 @@ export class PeriodicityHelper {
                 isRecurring: true
             };
         } else {
-            return {
-                type: 'custom',
-                interval: months * 30, // Approximate for custom intervals
-                description: `Every ${months} months`,
-                isRecurring: true
-            };
+            return PeriodicityHelper.createInterval(months, 'month');
         }
     }
 
@@ -145,15 +597,30 @@ export class PeriodicityHelper {
                 isRecurring: true
             };
         } else {
-            return {
-                type: 'custom',
-                interval: years * 365, // Approximate for custom intervals
-                description: `Every ${years} years`,
-                isRecurring: true
-            };
+            return PeriodicityHelper.createInterval(years, 'year');
         }
     }
 
+    /**
+     * Creates a custom periodicity repeating every `count` calendar units
+     */
+    static createInterval(count: number, unit: PeriodUnit): Periodicity {
+        return {
+            type: 'custom',
+            interval: count,
+            unit,
+            description: `Every ${count} ${unit === 'businessDay' ? 'business day' : unit}s`,
+            isRecurring: true
+        };
+    }
+
+    /**
+     * Creates a periodicity repeating every `count` working days, skipping weekends and holidays
+     */
+    static createBusinessDays(count: number = 1): Periodicity {
+        return PeriodicityHelper.createInterval(count, 'businessDay');
+    }
+
     /**
      * Creates a custom periodicity with specific day interval
      */
@@ -161,46 +628,294 @@ export class PeriodicityHelper {
         return {
             type: 'custom',
             interval: days,
+            unit: 'day',
             description: description || `Every ${days} days`,
             isRecurring: true
         };
     }
 
     /**
-     * Calculates the next due date based on the new periodicity system
+     * Creates a periodicity from an RFC 5545 recurrence rule string.
+     * COUNT and UNTIL become the end conditions of the periodicity.
+     * @throws Error if the rule cannot be parsed
      */
-    static calculateNextDueDate(currentDueDate: Date, periodicity: Periodicity): Date {
-        // For non-recurring tasks, return the current due date
-        if (!periodicity.isRecurring || periodicity.type === 'none') {
-            return new Date(currentDueDate);
+    static createFromRRule(text: string): Periodicity {
+        const parts = text.trim().replace(/^RRULE:/i, '').split(';');
+        const endParts = new Map<string, string>();
+        const ruleParts = parts.filter(part => {
+            const [name, value] = part.split('=');
+            if (/^(COUNT|UNTIL)$/i.test(name.trim())) {
+                endParts.set(name.trim().toUpperCase(), (value || '').trim());
+                return false;
+            }
+            return true;
+        });
+
+        const rule = RecurrenceRuleHelper.parse(ruleParts.join(';'));
+        const periodicity: Periodicity = {
+            type: 'rrule',
+            rrule: rule,
+            description: RecurrenceRuleHelper.describe(rule),
+            isRecurring: true
+        };
+
+        const count = endParts.get('COUNT');
+        if (count !== undefined) {
+            if (!/^\d+$/.test(count) || parseInt(count, 10) < 1) {
+                throw new Error(`Invalid COUNT: ${count}`);
+            }
+            periodicity.count = parseInt(count, 10);
         }
 
-        const nextDate = new Date();
+        const until = endParts.get('UNTIL');
+        if (until !== undefined) {
+            // Only the date part matters: the series ends after that day
+            const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(until);
+            if (!match) {
+                throw new Error(`Invalid UNTIL: ${until}`);
+            }
+            periodicity.until = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+        }
+
+        return periodicity;
+    }
+
+    /**
+     * Creates a periodicity from a 5-field cron expression such as "0 9 * * 1-5"
+     * @throws Error if the expression cannot be parsed
+     */
+    static createFromCron(text: string): Periodicity {
+        const expression = CronExpressionHelper.parse(text);
+        return {
+            type: 'cron',
+            cron: expression.text,
+            description: CronExpressionHelper.describe(expression),
+            isRecurring: true
+        };
+    }
+
+    /**
+     * Checks if a recurring series is over: its occurrence count is reached or the next due date is past its end date
+     */
+    static hasSeriesEnded(periodicity: Periodicity, completedOccurrences: number, nextDueDate: Date): boolean {
+        if (periodicity.count !== undefined && completedOccurrences >= periodicity.count) {
+            return true;
+        }
+
+        if (periodicity.until) {
+            const endOfLastDay = new Date(periodicity.until.getFullYear(), periodicity.until.getMonth(), periodicity.until.getDate() + 1);
+            return nextDueDate >= endOfLastDay;
+        }
+
+        return false;
+    }
+
+    /**
+     * Gets the recurrence rule equivalent to a periodicity.
+     * Simple types are shorthand for the matching rule; one-shot tasks have no rule.
+     */
+    static getRule(periodicity: Periodicity): RecurrenceRule | null {
+        if (!periodicity.isRecurring) {
+            return null;
+        }
 
         switch (periodicity.type) {
             case 'daily':
-                nextDate.setDate(nextDate.getDate() + 1);
-                break;
+                return { freq: 'DAILY', interval: 1 };
             case 'weekly':
-                nextDate.setDate(nextDate.getDate() + 7);
-                break;
+                return { freq: 'WEEKLY', interval: 1 };
             case 'monthly':
-                nextDate.setMonth(nextDate.getMonth() + 1);
-                break;
+                return { freq: 'MONTHLY', interval: 1 };
             case 'yearly':
-                nextDate.setFullYear(nextDate.getFullYear() + 1);
-                break;
-            case 'custom':
-                if (periodicity.interval) {
-                    nextDate.setDate(nextDate.getDate() + periodicity.interval);
-                } else {
-                    // Fallback to daily if no interval specified
-                    nextDate.setDate(nextDate.getDate() + 1);
-                }
+                return { freq: 'YEARLY', interval: 1 };
+            case 'custom': {
+                // Intervals without a unit are counted in days; fallback to daily if no interval specified.
+                // Business days have no exact rule: they are sized as days, dates come from the business calendar.
+                const frequencies: Record<PeriodUnit, RecurrenceFrequency> = { day: 'DAILY', businessDay: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+                return { freq: frequencies[periodicity.unit || 'day'] || 'DAILY', interval: periodicity.interval || 1 };
+            }
+            case 'rrule':
+                return periodicity.rrule || null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Checks if a periodicity runs on a cron expression
+     */
+    static isCron(periodicity: Periodicity): boolean {
+        return periodicity.isRecurring && periodicity.type === 'cron' && !!periodicity.cron;
+    }
+
+    /**
+     * Checks if a periodicity counts its interval in business days
+     */
+    static isBusinessDays(periodicity: Periodicity): boolean {
+        return periodicity.isRecurring && periodicity.type === 'custom' && periodicity.unit === 'businessDay';
+    }
+
+    /**
+     * Calculates the next due date based on the new periodicity system.
+     * Tasks with a time zone recur on the wall clock of that zone, across DST changes.
+     * @param now The reference time standing for "now" (validation time)
+     */
+    static calculateNextDueDate(currentDueDate: Date, periodicity: Periodicity, options: DueDateOptions = {}, now: Date = new Date()): Date {
+        const timeZone = options.timeZone;
+        if (!timeZone) {
+            return PeriodicityHelper.calculateNextWallClockDueDate(currentDueDate, periodicity, options, now);
+        }
+
+        const next = PeriodicityHelper.calculateNextWallClockDueDate(
+            TimeZoneUtil.toWallClock(currentDueDate, timeZone),
+            periodicity,
+            { ...options, seriesStart: options.seriesStart && TimeZoneUtil.toWallClock(options.seriesStart, timeZone) },
+            TimeZoneUtil.toWallClock(now, timeZone)
+        );
+        return TimeZoneUtil.fromWallClock(next, timeZone);
+    }
+
+    /**
+     * Calculates the due date one period after the current one on the fixed schedule, even if it is in the past
+     */
+    static calculateFollowingDueDate(currentDueDate: Date, periodicity: Periodicity, options: DueDateOptions = {}): Date {
+        return PeriodicityHelper.calculateNextDueDate(currentDueDate, periodicity, { ...options, anchorMode: 'schedule' }, currentDueDate);
+    }
+
+    /**
+     * Lists the occurrences of the fixed schedule strictly after a due date and up to a limit (inclusive).
+     * At most `max` occurrences are returned, the most recent ones.
+     */
+    static getOccurrencesUntil(dueDate: Date, periodicity: Periodicity, options: DueDateOptions, limit: Date, max: number = 366): Date[] {
+        const occurrences: Date[] = [];
+        let current = dueDate;
+
+        while (periodicity.isRecurring) {
+            const next = PeriodicityHelper.calculateFollowingDueDate(current, periodicity, options);
+            if (next <= current || next > limit) {
                 break;
+            }
+            occurrences.push(next);
+            if (occurrences.length > max) {
+                occurrences.shift();
+            }
+            current = next;
+        }
+
+        return occurrences;
+    }
+
+    /**
+     * Calculates the next due date with all dates expressed as wall-clock times
+     */
+    private static calculateNextWallClockDueDate(currentDueDate: Date, periodicity: Periodicity, options: DueDateOptions, now: Date): Date {
+        const anchorMode = options.anchorMode || 'completion';
+        const after = anchorMode === 'schedule' && currentDueDate > now ? currentDueDate : now;
+
+        // Cron expressions fix the times of every run themselves: the next due date is the first run after the reference time
+        if (PeriodicityHelper.isCron(periodicity)) {
+            const expression = CronExpressionHelper.parse(periodicity.cron!);
+            const next = PeriodicityHelper.findWorkingOccurrence(
+                CronExpressionHelper.nextOccurrence(expression, after),
+                run => CronExpressionHelper.nextOccurrence(expression, run),
+                options.nonWorkingDayPolicy || 'keep',
+                after
+            );
+            return next || new Date(currentDueDate);
+        }
+
+        const rule = PeriodicityHelper.getRule(periodicity);
+
+        // For non-recurring tasks, return the current due date
+        if (!rule) {
+            return new Date(currentDueDate);
+        }
+
+        // After completion, the series restarts from the validation day, keeping the due time if there is one
+        const completionAnchor = options.hasDueTime
+            ? new Date(now.getFullYear(), now.getMonth(), now.getDate(), currentDueDate.getHours(), currentDueDate.getMinutes())
+            : now;
+
+        if (PeriodicityHelper.isBusinessDays(periodicity)) {
+            // Business days always land on working days, no rolling needed
+            const calendar = BusinessCalendar.getActive();
+            let next = calendar.addBusinessDays(anchorMode === 'schedule' ? currentDueDate : completionAnchor, rule.interval);
+            while (next <= after) {
+                next = calendar.addBusinessDays(next, rule.interval);
+            }
+            return next;
+        }
+
+        // Fixed schedules follow the series from its start, skipping occurrences already in the past.
+        // Counting from the previous due date instead would keep a day clamped by a short month (Jan 31 -> Feb 28 -> Mar 28).
+        const anchor = anchorMode === 'schedule' ? options.seriesStart || currentDueDate : completionAnchor;
+        const next = PeriodicityHelper.findWorkingOccurrence(
+            RecurrenceRuleHelper.nextOccurrence(rule, anchor, anchorMode === 'schedule' ? after : completionAnchor),
+            occurrence => RecurrenceRuleHelper.nextOccurrence(rule, anchor, occurrence),
+            options.nonWorkingDayPolicy || 'keep',
+            after
+        );
+
+        return next || new Date(currentDueDate);
+    }
+
+    /**
+     * Moves occurrences off weekends and holidays, starting from the first one, until one lands after `after`.
+     * An occurrence rolled back to or before `after` is skipped rather than rolled forward: it was already due
+     * on the working day it rolls back to, and rolling it forward would make it due a second time.
+     * @param findNext Finds the occurrence following an occurrence
+     * @returns The due date, or null if the series has no occurrence left
+     */
+    private static findWorkingOccurrence(first: Date | null, findNext: (occurrence: Date) => Date | null, policy: NonWorkingDayPolicy, after: Date): Date | null {
+        let occurrence = first;
+        for (let i = 0; occurrence && i < PeriodicityHelper.MAX_SKIPPED_OCCURRENCES; i++) {
+            const due = PeriodicityHelper.applyNonWorkingDayPolicy(occurrence, policy);
+            if (due > after) {
+                return due;
+            }
+            occurrence = findNext(occurrence);
+        }
+        return null;
+    }
+
+    /**
+     * Calculates the due date preceding a due date in the series, or null for one-shot tasks
+     */
+    static calculatePreviousDueDate(dueDate: Date, periodicity: Periodicity, options: DueDateOptions = {}): Date | null {
+        const rule = PeriodicityHelper.getRule(periodicity);
+
+        if (!rule && !PeriodicityHelper.isCron(periodicity)) {
+            return null;
+        }
+
+        const timeZone = options.timeZone;
+        const wallClock = timeZone ? TimeZoneUtil.toWallClock(dueDate, timeZone) : dueDate;
+        const seriesStart = options.anchorMode === 'schedule' && options.seriesStart
+            ? (timeZone ? TimeZoneUtil.toWallClock(options.seriesStart, timeZone) : options.seriesStart)
+            : wallClock;
+        let previous: Date | null;
+        if (!rule) {
+            previous = CronExpressionHelper.previousOccurrence(CronExpressionHelper.parse(periodicity.cron!), wallClock);
+        } else if (PeriodicityHelper.isBusinessDays(periodicity)) {
+            previous = BusinessCalendar.getActive().addBusinessDays(wallClock, -rule.interval);
+        } else {
+            previous = RecurrenceRuleHelper.previousOccurrence(rule, seriesStart, wallClock);
+        }
+
+        return previous && timeZone ? TimeZoneUtil.fromWallClock(previous, timeZone) : previous;
+    }
+
+    /**
+     * Moves a due date off weekends and holidays according to the policy
+     */
+    static applyNonWorkingDayPolicy(date: Date, policy: NonWorkingDayPolicy): Date {
+        const calendar = BusinessCalendar.getActive();
+
+        if (policy === 'keep' || calendar.isWorkingDay(date)) {
+            return date;
         }
 
-        return nextDate;
+        return calendar.roll(date, policy);
     }
 
     /**
@@ -213,7 +928,9 @@ export class PeriodicityHelper {
             { value: 'weekly', label: 'Weekly', description: 'Repeat every week' },
             { value: 'monthly', label: 'Monthly', description: 'Repeat every month' },
             { value: 'yearly', label: 'Yearly', description: 'Repeat every year' },
-            { value: 'custom', label: 'Custom', description: 'Custom interval in days' }
+            { value: 'custom', label: 'Custom', description: 'Custom interval in days, business days, weeks, months or years' },
+            { value: 'rrule', label: 'Custom rule', description: 'RFC 5545 recurrence rule (RRULE)' },
+            { value: 'cron', label: 'Cron', description: 'Standard 5-field cron expression' }
         ];
     }
 } 
\ No newline at end of file
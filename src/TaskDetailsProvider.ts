@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import { l10n } from 'vscode';
-import { Task, Comment } from './Task';
-import { TaskManager } from './TaskManager';
+import { Task, Comment, Periodicity, PeriodicityHelper, PeriodUnit, NonWorkingDayPolicy, CatchUpPolicy, OccurrenceOutcome, TagHelper, TaskPriority, PriorityHelper, TaskTemplate, AssigneeHelper, RotationPolicy, ActiveWindow, ActiveWindowHelper, TaskStore } from './Task';
+import { RecurrenceRuleHelper } from './RecurrenceRule';
+import { CronExpressionHelper } from './CronExpression';
+import { TimeZoneUtil } from './TimeZoneUtil';
+import { HtmlUtil } from './HtmlUtil';
+import { TaskManager, NewTaskOptions } from './TaskManager';
 import { TaskProvider } from './TaskProvider';
 import { CalendarProvider } from './CalendarProvider';
 import { TaskStatusUtil } from './TaskStatusUtil';
@@ -104,12 +108,60 @@ export class TaskDetailsProvider {
                     case 'createTask':
                         TaskDetailsProvider.handleCreateTask(message.taskData);
                         return;
+                    case 'previewCron':
+                        TaskDetailsProvider.handlePreviewCron(panel.webview, message.expression, message.timeZone);
+                        return;
                     case 'updateTask':
                         TaskDetailsProvider.handleUpdateTask(message.taskId, message.taskData);
                         return;
                     case 'validateTask':
                         TaskDetailsProvider.handleValidateTask(message.taskId, message.commentText);
                         return;
+                    case 'addChecklistItem':
+                        TaskDetailsProvider.handleChecklistChange(taskManager => taskManager.addChecklistItem(message.taskId, message.text, message.required === true));
+                        return;
+                    case 'updateChecklistItem':
+                        TaskDetailsProvider.handleChecklistChange(taskManager => taskManager.updateChecklistItem(message.taskId, message.itemId, message.changes));
+                        return;
+                    case 'moveChecklistItem':
+                        TaskDetailsProvider.handleChecklistChange(taskManager => taskManager.moveChecklistItem(message.taskId, message.itemId, message.offset));
+                        return;
+                    case 'deleteChecklistItem':
+                        TaskDetailsProvider.handleChecklistChange(taskManager => taskManager.deleteChecklistItem(message.taskId, message.itemId));
+                        return;
+                    case 'addDependency':
+                        TaskDetailsProvider.handleDependencyChange(message.taskId, dependsOn => [...dependsOn, message.dependencyId]);
+                        return;
+                    case 'removeDependency':
+                        TaskDetailsProvider.handleDependencyChange(message.taskId, dependsOn => dependsOn.filter(id => id !== message.dependencyId));
+                        return;
+                    case 'openTask':
+                        TaskDetailsProvider.handleOpenTask(message.taskId);
+                        return;
+                    case 'startTimer':
+                        TaskDetailsProvider.handleTimerChange(taskManager => taskManager.startTimer(message.taskId));
+                        return;
+                    case 'pauseTimer':
+                        TaskDetailsProvider.handleTimerChange(taskManager => taskManager.pauseTimer(message.taskId));
+                        return;
+                    case 'stopTimer':
+                        TaskDetailsProvider.handleTimerChange(taskManager => taskManager.stopTimer(message.taskId));
+                        return;
+                    case 'skipOccurrence':
+                        TaskDetailsProvider.handleSkipOccurrence(message.taskId, message.reason);
+                        return;
+                    case 'postponeTask':
+                        TaskDetailsProvider.handlePostponeTask(message.taskId);
+                        return;
+                    case 'moveTaskToStore':
+                        TaskDetailsProvider.handleMoveTaskToStore(message.taskId);
+                        return;
+                    case 'pauseTask':
+                        TaskDetailsProvider.handlePauseTask(message.taskId);
+                        return;
+                    case 'resumeTask':
+                        TaskDetailsProvider.handleResumeTask(message.taskId);
+                        return;
                     case 'createJiraIssue':
                         TaskDetailsProvider.handleCreateJiraIssue(message.taskId);
                         return;
@@ -134,13 +186,14 @@ export class TaskDetailsProvider {
 
     /**
      * Shows create task form in a webview panel
+     * @param templateId Template to prefill the form with (the form also lets the user pick one)
      */
-    public static showCreateTaskForm(extensionUri: vscode.Uri): void {
+    public static showCreateTaskForm(extensionUri: vscode.Uri, templateId?: string): void {
         // If we have an existing panel, reuse it
         if (TaskDetailsProvider.currentPanel) {
             TaskDetailsProvider.currentPanel.reveal(vscode.ViewColumn.One);
             TaskDetailsProvider.currentPanel.title = l10n.t('Create New Task');
-            TaskDetailsProvider.currentPanel.webview.html = TaskDetailsProvider.getCreateTaskWebviewContent(TaskDetailsProvider.currentPanel.webview, extensionUri);
+            TaskDetailsProvider.currentPanel.webview.html = TaskDetailsProvider.getCreateTaskWebviewContent(TaskDetailsProvider.currentPanel.webview, extensionUri, templateId);
             return;
         }
 
@@ -159,7 +212,7 @@ export class TaskDetailsProvider {
         // Store reference to the panel
         TaskDetailsProvider.currentPanel = panel;
 
-        panel.webview.html = TaskDetailsProvider.getCreateTaskWebviewContent(panel.webview, extensionUri);
+        panel.webview.html = TaskDetailsProvider.getCreateTaskWebviewContent(panel.webview, extensionUri, templateId);
 
         // Handle messages from the webview
         panel.webview.onDidReceiveMessage(
@@ -171,6 +224,9 @@ export class TaskDetailsProvider {
                     case 'createTask':
                         TaskDetailsProvider.handleCreateTask(message.taskData);
                         return;
+                    case 'previewCron':
+                        TaskDetailsProvider.handlePreviewCron(panel.webview, message.expression, message.timeZone);
+                        return;
                 }
             },
             undefined,
@@ -275,21 +331,56 @@ export class TaskDetailsProvider {
         }
 
         try {
-            const { title, description, periodicity, dueDate } = taskData;
+            const { title, description, dueDate } = taskData;
             
-            if (!title || !periodicity || !dueDate) {
+            if (!title || !taskData.periodicity || !dueDate) {
                 vscode.window.showErrorMessage('Missing required task data');
                 return;
             }
 
-            const newTask = TaskDetailsProvider.taskManager.addTask(
-                title,
-                periodicity,
-                new Date(dueDate),
-                description
-            );
+            const periodicity = TaskDetailsProvider.resolvePeriodicity(taskData.periodicity);
+            if (!periodicity) {
+                return;
+            }
+
+            // Cron tasks always run at a time, so their time zone applies even without a due time
+            const isCron = PeriodicityHelper.isCron(periodicity);
+            const due = TaskDetailsProvider.resolveDueDate(dueDate, taskData.dueTime || (isCron ? '00:00' : undefined), taskData.timeZone);
+            if (!due) {
+                return;
+            }
+
+            // The task is first due at the first run of the cron expression from the chosen date
+            if (isCron) {
+                due.dueDate = TaskDetailsProvider.getCronRuns(periodicity, new Date(due.dueDate.getTime() - 60 * 1000), due.timeZone, 1)[0] || due.dueDate;
+                due.hasDueTime = true;
+            }
+
+            const options: NewTaskOptions = {
+                anchorMode: taskData.anchorMode === 'schedule' ? 'schedule' : 'completion',
+                nonWorkingDayPolicy: taskData.nonWorkingDayPolicy === 'next' || taskData.nonWorkingDayPolicy === 'previous' ? taskData.nonWorkingDayPolicy : 'keep',
+                catchUpPolicy: taskData.catchUpPolicy === 'skipMissed' || taskData.catchUpPolicy === 'oneAtATime' ? taskData.catchUpPolicy : 'collapse',
+                hasDueTime: due.hasDueTime,
+                timeZone: due.timeZone,
+                priority: PriorityHelper.isPriority(taskData.priority) ? taskData.priority : 'normal',
+                tags: TagHelper.normalize(taskData.tags || ''),
+                estimatedDuration: parseInt(taskData.estimatedDuration, 10) > 0 ? parseInt(taskData.estimatedDuration, 10) : undefined,
+                assignees: AssigneeHelper.normalize(taskData.assignees || ''),
+                rotationPolicy: taskData.rotationPolicy === 'weekly' ? 'weekly' : 'roundRobin',
+                activeWindow: TaskDetailsProvider.resolveActiveWindow(taskData.activeWindow),
+                store: TaskDetailsProvider.taskManager.getStores().includes(taskData.store) ? taskData.store : 'global'
+            };
+
+            // Tasks created from a template also get its checklist steps
+            const newTask = taskData.templateId
+                ? TaskDetailsProvider.taskManager.addTaskFromTemplate(taskData.templateId, title, periodicity, due.dueDate, description, options)
+                : TaskDetailsProvider.taskManager.addTask(title, periodicity, due.dueDate, description, options);
 
             if (newTask) {
+                // Seasonal tasks created out of season start paused
+                if (newTask.activeWindow) {
+                    TaskDetailsProvider.taskManager.updatePausedTasks();
+                }
                 TaskDetailsProvider.refreshTaskProvider();
                 vscode.window.showInformationMessage(`Task "${title}" created successfully`);
                 
@@ -317,6 +408,16 @@ export class TaskDetailsProvider {
         try {
             // Convert date strings back to Date objects if they exist
             const processedTaskData = { ...taskData };
+
+            // Due dates edited in the form come as a day, an optional time and an optional time zone
+            if ('dueTime' in processedTaskData) {
+                const due = TaskDetailsProvider.resolveDueDate(processedTaskData.dueDate, processedTaskData.dueTime, processedTaskData.timeZone);
+                if (!due) {
+                    return;
+                }
+                delete processedTaskData.dueTime;
+                Object.assign(processedTaskData, due);
+            }
             
             if (processedTaskData.dueDate && typeof processedTaskData.dueDate === 'string') {
                 processedTaskData.dueDate = new Date(processedTaskData.dueDate);
@@ -326,7 +427,62 @@ export class TaskDetailsProvider {
                 processedTaskData.creationDate = new Date(processedTaskData.creationDate);
             }
 
-            const updatedTask = TaskDetailsProvider.taskManager.updateTask(taskId, processedTaskData);
+            // An empty limit falls back to the recurringTasks.postpone.limit setting
+            if ('postponeLimit' in processedTaskData) {
+                const postponeLimit = parseInt(processedTaskData.postponeLimit, 10);
+                processedTaskData.postponeLimit = postponeLimit >= 0 ? postponeLimit : undefined;
+            }
+
+            // An empty estimate removes it
+            if ('estimatedDuration' in processedTaskData) {
+                const estimatedDuration = parseInt(processedTaskData.estimatedDuration, 10);
+                processedTaskData.estimatedDuration = estimatedDuration > 0 ? estimatedDuration : undefined;
+            }
+
+            if ('priority' in processedTaskData && !PriorityHelper.isPriority(processedTaskData.priority)) {
+                processedTaskData.priority = 'normal';
+            }
+
+            if (typeof processedTaskData.tags === 'string') {
+                processedTaskData.tags = TagHelper.normalize(processedTaskData.tags);
+            }
+
+            if (typeof processedTaskData.assignees === 'string') {
+                processedTaskData.assignees = AssigneeHelper.normalize(processedTaskData.assignees);
+            }
+
+            if ('rotationPolicy' in processedTaskData && processedTaskData.rotationPolicy !== 'weekly') {
+                processedTaskData.rotationPolicy = 'roundRobin';
+            }
+
+            // A missing window makes the task active all year
+            if ('activeWindow' in processedTaskData) {
+                processedTaskData.activeWindow = TaskDetailsProvider.resolveActiveWindow(processedTaskData.activeWindow);
+            }
+
+            if (processedTaskData.periodicity) {
+                const periodicity = TaskDetailsProvider.resolvePeriodicity(processedTaskData.periodicity);
+                if (!periodicity) {
+                    return;
+                }
+                processedTaskData.periodicity = periodicity;
+
+                // Switching to a cron expression moves the due date to its first run from the current due date
+                const task = TaskDetailsProvider.taskManager.getTask(taskId);
+                if (task && PeriodicityHelper.isCron(periodicity) && periodicity.cron !== task.periodicity.cron) {
+                    const dueDate: Date = processedTaskData.dueDate || task.dueDate;
+                    processedTaskData.dueDate = TaskDetailsProvider.getCronRuns(periodicity, new Date(dueDate.getTime() - 60 * 1000), task.timeZone, 1)[0] || dueDate;
+                    processedTaskData.hasDueTime = true;
+                }
+            }
+
+            let updatedTask = TaskDetailsProvider.taskManager.updateTask(taskId, processedTaskData);
+
+            // A new active window applies right away
+            if (updatedTask && 'activeWindow' in processedTaskData) {
+                TaskDetailsProvider.taskManager.updatePausedTasks();
+                updatedTask = TaskDetailsProvider.taskManager.getTask(taskId);
+            }
             
             if (updatedTask) {
                 TaskDetailsProvider.refreshPanel(updatedTask);
@@ -340,16 +496,275 @@ export class TaskDetailsProvider {
         }
     }
 
+    /**
+     * Converts the due date fields posted by a webview ('YYYY-MM-DD' day, optional 'HH:mm' time, optional time zone).
+     * The time zone only applies to a due time. Shows an error and returns null if the time zone is unknown.
+     */
+    private static resolveDueDate(day: string, time?: string, timeZone?: string): { dueDate: Date; hasDueTime: boolean; timeZone?: string } | null {
+        const zone = time && timeZone ? timeZone.trim() : '';
+
+        if (zone && !TimeZoneUtil.isValidTimeZone(zone)) {
+            vscode.window.showErrorMessage(l10n.t('Unknown time zone: {0}', zone));
+            return null;
+        }
+
+        return {
+            dueDate: TimeZoneUtil.createDueDate(day, time || undefined, zone || undefined),
+            hasDueTime: !!time,
+            timeZone: zone || undefined
+        };
+    }
+
+    /**
+     * Converts periodicity data posted by a webview into a periodicity, parsing recurrence rules and cron expressions
+     * and applying the series end ('YYYY-MM-DD' until date or occurrence count).
+     * Shows an error and returns null if the rule or expression is invalid.
+     */
+    private static resolvePeriodicity(periodicityData: any): Periodicity | null {
+        const { rruleText, cronText, endType, until, count, ...data } = periodicityData;
+        let periodicity: Periodicity = data;
+
+        if (data.type === 'rrule') {
+            try {
+                periodicity = PeriodicityHelper.createFromRRule(String(rruleText || ''));
+            } catch (error) {
+                vscode.window.showErrorMessage(l10n.t('Invalid recurrence rule: {0}', error instanceof Error ? error.message : String(error)));
+                return null;
+            }
+        } else if (data.type === 'cron') {
+            try {
+                periodicity = PeriodicityHelper.createFromCron(String(cronText || ''));
+            } catch (error) {
+                vscode.window.showErrorMessage(l10n.t('Invalid cron expression: {0}', error instanceof Error ? error.message : String(error)));
+                return null;
+            }
+        }
+
+        if (!periodicity.isRecurring) {
+            return periodicity;
+        }
+
+        // An explicit end chosen in the form replaces COUNT/UNTIL from the rule text
+        if (endType === 'until' && until) {
+            delete periodicity.count;
+            periodicity.until = TimeZoneUtil.createDueDate(until);
+        } else if (endType === 'count' && parseInt(count, 10) >= 1) {
+            delete periodicity.until;
+            periodicity.count = parseInt(count, 10);
+        } else if (endType === 'never') {
+            delete periodicity.until;
+            delete periodicity.count;
+        }
+
+        return periodicity;
+    }
+
+    /**
+     * Sends the description and next five runs of a cron expression typed in a form back to the webview,
+     * or the reason it is invalid
+     */
+    private static handlePreviewCron(webview: vscode.Webview, expression: string, timeZone?: string): void {
+        const zone = timeZone && TimeZoneUtil.isValidTimeZone(timeZone.trim()) ? timeZone.trim() : undefined;
+
+        try {
+            const periodicity = PeriodicityHelper.createFromCron(String(expression || ''));
+            webview.postMessage({
+                command: 'cronPreview',
+                expression,
+                description: periodicity.description,
+                runs: TaskDetailsProvider.getCronRuns(periodicity, new Date(), zone, 5).map(run => TaskDetailsProvider.formatCronRun(run, zone))
+            });
+        } catch (error) {
+            webview.postMessage({
+                command: 'cronPreview',
+                expression,
+                error: l10n.t('Invalid cron expression: {0}', error instanceof Error ? error.message : String(error))
+            });
+        }
+    }
+
+    /**
+     * Lists the next runs of a cron periodicity strictly after a date, in a time zone or in local time
+     */
+    private static getCronRuns(periodicity: Periodicity, after: Date, timeZone: string | undefined, count: number): Date[] {
+        const runs: Date[] = [];
+        let current = after;
+
+        while (runs.length < count) {
+            const next = PeriodicityHelper.calculateFollowingDueDate(current, periodicity, { timeZone });
+            if (next <= current) {
+                break;
+            }
+            runs.push(next);
+            current = next;
+        }
+
+        return runs;
+    }
+
+    /**
+     * Formats a run of a cron expression with its weekday, e.g. "Mon, Oct 19, 2026, 09:00"
+     */
+    private static formatCronRun(date: Date, timeZone?: string): string {
+        return date.toLocaleString(vscode.env.language || 'en-US', {
+            weekday: 'short',
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZone
+        });
+    }
+
+    /**
+     * Generates the script previewing the cron expression typed in a form: its description and next runs,
+     * computed by the extension
+     * @param inputId Id of the cron expression input
+     * @param timeZoneInputId Id of the time zone input, if the form has one
+     */
+    private static getCronPreviewScript(inputId: string, timeZoneInputId?: string): string {
+        // 'var' as a prefilled form may request a preview before this script part runs
+        return `var cronPreviewTimeout;
+
+        function requestCronPreview() {
+            clearTimeout(cronPreviewTimeout);
+            cronPreviewTimeout = setTimeout(() => {
+                const expression = document.getElementById('${inputId}').value.trim();
+                const preview = document.getElementById('cron-preview');
+                if (!expression) {
+                    preview.innerHTML = '';
+                    return;
+                }
+                vscode.postMessage({
+                    command: 'previewCron',
+                    expression: expression,
+                    timeZone: ${timeZoneInputId ? `document.getElementById('${timeZoneInputId}').value.trim()` : 'undefined'}
+                });
+            }, 300);
+        }
+${timeZoneInputId ? `
+        document.getElementById('${timeZoneInputId}').addEventListener('input', requestCronPreview);
+` : ''}
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command !== 'cronPreview' || message.expression !== document.getElementById('${inputId}').value.trim()) {
+                return;
+            }
+
+            const preview = document.getElementById('cron-preview');
+            preview.innerHTML = '';
+            preview.classList.toggle('invalid', !!message.error);
+            if (message.error) {
+                preview.textContent = message.error;
+                return;
+            }
+
+            const description = document.createElement('div');
+            description.className = 'cron-description';
+            description.textContent = message.description;
+            preview.appendChild(description);
+
+            const runs = document.createElement('ul');
+            message.runs.forEach(run => {
+                const item = document.createElement('li');
+                item.textContent = run;
+                runs.appendChild(item);
+            });
+            preview.appendChild(document.createTextNode('${TaskDetailsProvider.escapeForJavaScript(l10n.t('Next runs:'))}'));
+            preview.appendChild(runs);
+        });`;
+    }
+
+    /**
+     * Describes the end of a recurring series and how far the task is into it, e.g. "occurrence 4 of 6"
+     */
+    private static formatSeriesEnd(task: Task): string {
+        const occurrence = (task.completedOccurrences || 0) + 1;
+
+        if (task.periodicity.count !== undefined) {
+            return l10n.t('occurrence {0} of {1}', Math.min(occurrence, task.periodicity.count), task.periodicity.count);
+        }
+        if (task.periodicity.until) {
+            return l10n.t('until {0}', task.periodicity.until.toLocaleDateString());
+        }
+        return '';
+    }
+
+    /**
+     * Gets the label of an occurrence outcome
+     */
+    private static formatOccurrenceOutcome(outcome: OccurrenceOutcome): string {
+        switch (outcome) {
+            case 'done':
+                return l10n.t('Done');
+            case 'skipped':
+                return l10n.t('Skipped');
+            case 'missed':
+                return l10n.t('Missed');
+        }
+    }
+
+    /**
+     * Describes how late an occurrence was completed, in days for tasks without a due time
+     */
+    private static formatLateness(lateness: number, hasDueTime?: boolean): string {
+        if (lateness <= 0) {
+            return l10n.t('on time');
+        }
+
+        const minutes = Math.round(lateness / (1000 * 60));
+        const hours = Math.floor(minutes / 60);
+        const days = Math.floor(hours / 24);
+
+        if (!hasDueTime || days > 0) {
+            return l10n.t('{0} day{1} late', days, days !== 1 ? 's' : '');
+        }
+        return hours > 0
+            ? l10n.t('{0} hour{1} late', hours, hours !== 1 ? 's' : '')
+            : l10n.t('{0} minute{1} late', minutes, minutes !== 1 ? 's' : '');
+    }
+
+    /**
+     * Summarizes the occurrence history of a recurring task, e.g. "5 done, 1 skipped, 2 missed (71%)"
+     */
+    private static formatOccurrenceStats(task: Task): string {
+        const stats = TaskStatusUtil.getOccurrenceStats(task);
+        return l10n.t('{0} done, {1} skipped, {2} missed ({3}%)', stats.done, stats.skipped, stats.missed, stats.completionRate);
+    }
+
+    /**
+     * Gets the initial end type of the series end select
+     */
+    private static getSeriesEndType(periodicity: Periodicity): 'never' | 'until' | 'count' {
+        if (periodicity.count !== undefined) {
+            return 'count';
+        }
+        return periodicity.until ? 'until' : 'never';
+    }
+
     /**
      * Handles validating a task (completing it and setting next due date)
      */
-    private static handleValidateTask(taskId: string, commentText: string): void {
+    private static async handleValidateTask(taskId: string, commentText: string): Promise<void> {
         if (!TaskDetailsProvider.taskManager) {
             vscode.window.showErrorMessage('Task manager not available');
             return;
         }
 
-        const updatedTask = TaskDetailsProvider.taskManager.validateTask(taskId, commentText);
+        const task = TaskDetailsProvider.taskManager.getTask(taskId);
+        const blocker = task ? TaskStatusUtil.getValidationBlocker(task) : undefined;
+        if (blocker) {
+            vscode.window.showErrorMessage(blocker);
+            return;
+        }
+
+        const blockingTasks = TaskDetailsProvider.taskManager.getBlockingTasks(taskId);
+        if (task && !await TaskStatusUtil.confirmValidationWhileBlocked(task, blockingTasks)) {
+            return;
+        }
+
+        const updatedTask = TaskDetailsProvider.taskManager.validateTask(taskId, commentText, TaskStatusUtil.getIdentity());
         if (updatedTask) {
             TaskDetailsProvider.refreshPanel(updatedTask);
             TaskDetailsProvider.refreshTaskProvider();
@@ -359,6 +774,170 @@ export class TaskDetailsProvider {
         }
     }
 
+    /**
+     * Handles a change to the checklist of a task and refreshes the views
+     */
+    private static handleChecklistChange(change: (taskManager: TaskManager) => Task | null): void {
+        if (!TaskDetailsProvider.taskManager) {
+            vscode.window.showErrorMessage('Task manager not available');
+            return;
+        }
+
+        const updatedTask = change(TaskDetailsProvider.taskManager);
+        if (updatedTask) {
+            TaskDetailsProvider.refreshPanel(updatedTask);
+            TaskDetailsProvider.refreshTaskProvider();
+        } else {
+            vscode.window.showErrorMessage('Failed to update checklist');
+        }
+    }
+
+    /**
+     * Handles starting, pausing or stopping the timer of a task and refreshes the views
+     */
+    private static handleTimerChange(change: (taskManager: TaskManager) => Task | null): void {
+        if (!TaskDetailsProvider.taskManager) {
+            vscode.window.showErrorMessage('Task manager not available');
+            return;
+        }
+
+        const updatedTask = change(TaskDetailsProvider.taskManager);
+        if (updatedTask) {
+            TaskDetailsProvider.refreshPanel(updatedTask);
+            TaskDetailsProvider.refreshTaskProvider();
+        } else {
+            vscode.window.showErrorMessage('Failed to update timer');
+        }
+    }
+
+    /**
+     * Handles a change to the prerequisites of a task and refreshes the views
+     */
+    private static handleDependencyChange(taskId: string, change: (dependsOn: string[]) => string[]): void {
+        if (!TaskDetailsProvider.taskManager) {
+            vscode.window.showErrorMessage('Task manager not available');
+            return;
+        }
+
+        const task = TaskDetailsProvider.taskManager.getTask(taskId);
+        if (!task) {
+            vscode.window.showErrorMessage('Failed to update prerequisites');
+            return;
+        }
+
+        try {
+            const updatedTask = TaskDetailsProvider.taskManager.setDependencies(taskId, change(task.dependsOn || []));
+            if (updatedTask) {
+                TaskDetailsProvider.refreshPanel(updatedTask);
+                TaskDetailsProvider.refreshTaskProvider();
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(l10n.t('Failed to update prerequisites: {0}', error instanceof Error ? error.message : String(error)));
+        }
+    }
+
+    /**
+     * Handles opening another task, such as a prerequisite, in the details panel
+     */
+    private static handleOpenTask(taskId: string): void {
+        const task = TaskDetailsProvider.taskManager?.getTask(taskId);
+        if (task) {
+            TaskDetailsProvider.refreshPanel(task);
+        }
+    }
+
+    /**
+     * Handles skipping the current occurrence of a recurring task (setting next due date without validating it)
+     */
+    private static handleSkipOccurrence(taskId: string, reason: string): void {
+        if (!TaskDetailsProvider.taskManager) {
+            vscode.window.showErrorMessage('Task manager not available');
+            return;
+        }
+
+        if (!reason || !reason.trim()) {
+            vscode.window.showErrorMessage(l10n.t('A reason is required to skip an occurrence'));
+            return;
+        }
+
+        const updatedTask = TaskDetailsProvider.taskManager.skipOccurrence(taskId, reason);
+        if (updatedTask) {
+            TaskDetailsProvider.refreshPanel(updatedTask);
+            TaskDetailsProvider.refreshTaskProvider();
+            vscode.window.showInformationMessage('Occurrence skipped successfully');
+        } else {
+            vscode.window.showErrorMessage('Failed to skip occurrence');
+        }
+    }
+
+    /**
+     * Handles postponing a task, asking until when with the postpone command
+     */
+    private static handlePostponeTask(taskId: string): void {
+        const task = TaskDetailsProvider.taskManager?.getTask(taskId);
+        if (!task) {
+            vscode.window.showErrorMessage('Task not found');
+            return;
+        }
+
+        vscode.commands.executeCommand('recurringtasks.postponeTask', {
+            task: task,
+            label: task.title,
+            collapsibleState: vscode.TreeItemCollapsibleState.None
+        });
+    }
+
+    /**
+     * Handles moving a task to another store with the move command
+     */
+    private static handleMoveTaskToStore(taskId: string): void {
+        const task = TaskDetailsProvider.taskManager?.getTask(taskId);
+        if (!task) {
+            vscode.window.showErrorMessage('Task not found');
+            return;
+        }
+
+        vscode.commands.executeCommand('recurringtasks.moveTaskToStore', {
+            task: task,
+            label: task.title,
+            collapsibleState: vscode.TreeItemCollapsibleState.None
+        });
+    }
+
+    /**
+     * Handles pausing a task, asking until when with the pause command
+     */
+    private static handlePauseTask(taskId: string): void {
+        const task = TaskDetailsProvider.taskManager?.getTask(taskId);
+        if (!task) {
+            vscode.window.showErrorMessage('Task not found');
+            return;
+        }
+
+        vscode.commands.executeCommand('recurringtasks.pauseTask', {
+            task: task,
+            label: task.title,
+            collapsibleState: vscode.TreeItemCollapsibleState.None
+        });
+    }
+
+    /**
+     * Handles resuming a paused task
+     */
+    private static handleResumeTask(taskId: string): void {
+        const task = TaskDetailsProvider.taskManager?.getTask(taskId);
+        if (!task) {
+            vscode.window.showErrorMessage('Task not found');
+            return;
+        }
+
+        vscode.commands.executeCommand('recurringtasks.resumeTask', {
+            task: task,
+            label: task.title,
+            collapsibleState: vscode.TreeItemCollapsibleState.None
+        });
+    }
+
     /**
      * Handles creating a JIRA issue from a task
      */
@@ -462,8 +1041,8 @@ export class TaskDetailsProvider {
      */
     public static refreshWebviewForNotificationChange(): void {
         if (TaskDetailsProvider.currentPanel && TaskDetailsProvider.taskManager && TaskDetailsProvider.currentTaskId) {
-            // Find the task by ID
-            const task = TaskDetailsProvider.taskManager.getTasks().find(t => t.id === TaskDetailsProvider.currentTaskId);
+            // Find the task by ID (it may be paused)
+            const task = TaskDetailsProvider.taskManager.getTask(TaskDetailsProvider.currentTaskId);
             if (task) {
                 TaskDetailsProvider.refreshPanel(task);
             }
@@ -495,15 +1074,305 @@ export class TaskDetailsProvider {
     }
 
     /**
-     * Escapes a string for safe insertion into HTML
+     * Formats a custom interval such as "Every 3 months"
+     */
+    private static formatInterval(count: number | string, unit: PeriodUnit = 'day'): string {
+        switch (unit) {
+            case 'businessDay':
+                return l10n.t('Every {0} business days', count);
+            case 'week':
+                return l10n.t('Every {0} weeks', count);
+            case 'month':
+                return l10n.t('Every {0} months', count);
+            case 'year':
+                return l10n.t('Every {0} years', count);
+            default:
+                return l10n.t('Every {0} days', count);
+        }
+    }
+
+    /**
+     * Generates the options for the custom interval unit select
+     */
+    private static getIntervalUnitOptions(selected: PeriodUnit = 'day'): string {
+        const units: Array<[PeriodUnit, string]> = [
+            ['day', l10n.t('Days')],
+            ['businessDay', l10n.t('Business days')],
+            ['week', l10n.t('Weeks')],
+            ['month', l10n.t('Months')],
+            ['year', l10n.t('Years')]
+        ];
+        return units
+            .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+            .join('');
+    }
+
+    /**
+     * Generates a script filling the "time-zones" datalist with the time zones known to the webview
+     */
+    private static getTimeZoneListScript(): string {
+        return `if (typeof Intl.supportedValuesOf === 'function') {
+            document.getElementById('time-zones').innerHTML = Intl.supportedValuesOf('timeZone')
+                .map(zone => '<option value="' + zone + '"></option>')
+                .join('');
+        }`;
+    }
+
+    /**
+     * Generates the options for the series end select
+     */
+    private static getSeriesEndOptions(selected: 'never' | 'until' | 'count'): string {
+        const endTypes: Array<[string, string]> = [
+            ['never', l10n.t('Never')],
+            ['until', l10n.t('On date')],
+            ['count', l10n.t('After a number of occurrences')]
+        ];
+        return endTypes
+            .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+            .join('');
+    }
+
+    /**
+     * Generates the functions showing the series end input matching the selected end type and reading the series end
+     */
+    private static getSeriesEndScript(): string {
+        return `function handleSeriesEndTypeChange() {
+            const endType = document.getElementById('series-end-type').value;
+            document.getElementById('series-until').style.display = endType === 'until' ? 'block' : 'none';
+            document.getElementById('series-count').style.display = endType === 'count' ? 'block' : 'none';
+        }
+
+        function getSeriesEnd() {
+            return {
+                endType: document.getElementById('series-end-type').value,
+                until: document.getElementById('series-until').value,
+                count: document.getElementById('series-count').value
+            };
+        }`;
+    }
+
+    /**
+     * Generates the options for the non-working day policy select
+     */
+    private static getNonWorkingDayPolicyOptions(selected: NonWorkingDayPolicy = 'keep'): string {
+        const policies: Array<[NonWorkingDayPolicy, string]> = [
+            ['keep', l10n.t('Keep the computed date')],
+            ['next', l10n.t('Move to the next business day')],
+            ['previous', l10n.t('Move to the previous business day')]
+        ];
+        return policies
+            .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+            .join('');
+    }
+
+    /**
+     * Describes the timer of the current occurrence
+     */
+    private static formatTimer(task: Task): string {
+        if (!task.timer) {
+            return l10n.t('No time tracked for this occurrence');
+        }
+
+        const trackedTime = TaskStatusUtil.formatDuration(TaskStatusUtil.getTrackedTime(task));
+        if (task.timer.runningSince) {
+            return l10n.t('Timer running: {0}', trackedTime);
+        }
+        return task.timer.paused
+            ? l10n.t('Timer paused: {0}', trackedTime)
+            : l10n.t('{0} tracked for this occurrence', trackedTime);
+    }
+
+    /**
+     * Describes the average time tracked per occurrence, compared to the estimated duration
+     */
+    private static formatDurationStats(task: Task): string {
+        const { average, count } = TaskStatusUtil.getDurationStats(task);
+        const estimate = task.estimatedDuration !== undefined ? task.estimatedDuration * 60 * 1000 : undefined;
+
+        if (average === undefined) {
+            return estimate !== undefined
+                ? l10n.t('Estimated {0}, no tracked occurrence yet', TaskStatusUtil.formatDuration(estimate))
+                : l10n.t('No estimated duration, no tracked occurrence yet');
+        }
+
+        const averageText = l10n.t('Average {0} per occurrence ({1} tracked)', TaskStatusUtil.formatDuration(average), count);
+        if (estimate === undefined) {
+            return averageText;
+        }
+
+        const difference = average - estimate;
+        const comparison = Math.round(Math.abs(difference) / (1000 * 60)) === 0
+            ? l10n.t('on estimate')
+            : difference > 0
+                ? l10n.t('{0} over the {1} estimate', TaskStatusUtil.formatDuration(difference), TaskStatusUtil.formatDuration(estimate))
+                : l10n.t('{0} under the {1} estimate', TaskStatusUtil.formatDuration(-difference), TaskStatusUtil.formatDuration(estimate));
+        return `${averageText}, ${comparison}`;
+    }
+
+    /**
+     * Describes who is assigned to a task and how the task rotates
+     */
+    private static formatTaskAssignees(task: Task): string {
+        const assignee = TaskStatusUtil.formatAssignee(task);
+        if (!assignee) {
+            return l10n.t('Unassigned');
+        }
+        return (task.assignees || []).length > 1
+            ? l10n.t('Assigned to {0}, rotating {1}', assignee, task.rotationPolicy === 'weekly' ? l10n.t('weekly') : l10n.t('after each validation'))
+            : l10n.t('Assigned to {0}', assignee);
+    }
+
+    /**
+     * Converts the active window posted by a webview, if its months are valid
+     */
+    private static resolveActiveWindow(activeWindow: any): ActiveWindow | undefined {
+        if (!activeWindow) {
+            return undefined;
+        }
+        const window = { startMonth: parseInt(activeWindow.startMonth, 10), endMonth: parseInt(activeWindow.endMonth, 10) };
+        return ActiveWindowHelper.isValid(window) ? window : undefined;
+    }
+
+    /**
+     * Describes when a task is active and whether it is paused
+     */
+    private static formatTaskActivity(task: Task): string {
+        const activity = task.activeWindow
+            ? l10n.t('Active {0}', TaskStatusUtil.formatActiveWindow(task.activeWindow))
+            : l10n.t('Active all year');
+        return task.status === 'paused' ? `${TaskStatusUtil.formatPaused(task)} • ${activity}` : activity;
+    }
+
+    /**
+     * Generates the options for a month select, with an "all year" option for a task without an active window
+     */
+    private static getMonthOptions(selected?: number): string {
+        const userLocale = vscode.env.language || 'en-US';
+        const months = Array.from({ length: 12 }, (_, index) =>
+            `<option value="${index + 1}" ${selected === index + 1 ? 'selected' : ''}>${new Date(2000, index, 1).toLocaleDateString(userLocale, { month: 'long' })}</option>`
+        );
+        return [`<option value="" ${selected === undefined ? 'selected' : ''}>${l10n.t('All year')}</option>`, ...months].join('');
+    }
+
+    /**
+     * Generates the options for the rotation policy select
+     */
+    private static getRotationOptions(selected: RotationPolicy = 'roundRobin'): string {
+        return [
+            `<option value="roundRobin" ${selected === 'roundRobin' ? 'selected' : ''}>${l10n.t('After each validation')}</option>`,
+            `<option value="weekly" ${selected === 'weekly' ? 'selected' : ''}>${l10n.t('Every week')}</option>`
+        ].join('');
+    }
+
+    /**
+     * Gets the options of the store select, for the stores available in this window
+     */
+    private static getStoreOptions(selected: TaskStore): string {
+        return TaskDetailsProvider.taskManager.getStores()
+            .map(store => `<option value="${store}" ${selected === store ? 'selected' : ''}>${HtmlUtil.escape(TaskStatusUtil.formatStore(store))}</option>`)
+            .join('');
+    }
+
+    /**
+     * Gets the label of a priority
+     */
+    private static formatPriority(priority: TaskPriority): string {
+        switch (priority) {
+            case 'critical':
+                return l10n.t('Critical');
+            case 'high':
+                return l10n.t('High');
+            case 'normal':
+                return l10n.t('Normal');
+            case 'low':
+                return l10n.t('Low');
+        }
+    }
+
+    /**
+     * Generates the options for the priority select
+     */
+    private static getPriorityOptions(selected: TaskPriority = 'normal'): string {
+        return PriorityHelper.PRIORITIES
+            .map(priority => `<option value="${priority}" ${priority === selected ? 'selected' : ''}>${TaskDetailsProvider.formatPriority(priority)}</option>`)
+            .join('');
+    }
+
+    /**
+     * Describes the priority of a task, mentioning an automatic escalation
+     */
+    private static formatTaskPriority(task: Task): string {
+        const priority = TaskStatusUtil.getEffectivePriority(task);
+        const basePriority = task.priority || 'normal';
+        return priority !== basePriority
+            ? l10n.t('Priority: {0} (escalated from {1})', TaskDetailsProvider.formatPriority(priority), TaskDetailsProvider.formatPriority(basePriority))
+            : l10n.t('Priority: {0}', TaskDetailsProvider.formatPriority(priority));
+    }
+
+    /**
+     * Generates the options for the catch-up policy select
+     */
+    private static getCatchUpPolicyOptions(selected: CatchUpPolicy = 'collapse'): string {
+        const policies: Array<[CatchUpPolicy, string]> = [
+            ['collapse', l10n.t('Jump to the next future occurrence')],
+            ['skipMissed', l10n.t('Record missed occurrences')],
+            ['oneAtATime', l10n.t('Advance one period at a time')]
+        ];
+        return policies
+            .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+            .join('');
+    }
+
+    /**
+     * Generates a JavaScript object literal mapping interval units to description templates
+     */
+    private static getIntervalDescriptionsScript(): string {
+        const units: PeriodUnit[] = ['day', 'businessDay', 'week', 'month', 'year'];
+        const entries = units.map(unit => `${unit}: '${TaskDetailsProvider.escapeForJavaScript(TaskDetailsProvider.formatInterval('{0}', unit))}'`);
+        return `{ ${entries.join(', ')} }`;
+    }
+
+    /**
+     * Generates the script keeping the two month selects of an active window consistent, shared by the task forms.
+     * Choosing a first month also fills an empty last month, and "all year" clears both.
+     */
+    private static getActiveWindowScript(): string {
+        return `function handleActiveWindowStartChange(prefix) {
+            const start = document.getElementById(prefix + '-start-select');
+            const end = document.getElementById(prefix + '-end-select');
+            if (!start.value) {
+                end.value = '';
+            } else if (!end.value) {
+                end.value = start.value;
+            }
+        }`;
+    }
+
+    /**
+     * Generates the templates offered by the create form as a script value, with the form values they prefill
      */
-    private static escapeForHtml(str: string): string {
-        return str
-            .replace(/&/g, '&amp;')   // Escape ampersands first
-            .replace(/</g, '&lt;')    // Escape less than
-            .replace(/>/g, '&gt;')    // Escape greater than
-            .replace(/"/g, '&quot;')  // Escape double quotes
-            .replace(/'/g, '&#39;');  // Escape single quotes
+    private static getTemplatesScript(templates: TaskTemplate[]): string {
+        const data = templates.map(template => ({
+            id: template.id,
+            titlePattern: template.titlePattern,
+            placeholders: template.titlePattern.match(/\{[^}]+\}/g) || [],
+            description: template.description || '',
+            tags: (template.tags || []).join(', '),
+            priority: template.priority || 'normal',
+            periodicityType: template.periodicity.type,
+            interval: template.periodicity.type === 'custom' ? template.periodicity.interval || '' : '',
+            unit: template.periodicity.unit || 'day',
+            rruleText: template.periodicity.rrule ? RecurrenceRuleHelper.format(template.periodicity.rrule) : '',
+            cronText: template.periodicity.cron || '',
+            count: template.periodicity.count || '',
+            anchorMode: template.anchorMode || 'completion',
+            nonWorkingDayPolicy: template.nonWorkingDayPolicy || 'keep',
+            catchUpPolicy: template.catchUpPolicy || 'collapse',
+            checklistCount: (template.checklist || []).length
+        }));
+
+        // '<' is escaped so that a template cannot close the script element
+        return JSON.stringify(data).replace(/</g, '\\u003c');
     }
 
     /**
@@ -531,10 +1400,11 @@ export class TaskDetailsProvider {
                 case 'yearly':
                     return l10n.t('Yearly');
                 case 'custom':
-                    if (periodicity.interval) {
-                        return l10n.t('Every {0} days', periodicity.interval);
-                    }
-                    return l10n.t('Every {0} days', 1);
+                    return TaskDetailsProvider.formatInterval(periodicity.interval || 1, periodicity.unit);
+                case 'rrule':
+                    return periodicity.rrule ? RecurrenceRuleHelper.describe(periodicity.rrule) : periodicity.description;
+                case 'cron':
+                    return l10n.t('{0} ({1})', CronExpressionHelper.isValid(periodicity.cron) ? CronExpressionHelper.describe(CronExpressionHelper.parse(periodicity.cron)) : periodicity.description, periodicity.cron);
                 default:
                     // Fallback for old format (should be migrated)
                     if (periodicity.unit === 'one-shot') {
@@ -544,6 +1414,15 @@ export class TaskDetailsProvider {
             }
         };
 
+        const currentRRule = task.periodicity.rrule ? RecurrenceRuleHelper.format(task.periodicity.rrule) : '';
+        const currentCron = task.periodicity.cron || '';
+
+        // Cron tasks list their coming runs, starting with the current due date
+        const cronRuns = PeriodicityHelper.isCron(task.periodicity) && task.status !== 'archived'
+            ? TaskDetailsProvider.getCronRuns(task.periodicity, new Date(task.dueDate.getTime() - 60 * 1000), task.timeZone, 5)
+                .filter((run, index) => !PeriodicityHelper.hasSeriesEnded(task.periodicity, (task.completedOccurrences || 0) + index, run))
+            : [];
+
         const getStatusClass = () => {
             if (TaskStatusUtil.isOverdue(task)) {return 'overdue';}
             if (TaskStatusUtil.isDueSoon(task)) {return 'due-soon';}
@@ -553,7 +1432,7 @@ export class TaskDetailsProvider {
         // Function to convert URLs to clickable links
         const convertUrlsToLinks = (text: string): string => {
             // First escape the text to prevent XSS
-            const escapedText = TaskDetailsProvider.escapeForHtml(text);
+            const escapedText = HtmlUtil.escape(text);
             
             // URL regex pattern that matches http, https, ftp, and www URLs
             const urlRegex = /(https?:\/\/[^\s]+|www\.[^\s]+|ftp:\/\/[^\s]+)/gi;
@@ -709,11 +1588,14 @@ export class TaskDetailsProvider {
 
         const commentsHtml = task.comments.length > 0 
             ? [...task.comments].reverse().map(comment => `
-                <div class="comment ${comment.isValidation ? 'validation-comment' : 'regular-comment'}" data-comment-id="${comment.id}">
+                <div class="comment ${comment.isValidation ? 'validation-comment' : comment.kind ? `${comment.kind}-comment` : 'regular-comment'}" data-comment-id="${comment.id}">
                     <div class="comment-header">
                         <div class="comment-info">
                             <span class="comment-date">${formatDate(comment.date)}</span>
                             ${comment.isValidation ? `<span class="validation-badge">✓ ${l10n.t('Validation')}</span>` : ''}
+                            ${comment.kind === 'missed' ? `<span class="missed-badge">✗ ${l10n.t('Missed')}</span>` : ''}
+                            ${comment.kind === 'skipped' ? `<span class="skipped-badge">⤼ ${l10n.t('Skipped')}</span>` : ''}
+                            ${comment.kind === 'postponed' ? `<span class="postponed-badge">⏭ ${l10n.t('Postponed')}</span>` : ''}
                         </div>
                         <div class="comment-actions">
                             <button class="edit-comment-btn codicon codicon-edit" onclick="editComment('${comment.id}')" title="${l10n.t('Edit comment')}"></button>
@@ -722,7 +1604,7 @@ export class TaskDetailsProvider {
                     </div>
                     <div class="comment-content" id="comment-content-${comment.id}">${convertUrlsToLinks(comment.text)}</div>
                     <div class="comment-edit-form" id="comment-edit-${comment.id}" style="display: none;">
-                        <textarea class="comment-edit-textarea" id="comment-edit-textarea-${comment.id}">${TaskDetailsProvider.escapeForHtml(comment.text)}</textarea>
+                        <textarea class="comment-edit-textarea" id="comment-edit-textarea-${comment.id}">${HtmlUtil.escape(comment.text)}</textarea>
                         <div class="comment-edit-actions">
                             <button class="save-comment-btn" onclick="saveComment('${comment.id}')">
                                 <span class="codicon codicon-check"></span>
@@ -738,6 +1620,65 @@ export class TaskDetailsProvider {
             `).join('')
             : `<p class="no-comments">${l10n.t('No comments yet.')}</p>`;
 
+        const checklist = task.checklist || [];
+        const checklistHtml = checklist.length > 0
+            ? checklist.map((item, index) => `
+                <div class="checklist-item">
+                    <input type="checkbox" class="checklist-checkbox" ${item.done ? 'checked' : ''} onchange="toggleChecklistItem('${item.id}', this.checked)">
+                    <span class="checklist-text ${item.done ? 'checklist-done' : ''}">${HtmlUtil.escape(item.text)}</span>
+                    ${item.required ? `<span class="required-badge">${l10n.t('Required')}</span>` : ''}
+                    <div class="checklist-actions">
+                        <button class="edit-btn codicon codicon-${item.required ? 'star-full' : 'star-empty'}" onclick="toggleChecklistItemRequired('${item.id}', ${!item.required})" title="${item.required ? l10n.t('Make optional') : l10n.t('Make required')}"></button>
+                        <button class="edit-btn codicon codicon-arrow-up" onclick="moveChecklistItem('${item.id}', -1)" title="${l10n.t('Move up')}" ${index === 0 ? 'disabled' : ''}></button>
+                        <button class="edit-btn codicon codicon-arrow-down" onclick="moveChecklistItem('${item.id}', 1)" title="${l10n.t('Move down')}" ${index === checklist.length - 1 ? 'disabled' : ''}></button>
+                        <button class="edit-btn codicon codicon-trash" onclick="deleteChecklistItem('${item.id}')" title="${l10n.t('Delete step')}"></button>
+                    </div>
+                </div>
+            `).join('')
+            : `<p class="no-comments">${l10n.t('No checklist steps yet.')}</p>`;
+
+        const allTasks = TaskDetailsProvider.taskManager?.getAllTasks() || [];
+        const blockingTasks = TaskDetailsProvider.taskManager?.getBlockingTasks(task.id) || [];
+        const prerequisites = (task.dependsOn || [])
+            .map(id => allTasks.find(other => other.id === id))
+            .filter((prerequisite): prerequisite is Task => !!prerequisite);
+        const prerequisitesHtml = prerequisites.length > 0
+            ? prerequisites.map(prerequisite => `
+                <div class="checklist-item">
+                    <span class="codicon codicon-${blockingTasks.includes(prerequisite) ? 'lock' : 'pass'}"></span>
+                    <a href="#" class="checklist-text" onclick="openTask('${prerequisite.id}'); return false;">${HtmlUtil.escape(prerequisite.title)}</a>
+                    <span class="required-badge">${blockingTasks.includes(prerequisite) ? l10n.t('Waiting') : l10n.t('Done')}</span>
+                    <div class="checklist-actions">
+                        <button class="edit-btn codicon codicon-trash" onclick="removeDependency('${prerequisite.id}')" title="${l10n.t('Remove prerequisite')}"></button>
+                    </div>
+                </div>
+            `).join('')
+            : `<p class="no-comments">${l10n.t('No prerequisites.')}</p>`;
+        const prerequisiteCandidates = allTasks
+            .filter(other => other.id !== task.id && other.status === 'active' && !task.dependsOn?.includes(other.id));
+
+        const occurrences = task.occurrences || [];
+        const historyHtml = occurrences.length > 0
+            ? [...occurrences].reverse().map(occurrence => {
+                const comment = task.comments.find(c => c.id === occurrence.commentId);
+                return `
+                <div class="timeline-item timeline-${occurrence.outcome}">
+                    <div class="timeline-marker"></div>
+                    <div class="timeline-content">
+                        <div class="timeline-header">
+                            <span class="timeline-date">${HtmlUtil.escape(task.hasDueTime ? formatDate(occurrence.scheduledDate) : occurrence.scheduledDate.toLocaleDateString(userLocale))}</span>
+                            <span class="timeline-outcome">${TaskDetailsProvider.formatOccurrenceOutcome(occurrence.outcome)}</span>
+                            ${occurrence.lateness !== undefined ? `<span class="timeline-lateness">${TaskDetailsProvider.formatLateness(occurrence.lateness, task.hasDueTime)}</span>` : ''}
+                            ${occurrence.duration !== undefined ? `<span class="timeline-lateness">${l10n.t('Took {0}', TaskStatusUtil.formatDuration(occurrence.duration))}</span>` : ''}
+                            ${occurrence.completedBy ? `<span class="timeline-lateness">${HtmlUtil.escape(l10n.t('By {0}', occurrence.completedBy))}</span>` : ''}
+                        </div>
+                        ${occurrence.completedAt ? `<div class="timeline-completed">${l10n.t('Completed {0}', formatDate(occurrence.completedAt))}</div>` : ''}
+                        ${comment && occurrence.outcome !== 'missed' ? `<div class="timeline-comment">${convertUrlsToLinks(comment.text)}</div>` : ''}
+                    </div>
+                </div>`;
+            }).join('')
+            : `<p class="no-comments">${l10n.t('No occurrences recorded yet.')}</p>`;
+
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -807,6 +1748,24 @@ export class TaskDetailsProvider {
             gap: 10px;
         }
 
+        .task-tags {
+            margin-bottom: 15px;
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .tag-chip {
+            display: inline-block;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 0.85em;
+            margin-right: 4px;
+        }
+
         .task-description #task-description-display {
             flex: 1;
             white-space: pre-wrap;
@@ -884,6 +1843,113 @@ export class TaskDetailsProvider {
             margin-top: 30px;
         }
 
+        .history-section {
+            margin-top: 30px;
+        }
+
+        .checklist-section {
+            margin-top: 30px;
+        }
+
+        .checklist-item {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 4px 0;
+        }
+
+        .checklist-text {
+            flex: 1;
+        }
+
+        .checklist-done {
+            text-decoration: line-through;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .required-badge {
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            padding: 2px 6px;
+            border-radius: 10px;
+            font-size: 0.7em;
+            font-weight: 500;
+        }
+
+        .checklist-actions {
+            display: flex;
+            gap: 2px;
+        }
+
+        .checklist-add {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-top: 10px;
+        }
+
+        .checklist-add .edit-form-input,
+        .checklist-add .edit-form-select {
+            flex: 1;
+        }
+
+        .checklist-required-label {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            white-space: nowrap;
+        }
+
+        .timeline {
+            border-left: 2px solid var(--vscode-panel-border);
+            margin-left: 8px;
+            padding-left: 18px;
+        }
+
+        .timeline-item {
+            position: relative;
+            padding-bottom: 15px;
+        }
+
+        .timeline-marker {
+            position: absolute;
+            left: -25px;
+            top: 4px;
+            width: 10px;
+            height: 10px;
+            border-radius: 50%;
+            background-color: var(--vscode-testing-iconPassed);
+        }
+
+        .timeline-skipped .timeline-marker {
+            background-color: var(--vscode-descriptionForeground);
+        }
+
+        .timeline-missed .timeline-marker {
+            background-color: var(--vscode-errorForeground);
+        }
+
+        .timeline-header {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+        }
+
+        .timeline-date {
+            font-weight: bold;
+        }
+
+        .timeline-outcome,
+        .timeline-lateness,
+        .timeline-completed {
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .timeline-comment {
+            margin-top: 4px;
+        }
+
         .comments-header {
             font-size: 1.2em;
             font-weight: bold;
@@ -994,6 +2060,21 @@ export class TaskDetailsProvider {
             border-left: 3px solid var(--vscode-activityBarBadge-background);
         }
 
+        .missed-comment {
+            border-left: 3px solid var(--vscode-errorForeground);
+            background-color: rgba(255, 0, 0, 0.05);
+        }
+
+        .skipped-comment {
+            border-left: 3px solid var(--vscode-descriptionForeground);
+            background-color: rgba(128, 128, 128, 0.05);
+        }
+
+        .postponed-comment {
+            border-left: 3px solid var(--vscode-editorWarning-foreground);
+            background-color: rgba(255, 165, 0, 0.05);
+        }
+
         .comment-header {
             margin-bottom: 8px;
             display: flex;
@@ -1016,6 +2097,38 @@ export class TaskDetailsProvider {
             font-weight: 500;
         }
 
+        .missed-badge {
+            background-color: var(--vscode-errorForeground);
+            color: var(--vscode-activityBarBadge-foreground);
+            padding: 2px 6px;
+            border-radius: 10px;
+            font-size: 0.7em;
+            font-weight: 500;
+        }
+
+        .skipped-badge {
+            background-color: var(--vscode-descriptionForeground);
+            color: var(--vscode-activityBarBadge-foreground);
+            padding: 2px 6px;
+            border-radius: 10px;
+            font-size: 0.7em;
+            font-weight: 500;
+        }
+
+        .postponed-badge {
+            background-color: var(--vscode-editorWarning-foreground);
+            color: var(--vscode-activityBarBadge-foreground);
+            padding: 2px 6px;
+            border-radius: 10px;
+            font-size: 0.7em;
+            font-weight: 500;
+        }
+
+        .postponed-too-often {
+            color: var(--vscode-editorWarning-foreground);
+            font-weight: 600;
+        }
+
         .comment-date {
             font-size: 0.8em;
             color: var(--vscode-descriptionForeground);
@@ -1118,6 +2231,32 @@ export class TaskDetailsProvider {
             font-weight: bold;
         }
 
+        .cron-runs {
+            margin-top: 4px;
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .cron-preview {
+            margin-top: 6px;
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .cron-preview.invalid {
+            color: var(--vscode-errorForeground);
+        }
+
+        .cron-preview .cron-description {
+            font-weight: 500;
+            color: var(--vscode-editor-foreground);
+        }
+
+        .cron-preview ul {
+            margin: 4px 0 0;
+            padding-left: 20px;
+        }
+
         .periodicity-unit {
             text-transform: capitalize;
         }
@@ -1432,6 +2571,13 @@ export class TaskDetailsProvider {
             align-items: end;
         }
 
+        .edit-due-date-group {
+            display: grid;
+            grid-template-columns: 3fr 2fr;
+            gap: 8px;
+            align-items: end;
+        }
+
         .edit-form-actions {
             display: flex;
             gap: 8px;
@@ -1547,13 +2693,13 @@ export class TaskDetailsProvider {
             <div class="task-header-main">
                 <div class="task-title">
                     <span class="task-icon ${getStatusClass()}">${getStatusClass() === 'overdue' ? '🔴' : getStatusClass() === 'due-soon' ? '🟡' : '✅'}</span>
-                    <span id="task-title-display">${TaskDetailsProvider.escapeForHtml(task.title)}</span>
+                    <span id="task-title-display">${HtmlUtil.escape(task.title)}</span>
                     <button class="edit-btn codicon codicon-edit" onclick="editTaskTitle()" title="${l10n.t('Edit task title')}"></button>
                 </div>
                 <div class="edit-form" id="title-edit-form">
                     <div class="edit-form-group">
                         <label class="edit-form-label">${l10n.t('Task Title')}</label>
-                        <input type="text" id="title-edit-input" class="edit-form-input" value="${TaskDetailsProvider.escapeForHtml(task.title)}">
+                        <input type="text" id="title-edit-input" class="edit-form-input" value="${HtmlUtil.escape(task.title)}">
                     </div>
                     <div class="edit-form-actions">
                         <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditTitle()">${l10n.t('Cancel')}</button>
@@ -1568,13 +2714,33 @@ export class TaskDetailsProvider {
                 <div class="edit-form" id="description-edit-form">
                     <div class="edit-form-group">
                         <label class="edit-form-label">${l10n.t('Task Description')}</label>
-                        <textarea id="description-edit-textarea" class="edit-form-textarea">${TaskDetailsProvider.escapeForHtml(task.description || '')}</textarea>
+                        <textarea id="description-edit-textarea" class="edit-form-textarea">${HtmlUtil.escape(task.description || '')}</textarea>
                     </div>
                     <div class="edit-form-actions">
                         <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditDescription()">${l10n.t('Cancel')}</button>
                         <button class="edit-btn-small edit-btn-primary" onclick="saveTaskDescription()">${l10n.t('Save')}</button>
                     </div>
                 </div>
+
+                <div class="task-tags">
+                    <span id="task-tags-display">
+                        ${task.tags && task.tags.length > 0
+                            ? task.tags.map(tag => `<span class="tag-chip">#${HtmlUtil.escape(tag)}</span>`).join('')
+                            : `<em>${l10n.t('No tags')}</em>`
+                        }
+                    </span>
+                    <button class="edit-btn codicon codicon-edit" onclick="editTaskTags()" title="${l10n.t('Edit tags')}"></button>
+                </div>
+                <div class="edit-form" id="tags-edit-form">
+                    <div class="edit-form-group">
+                        <label class="edit-form-label">${l10n.t('Tags')}</label>
+                        <input type="text" id="tags-edit-input" class="edit-form-input" value="${HtmlUtil.escape((task.tags || []).join(', '))}" placeholder="${l10n.t('e.g. security, ops')}">
+                    </div>
+                    <div class="edit-form-actions">
+                        <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditTags()">${l10n.t('Cancel')}</button>
+                        <button class="edit-btn-small edit-btn-primary" onclick="saveTaskTags()">${l10n.t('Save')}</button>
+                    </div>
+                </div>
             </div>
             <div class="task-header-actions">
                 <button class="secondary-btn jira-secondary-btn" onclick="createJiraIssue()" title="${l10n.t('Create JIRA Issue')}">
@@ -1594,7 +2760,7 @@ export class TaskDetailsProvider {
         </div>
         <div class="time-progress">
             <div class="status-progress-header">
-                <div class="status-badge ${getStatusInfo().class}">${TaskDetailsProvider.escapeForHtml(getStatusInfo().name)}</div>
+                <div class="status-badge ${getStatusInfo().class}">${HtmlUtil.escape(getStatusInfo().name)}</div>
             </div>
             
             <div class="compact-meta">
@@ -1602,7 +2768,22 @@ export class TaskDetailsProvider {
                     <span class="meta-icon">🔄</span>
                     <span class="meta-info">
                         <span id="periodicity-display">
-                            <span class="periodicity-value">${TaskDetailsProvider.escapeForHtml(formatPeriodicity(task.periodicity))}</span>
+                            <span class="periodicity-value">${HtmlUtil.escape(formatPeriodicity(task.periodicity))}</span>
+                            ${task.periodicity.isRecurring && task.periodicity.type !== 'none'
+                                ? `(${[
+                                    ...(TaskDetailsProvider.formatSeriesEnd(task) ? [TaskDetailsProvider.formatSeriesEnd(task)] : []),
+                                    task.anchorMode === 'schedule' ? l10n.t('fixed schedule') : l10n.t('after completion'),
+                                    ...(task.nonWorkingDayPolicy === 'next' ? [l10n.t('rolled to next business day')] : []),
+                                    ...(task.nonWorkingDayPolicy === 'previous' ? [l10n.t('rolled to previous business day')] : []),
+                                    ...(task.catchUpPolicy === 'skipMissed' ? [l10n.t('missed occurrences recorded')] : []),
+                                    ...(task.catchUpPolicy === 'oneAtATime' ? [l10n.t('catching up one period at a time')] : [])
+                                ].join(', ')})`
+                                : ''
+                            }
+                            ${cronRuns.length > 0
+                                ? `<div class="cron-runs">${HtmlUtil.escape(l10n.t('Next runs: {0}', cronRuns.map(run => TaskDetailsProvider.formatCronRun(run, task.timeZone)).join(' · ')))}</div>`
+                                : ''
+                            }
                         </span>
                         <button class="edit-btn codicon codicon-edit" onclick="editTaskPeriodicity()" title="${l10n.t('Edit periodicity')}"></button>
                     </span>
@@ -1611,20 +2792,87 @@ export class TaskDetailsProvider {
                     <span class="meta-icon">⏰</span>
                     <span class="meta-info">
                         <span id="due-date-display">
-                            ${l10n.t('Due')} ${formatDate(task.dueDate)}
+                            ${l10n.t('Due')} ${HtmlUtil.escape(TaskStatusUtil.formatDueDate(task))}
                             ${!task.periodicity.isRecurring || task.periodicity.type === 'none' 
                                 ? ` (${l10n.t('created')} ${formatDate(task.creationDate)})` 
                                 : ''
                             }
                         </span>
                         <button class="edit-btn codicon codicon-edit" onclick="editTaskDueDate()" title="${l10n.t('Edit due date')}"></button>
+                        ${task.status === 'active' ? `<button class="edit-btn codicon codicon-redo" onclick="postponeTask()" title="${l10n.t('Postpone')}"></button>` : ''}
+                    </span>
+                </div>
+                <div class="compact-meta-item">
+                    <span class="meta-icon">🚩</span>
+                    <span class="meta-info">
+                        <span id="priority-display">${HtmlUtil.escape(TaskDetailsProvider.formatTaskPriority(task))}</span>
+                        <button class="edit-btn codicon codicon-edit" onclick="editTaskPriority()" title="${l10n.t('Edit priority')}"></button>
+                    </span>
+                </div>
+                ${task.status !== 'archived' ? `
+                <div class="compact-meta-item">
+                    <span class="meta-icon">${task.status === 'paused' ? '⏸️' : '🌗'}</span>
+                    <span class="meta-info">
+                        <span id="activity-display">${HtmlUtil.escape(TaskDetailsProvider.formatTaskActivity(task))}</span>
+                        ${task.status === 'paused'
+                            ? `<button class="edit-btn codicon codicon-debug-continue" onclick="sendPauseCommand('resumeTask')" title="${l10n.t('Resume task')}"></button>`
+                            : `<button class="edit-btn codicon codicon-debug-pause" onclick="sendPauseCommand('pauseTask')" title="${l10n.t('Pause task')}"></button>`
+                        }
+                        <button class="edit-btn codicon codicon-edit" onclick="editActiveWindow()" title="${l10n.t('Edit active months')}"></button>
+                    </span>
+                </div>` : ''}
+                <div class="compact-meta-item">
+                    <span class="meta-icon">👤</span>
+                    <span class="meta-info">
+                        <span id="assignee-display">${HtmlUtil.escape(TaskDetailsProvider.formatTaskAssignees(task))}</span>
+                        <button class="edit-btn codicon codicon-edit" onclick="editTaskAssignees()" title="${l10n.t('Edit assignees')}"></button>
+                    </span>
+                </div>
+                ${task.status === 'active' ? `
+                <div class="compact-meta-item">
+                    <span class="meta-icon">⏱️</span>
+                    <span class="meta-info">
+                        <span id="timer-display" data-elapsed="${task.timer?.elapsed || 0}" data-running-since="${task.timer?.runningSince?.getTime() || ''}">${TaskDetailsProvider.formatTimer(task)}</span>
+                        ${task.timer?.runningSince
+                            ? `<button class="edit-btn codicon codicon-debug-pause" onclick="sendTimerCommand('pauseTimer')" title="${l10n.t('Pause timer')}"></button>`
+                            : `<button class="edit-btn codicon codicon-play" onclick="sendTimerCommand('startTimer')" title="${task.timer ? l10n.t('Resume timer') : l10n.t('Start timer')}"></button>`
+                        }
+                        ${task.timer ? `<button class="edit-btn codicon codicon-debug-stop" onclick="sendTimerCommand('stopTimer')" title="${l10n.t('Stop timer')}"></button>` : ''}
+                    </span>
+                </div>` : ''}
+                ${task.status === 'active' ? `
+                <div class="compact-meta-item">
+                    <span class="meta-icon">⏭️</span>
+                    <span class="meta-info">
+                        <span id="postponed-display" class="${TaskStatusUtil.isPostponedTooOften(task) ? 'postponed-too-often' : ''}">${HtmlUtil.escape(TaskStatusUtil.formatPostponed(task))}</span>
+                        <button class="edit-btn codicon codicon-edit" onclick="editPostponeLimit()" title="${l10n.t('Edit postponement limit')}"></button>
+                    </span>
+                </div>` : ''}
+                ${TaskDetailsProvider.taskManager.getStores().length > 1 ? `
+                <div class="compact-meta-item">
+                    <span class="meta-icon">🗂️</span>
+                    <span class="meta-info">
+                        <span id="store-display">${HtmlUtil.escape(TaskStatusUtil.formatStore(task.store || 'global'))}</span>
+                        <button class="edit-btn codicon codicon-arrow-swap" onclick="moveTaskToStore()" title="${l10n.t('Move to another store')}"></button>
+                    </span>
+                </div>` : ''}
+                <div class="compact-meta-item">
+                    <span class="meta-icon">⌛</span>
+                    <span class="meta-info">
+                        <span id="duration-display">${HtmlUtil.escape(TaskDetailsProvider.formatDurationStats(task))}</span>
+                        <button class="edit-btn codicon codicon-edit" onclick="editTaskEstimate()" title="${l10n.t('Edit estimated duration')}"></button>
                     </span>
                 </div>
+                ${task.periodicity.isRecurring && task.periodicity.type !== 'none' ? `
+                <div class="compact-meta-item">
+                    <span class="meta-icon">📈</span>
+                    <span class="meta-info" id="occurrence-stats-display">${HtmlUtil.escape(TaskDetailsProvider.formatOccurrenceStats(task))}</span>
+                </div>` : ''}
                 <div class="compact-meta-item">
                     <span class="meta-icon">🔔</span>
                     <span class="meta-info">
                         <span id="notification-display" class="${getNotificationInfo().canReceiveNotifications ? 'notification-active' : 'notification-disabled'}">
-                            ${TaskDetailsProvider.escapeForHtml(getNotificationInfo().message)}
+                            ${HtmlUtil.escape(getNotificationInfo().message)}
                             ${getNotificationInfo().hasState && getNotificationInfo().lastNotificationTime 
                                 ? `<br><small>${l10n.t('Last:')} ${formatDate(getNotificationInfo().lastNotificationTime)}</small>` 
                                 : ''
@@ -1642,7 +2890,7 @@ export class TaskDetailsProvider {
                 <div class="time-circle ${getStatusClass()}">${TaskStatusUtil.getTimeProgress(task)}%</div>
                 <div class="time-details">
                     <div class="time-label">${l10n.t('Time Remaining')}</div>
-                    <div class="time-value">${TaskDetailsProvider.escapeForHtml(getStatusInfo().timeRemaining)}</div>
+                    <div class="time-value">${HtmlUtil.escape(getStatusInfo().timeRemaining)}</div>
                 </div>
             </div>
             <div class="progress-bar">
@@ -1661,11 +2909,48 @@ export class TaskDetailsProvider {
                 <option value="monthly" ${task.periodicity.type === 'monthly' ? 'selected' : ''}>${l10n.t('Monthly')}</option>
                 <option value="yearly" ${task.periodicity.type === 'yearly' ? 'selected' : ''}>${l10n.t('Yearly')}</option>
                 <option value="custom" ${task.periodicity.type === 'custom' ? 'selected' : ''}>${l10n.t('Custom interval')}</option>
+                <option value="rrule" ${task.periodicity.type === 'rrule' ? 'selected' : ''}>${l10n.t('Custom rule (RRULE)')}</option>
+                <option value="cron" ${task.periodicity.type === 'cron' ? 'selected' : ''}>${l10n.t('Cron expression')}</option>
             </select>
         </div>
         <div class="edit-form-group" id="custom-interval-group" style="display: ${task.periodicity.type === 'custom' ? 'block' : 'none'};">
-            <label class="edit-form-label">${l10n.t('Custom Interval (days)')}</label>
-            <input type="number" id="periodicity-interval" class="edit-form-input" value="${TaskDetailsProvider.escapeForHtml(String(task.periodicity.interval || 1))}">
+            <label class="edit-form-label">${l10n.t('Custom Interval')}</label>
+            <div class="edit-periodicity-group">
+                <input type="number" id="periodicity-interval" class="edit-form-input" min="1" value="${HtmlUtil.escape(String(task.periodicity.interval || 1))}">
+                <select id="periodicity-unit" class="edit-form-select">${TaskDetailsProvider.getIntervalUnitOptions(task.periodicity.unit)}</select>
+            </div>
+        </div>
+        <div class="edit-form-group" id="rrule-group" style="display: ${task.periodicity.type === 'rrule' ? 'block' : 'none'};">
+            <label class="edit-form-label">${l10n.t('Recurrence Rule (RRULE)')}</label>
+            <input type="text" id="periodicity-rrule" class="edit-form-input" placeholder="FREQ=MONTHLY;BYDAY=2TU" value="${HtmlUtil.escape(currentRRule)}">
+        </div>
+        <div class="edit-form-group" id="cron-group" style="display: ${task.periodicity.type === 'cron' ? 'block' : 'none'};">
+            <label class="edit-form-label">${l10n.t('Cron Expression')}</label>
+            <input type="text" id="periodicity-cron" class="edit-form-input" placeholder="0 9 * * 1-5" value="${HtmlUtil.escape(currentCron)}" oninput="requestCronPreview()">
+            <div class="cron-preview" id="cron-preview"></div>
+        </div>
+        <div class="edit-form-group" id="anchor-mode-group" style="display: ${task.periodicity.type === 'none' ? 'none' : 'block'};">
+            <label class="edit-form-label">${l10n.t('Next Due Date Calculation')}</label>
+            <select id="anchor-mode" class="edit-form-select">
+                <option value="completion" ${task.anchorMode !== 'schedule' ? 'selected' : ''}>${l10n.t('After completion (from the validation date)')}</option>
+                <option value="schedule" ${task.anchorMode === 'schedule' ? 'selected' : ''}>${l10n.t('Fixed schedule (from the previous due date)')}</option>
+            </select>
+        </div>
+        <div class="edit-form-group" id="series-end-group" style="display: ${task.periodicity.type === 'none' ? 'none' : 'block'};">
+            <label class="edit-form-label">${l10n.t('Ends')}</label>
+            <div class="edit-periodicity-group">
+                <select id="series-end-type" class="edit-form-select" onchange="handleSeriesEndTypeChange()">${TaskDetailsProvider.getSeriesEndOptions(TaskDetailsProvider.getSeriesEndType(task.periodicity))}</select>
+                <input type="date" id="series-until" class="edit-form-input" style="display: ${TaskDetailsProvider.getSeriesEndType(task.periodicity) === 'until' ? 'block' : 'none'};" value="${task.periodicity.until ? TimeZoneUtil.formatDay(task.periodicity.until) : ''}">
+                <input type="number" id="series-count" class="edit-form-input" min="1" style="display: ${TaskDetailsProvider.getSeriesEndType(task.periodicity) === 'count' ? 'block' : 'none'};" placeholder="${l10n.t('Occurrences')}" value="${task.periodicity.count !== undefined ? task.periodicity.count : ''}">
+            </div>
+        </div>
+        <div class="edit-form-group" id="non-working-day-group" style="display: ${task.periodicity.type === 'none' ? 'none' : 'block'};">
+            <label class="edit-form-label">${l10n.t('If Due on a Non-Working Day')}</label>
+            <select id="non-working-day-policy" class="edit-form-select">${TaskDetailsProvider.getNonWorkingDayPolicyOptions(task.nonWorkingDayPolicy)}</select>
+        </div>
+        <div class="edit-form-group" id="catch-up-group" style="display: ${task.periodicity.type === 'none' ? 'none' : 'block'};">
+            <label class="edit-form-label">${l10n.t('When Validated Late')}</label>
+            <select id="catch-up-policy" class="edit-form-select">${TaskDetailsProvider.getCatchUpPolicyOptions(task.catchUpPolicy)}</select>
         </div>
         <div class="edit-form-actions">
             <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditPeriodicity()">${l10n.t('Cancel')}</button>
@@ -1676,14 +2961,136 @@ export class TaskDetailsProvider {
     <div class="edit-form" id="due-date-edit-form">
         <div class="edit-form-group">
             <label class="edit-form-label">${l10n.t('Next Due Date')}</label>
-            <input type="datetime-local" id="due-date-edit-input" class="edit-form-input" value="${TaskDetailsProvider.escapeForHtml(task.dueDate.toISOString().slice(0, 16))}">
+            <div class="edit-due-date-group">
+                <input type="date" id="due-date-edit-input" class="edit-form-input" value="${TimeZoneUtil.formatDay(task.dueDate, task.timeZone)}">
+                <input type="time" id="due-time-edit-input" class="edit-form-input" title="${l10n.t('Due time (optional)')}" value="${task.hasDueTime ? TimeZoneUtil.formatTime(task.dueDate, task.timeZone) : ''}">
+            </div>
+        </div>
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Time Zone (for the due time)')}</label>
+            <input type="text" id="time-zone-edit-input" class="edit-form-input" list="time-zones" placeholder="${HtmlUtil.escape(TimeZoneUtil.getLocalTimeZone())}" value="${HtmlUtil.escape(task.timeZone || '')}">
+            <datalist id="time-zones"></datalist>
+        </div>
+        <div class="edit-form-actions">
+            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditDueDate()">${l10n.t('Cancel')}</button>
+            <button class="edit-btn-small edit-btn-primary" onclick="saveTaskDueDate()">${l10n.t('Save')}</button>
+        </div>
+    </div>
+
+    <div class="edit-form" id="postpone-limit-edit-form">
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Postponements in a row before the task is flagged (empty for the default, 0 to never flag)')}</label>
+            <input type="number" id="postpone-limit-edit-input" class="edit-form-input" min="0" value="${task.postponeLimit ?? ''}">
+        </div>
+        <div class="edit-form-actions">
+            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditPostponeLimit()">${l10n.t('Cancel')}</button>
+            <button class="edit-btn-small edit-btn-primary" onclick="savePostponeLimit()">${l10n.t('Save')}</button>
+        </div>
+    </div>
+
+    <div class="edit-form" id="estimate-edit-form">
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Estimated Duration (minutes)')}</label>
+            <input type="number" id="estimate-edit-input" class="edit-form-input" min="1" value="${task.estimatedDuration || ''}">
+        </div>
+        <div class="edit-form-actions">
+            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditEstimate()">${l10n.t('Cancel')}</button>
+            <button class="edit-btn-small edit-btn-primary" onclick="saveTaskEstimate()">${l10n.t('Save')}</button>
+        </div>
+    </div>
+
+    <div class="edit-form" id="priority-edit-form">
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Priority')}</label>
+            <select id="priority-edit-select" class="edit-form-select">${TaskDetailsProvider.getPriorityOptions(task.priority)}</select>
+        </div>
+        <div class="edit-form-actions">
+            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditPriority()">${l10n.t('Cancel')}</button>
+            <button class="edit-btn-small edit-btn-primary" onclick="saveTaskPriority()">${l10n.t('Save')}</button>
+        </div>
+    </div>
+
+    <div class="edit-form" id="active-window-edit-form">
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Active from')}</label>
+            <select id="active-window-start-select" class="edit-form-select" onchange="handleActiveWindowStartChange('active-window')">${TaskDetailsProvider.getMonthOptions(task.activeWindow?.startMonth)}</select>
+        </div>
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Active until')}</label>
+            <select id="active-window-end-select" class="edit-form-select">${TaskDetailsProvider.getMonthOptions(task.activeWindow?.endMonth)}</select>
+        </div>
+        <div class="edit-form-actions">
+            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditActiveWindow()">${l10n.t('Cancel')}</button>
+            <button class="edit-btn-small edit-btn-primary" onclick="saveActiveWindow()">${l10n.t('Save')}</button>
+        </div>
+    </div>
+
+    <div class="edit-form" id="assignees-edit-form">
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Assignees (in rotation order, separated by commas)')}</label>
+            <input type="text" id="assignees-edit-input" class="edit-form-input" value="${HtmlUtil.escape((task.assignees || []).join(', '))}">
+        </div>
+        <div class="edit-form-group">
+            <label class="edit-form-label">${l10n.t('Rotation')}</label>
+            <select id="rotation-edit-select" class="edit-form-select">${TaskDetailsProvider.getRotationOptions(task.rotationPolicy)}</select>
+        </div>
+        <div class="edit-form-actions">
+            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditAssignees()">${l10n.t('Cancel')}</button>
+            <button class="edit-btn-small edit-btn-primary" onclick="saveTaskAssignees()">${l10n.t('Save')}</button>
+        </div>
+    </div>
+
+    <div class="checklist-section">
+        <div class="comments-header">
+            <span class="comments-icon">🔗</span>
+            ${l10n.t('Prerequisites')}
+        </div>
+        <div class="validate-task-description">
+            ${blockingTasks.length > 0
+                ? TaskStatusUtil.formatBlockedBy(blockingTasks)
+                : l10n.t('Tasks whose current occurrence must be validated before this task can be.')
+            }
+        </div>
+        ${prerequisitesHtml}
+        ${prerequisiteCandidates.length > 0 ? `
+        <div class="checklist-add">
+            <select id="new-dependency-select" class="edit-form-select">
+                ${prerequisiteCandidates.map(other => `<option value="${other.id}">${HtmlUtil.escape(other.title)}</option>`).join('')}
+            </select>
+            <button class="add-comment-btn" onclick="addDependency()">
+                <span class="codicon codicon-add"></span>
+                ${l10n.t('Add Prerequisite')}
+            </button>
+        </div>
+        ` : ''}
+    </div>
+
+    <div class="checklist-section">
+        <div class="comments-header">
+            <span class="comments-icon">☑️</span>
+            ${l10n.t('Checklist')} (${checklist.filter(item => item.done).length}/${checklist.length})
+        </div>
+        <div class="validate-task-description">
+            ${task.periodicity.isRecurring && task.periodicity.type !== 'none'
+                ? l10n.t('Tick off the steps of the current occurrence. The checklist is reset when the task moves to its next due date.')
+                : l10n.t('Tick off the steps of the task.')
+            }
         </div>
-        <div class="edit-form-actions">
-            <button class="edit-btn-small edit-btn-secondary" onclick="cancelEditDueDate()">${l10n.t('Cancel')}</button>
-            <button class="edit-btn-small edit-btn-primary" onclick="saveTaskDueDate()">${l10n.t('Save')}</button>
+        ${checklistHtml}
+        <div class="checklist-add">
+            <input type="text" id="new-checklist-item-input" class="edit-form-input" placeholder="${l10n.t('Add a step...')}">
+            <label class="checklist-required-label">
+                <input type="checkbox" id="new-checklist-item-required">
+                ${l10n.t('Required')}
+            </label>
+            <button class="add-comment-btn" onclick="addChecklistItem()">
+                <span class="codicon codicon-add"></span>
+                ${l10n.t('Add Step')}
+            </button>
         </div>
     </div>
 
+    ${task.status !== 'paused' ? `
     <div class="validate-task-section">
         <div class="validate-task-title">
             <span class="codicon codicon-check"></span>
@@ -1702,6 +3109,34 @@ export class TaskDetailsProvider {
                 ${l10n.t('Validate Task')}
             </button>
         </div>
+    </div>` : ''}
+
+    ${task.periodicity.isRecurring && task.periodicity.type !== 'none' && task.status === 'active' ? `
+    <div class="validate-task-section skip-occurrence-section">
+        <div class="validate-task-title">
+            <span class="codicon codicon-debug-step-over"></span>
+            ${l10n.t('Skip Occurrence')}
+        </div>
+        <div class="validate-task-description">
+            ${l10n.t('Skip this occurrence without marking it as done and set the next due date. A reason is required.')}
+        </div>
+        <div class="add-comment-section">
+            <textarea class="add-comment-textarea" id="skip-reason-textarea" placeholder="${l10n.t('Reason for skipping (e.g. holiday week, freeze period)')}" oninput="handleSkipReasonInput()"></textarea>
+            <button class="add-comment-btn" id="skip-occurrence-btn" onclick="skipOccurrence()" disabled>
+                <span class="codicon codicon-debug-step-over"></span>
+                ${l10n.t('Skip Occurrence')}
+            </button>
+        </div>
+    </div>` : ''}
+
+    <div class="history-section">
+        <div class="comments-header">
+            <span class="comments-icon">🕘</span>
+            ${l10n.t('Occurrence History')} (${occurrences.length})
+        </div>
+        <div class="timeline">
+            ${historyHtml}
+        </div>
     </div>
 
     <div class="comments-section">
@@ -1715,6 +3150,9 @@ export class TaskDetailsProvider {
             <div class="filter-toggle">
                 <button class="filter-option active" id="filter-all" onclick="filterComments('all')">${l10n.t('All')}</button>
                 <button class="filter-option" id="filter-validation" onclick="filterComments('validation')">${l10n.t('Validation')} (${task.comments.filter(c => c.isValidation).length})</button>
+                <button class="filter-option" id="filter-skipped" onclick="filterComments('skipped')">${l10n.t('Skipped')} (${task.comments.filter(c => c.kind === 'skipped').length})</button>
+                <button class="filter-option" id="filter-missed" onclick="filterComments('missed')">${l10n.t('Missed')} (${task.comments.filter(c => c.kind === 'missed').length})</button>
+                <button class="filter-option" id="filter-postponed" onclick="filterComments('postponed')">${l10n.t('Postponed')} (${task.comments.filter(c => c.kind === 'postponed').length})</button>
             </div>
             <span style="color: var(--vscode-descriptionForeground); margin-left: auto;" id="comment-counter">
                 ${l10n.t('{0} comments', task.comments.length)}
@@ -1735,6 +3173,8 @@ export class TaskDetailsProvider {
     <script>
         const vscode = acquireVsCodeApi();
         const taskId = '${task.id}';
+        const intervalDescriptions = ${TaskDetailsProvider.getIntervalDescriptionsScript()};
+        ${TaskDetailsProvider.getTimeZoneListScript()}
         
         // Add comment functionality
         function addComment() {
@@ -1870,6 +3310,25 @@ export class TaskDetailsProvider {
             document.getElementById('description-edit-form').classList.remove('show');
         }
 
+        // Edit task tags functionality
+        function editTaskTags() {
+            document.getElementById('tags-edit-form').classList.add('show');
+            document.getElementById('tags-edit-input').focus();
+        }
+
+        function cancelEditTags() {
+            document.getElementById('tags-edit-form').classList.remove('show');
+        }
+
+        function saveTaskTags() {
+            vscode.postMessage({
+                command: 'updateTask',
+                taskId: taskId,
+                taskData: { tags: document.getElementById('tags-edit-input').value }
+            });
+            document.getElementById('tags-edit-form').classList.remove('show');
+        }
+
         // Edit task periodicity functionality
         function editTaskPeriodicity() {
             document.getElementById('periodicity-edit-form').classList.add('show');
@@ -1879,23 +3338,54 @@ export class TaskDetailsProvider {
             document.getElementById('periodicity-edit-form').classList.remove('show');
             document.getElementById('periodicity-type').value = '${TaskDetailsProvider.escapeForJavaScript(task.periodicity.type)}';
             document.getElementById('periodicity-interval').value = '${TaskDetailsProvider.escapeForJavaScript(String(task.periodicity.interval || 1))}';
+            document.getElementById('periodicity-unit').value = '${task.periodicity.unit || 'day'}';
+            document.getElementById('periodicity-rrule').value = '${TaskDetailsProvider.escapeForJavaScript(currentRRule)}';
+            document.getElementById('periodicity-cron').value = '${TaskDetailsProvider.escapeForJavaScript(currentCron)}';
+            document.getElementById('anchor-mode').value = '${task.anchorMode === 'schedule' ? 'schedule' : 'completion'}';
+            document.getElementById('non-working-day-policy').value = '${task.nonWorkingDayPolicy || 'keep'}';
+            document.getElementById('catch-up-policy').value = '${task.catchUpPolicy || 'collapse'}';
+            document.getElementById('series-end-type').value = '${TaskDetailsProvider.getSeriesEndType(task.periodicity)}';
+            document.getElementById('series-until').value = '${task.periodicity.until ? TimeZoneUtil.formatDay(task.periodicity.until) : ''}';
+            document.getElementById('series-count').value = '${task.periodicity.count !== undefined ? task.periodicity.count : ''}';
             handlePeriodicityTypeChange();
         }
 
         function handlePeriodicityTypeChange() {
             const typeSelect = document.getElementById('periodicity-type');
             const customGroup = document.getElementById('custom-interval-group');
+            const rruleGroup = document.getElementById('rrule-group');
+            const cronGroup = document.getElementById('cron-group');
+            const anchorModeGroup = document.getElementById('anchor-mode-group');
+            const nonWorkingDayGroup = document.getElementById('non-working-day-group');
+            const catchUpGroup = document.getElementById('catch-up-group');
+            const seriesEndGroup = document.getElementById('series-end-group');
             
             if (typeSelect.value === 'custom') {
                 customGroup.style.display = 'block';
             } else {
                 customGroup.style.display = 'none';
             }
+
+            rruleGroup.style.display = typeSelect.value === 'rrule' ? 'block' : 'none';
+            cronGroup.style.display = typeSelect.value === 'cron' ? 'block' : 'none';
+            if (typeSelect.value === 'cron') {
+                requestCronPreview();
+            }
+            anchorModeGroup.style.display = typeSelect.value === 'none' ? 'none' : 'block';
+            nonWorkingDayGroup.style.display = typeSelect.value === 'none' ? 'none' : 'block';
+            catchUpGroup.style.display = typeSelect.value === 'none' ? 'none' : 'block';
+            seriesEndGroup.style.display = typeSelect.value === 'none' ? 'none' : 'block';
+            handleSeriesEndTypeChange();
         }
 
+        ${TaskDetailsProvider.getSeriesEndScript()}
+
+        ${TaskDetailsProvider.getCronPreviewScript('periodicity-cron', 'time-zone-edit-input')}
+
         function saveTaskPeriodicity() {
             const newType = document.getElementById('periodicity-type').value;
             const newInterval = parseInt(document.getElementById('periodicity-interval').value) || 1;
+            const newUnit = document.getElementById('periodicity-unit').value;
             
             if (newType) {
                 const periodicityData = {
@@ -1905,7 +3395,14 @@ export class TaskDetailsProvider {
 
                 if (newType === 'custom') {
                     periodicityData.interval = newInterval;
-                    periodicityData.description = '${l10n.t('Every {0} days', '{newInterval}')}';
+                    periodicityData.unit = newUnit;
+                    periodicityData.description = intervalDescriptions[newUnit].replace('{0}', newInterval);
+                } else if (newType === 'rrule') {
+                    // The rule is parsed and validated by the extension
+                    periodicityData.rruleText = document.getElementById('periodicity-rrule').value.trim();
+                } else if (newType === 'cron') {
+                    // The expression is parsed and validated by the extension
+                    periodicityData.cronText = document.getElementById('periodicity-cron').value.trim();
                 } else {
                     // Set description based on type
                     switch (newType) {
@@ -1927,11 +3424,16 @@ export class TaskDetailsProvider {
                     }
                 }
 
+                Object.assign(periodicityData, getSeriesEnd());
+
                 vscode.postMessage({
                     command: 'updateTask',
                     taskId: taskId,
                     taskData: { 
-                        periodicity: periodicityData
+                        periodicity: periodicityData,
+                        anchorMode: document.getElementById('anchor-mode').value,
+                        nonWorkingDayPolicy: document.getElementById('non-working-day-policy').value,
+                        catchUpPolicy: document.getElementById('catch-up-policy').value
                     }
                 });
                 document.getElementById('periodicity-edit-form').classList.remove('show');
@@ -1949,6 +3451,105 @@ export class TaskDetailsProvider {
             document.getElementById('validate-comment-textarea').value = '';
         }
 
+        // Checklist functionality
+        function addDependency() {
+            vscode.postMessage({
+                command: 'addDependency',
+                taskId: taskId,
+                dependencyId: document.getElementById('new-dependency-select').value
+            });
+        }
+
+        function removeDependency(dependencyId) {
+            vscode.postMessage({
+                command: 'removeDependency',
+                taskId: taskId,
+                dependencyId: dependencyId
+            });
+        }
+
+        function openTask(otherTaskId) {
+            vscode.postMessage({
+                command: 'openTask',
+                taskId: otherTaskId
+            });
+        }
+
+        function addChecklistItem() {
+            const input = document.getElementById('new-checklist-item-input');
+            const text = input.value.trim();
+            if (!text) {
+                return;
+            }
+            vscode.postMessage({
+                command: 'addChecklistItem',
+                taskId: taskId,
+                text: text,
+                required: document.getElementById('new-checklist-item-required').checked
+            });
+            input.value = '';
+        }
+
+        function toggleChecklistItem(itemId, done) {
+            vscode.postMessage({
+                command: 'updateChecklistItem',
+                taskId: taskId,
+                itemId: itemId,
+                changes: { done: done }
+            });
+        }
+
+        function toggleChecklistItemRequired(itemId, required) {
+            vscode.postMessage({
+                command: 'updateChecklistItem',
+                taskId: taskId,
+                itemId: itemId,
+                changes: { required: required }
+            });
+        }
+
+        function moveChecklistItem(itemId, offset) {
+            vscode.postMessage({
+                command: 'moveChecklistItem',
+                taskId: taskId,
+                itemId: itemId,
+                offset: offset
+            });
+        }
+
+        function deleteChecklistItem(itemId) {
+            vscode.postMessage({
+                command: 'deleteChecklistItem',
+                taskId: taskId,
+                itemId: itemId
+            });
+        }
+
+        document.getElementById('new-checklist-item-input').addEventListener('keydown', function(e) {
+            if (e.key === 'Enter') {
+                addChecklistItem();
+            }
+        });
+
+        // Skip occurrence functionality (only rendered for active recurring tasks)
+        function handleSkipReasonInput() {
+            document.getElementById('skip-occurrence-btn').disabled = !document.getElementById('skip-reason-textarea').value.trim();
+        }
+
+        function skipOccurrence() {
+            const reason = document.getElementById('skip-reason-textarea').value.trim();
+            if (!reason) {
+                return;
+            }
+            vscode.postMessage({
+                command: 'skipOccurrence',
+                taskId: taskId,
+                reason: reason
+            });
+            document.getElementById('skip-reason-textarea').value = '';
+            handleSkipReasonInput();
+        }
+
         // Handle Enter key in validate comment textarea
         document.getElementById('validate-comment-textarea').addEventListener('keydown', function(e) {
             if (e.key === 'Enter' && e.ctrlKey) {
@@ -1967,21 +3568,16 @@ export class TaskDetailsProvider {
         // Filter functionality
         function filterComments(filter) {
             const comments = document.querySelectorAll('.comment');
-            const allBtn = document.getElementById('filter-all');
-            const validationBtn = document.getElementById('filter-validation');
+            const filterClasses = { validation: 'validation-comment', skipped: 'skipped-comment', missed: 'missed-comment', postponed: 'postponed-comment' };
             
             // Update button states
-            if (filter === 'all') {
-                allBtn.classList.add('active');
-                validationBtn.classList.remove('active');
-            } else {
-                allBtn.classList.remove('active');
-                validationBtn.classList.add('active');
-            }
+            ['all', 'validation', 'skipped', 'missed', 'postponed'].forEach(name => {
+                document.getElementById('filter-' + name).classList.toggle('active', name === filter);
+            });
             
             // Filter comments
             comments.forEach(comment => {
-                if (filter === 'all' || (filter === 'validation' && comment.classList.contains('validation-comment'))) {
+                if (filter === 'all' || comment.classList.contains(filterClasses[filter])) {
                     comment.classList.remove('hidden');
                 } else {
                     comment.classList.add('hidden');
@@ -2003,21 +3599,179 @@ export class TaskDetailsProvider {
         function cancelEditDueDate() {
             document.getElementById('due-date-edit-form').classList.remove('show');
             // Reset to original value
-            document.getElementById('due-date-edit-input').value = '${TaskDetailsProvider.escapeForJavaScript(task.dueDate.toISOString().slice(0, 16))}';
+            document.getElementById('due-date-edit-input').value = '${TimeZoneUtil.formatDay(task.dueDate, task.timeZone)}';
+            document.getElementById('due-time-edit-input').value = '${task.hasDueTime ? TimeZoneUtil.formatTime(task.dueDate, task.timeZone) : ''}';
+            document.getElementById('time-zone-edit-input').value = '${TaskDetailsProvider.escapeForJavaScript(task.timeZone || '')}';
         }
 
         function saveTaskDueDate() {
             const newDueDate = document.getElementById('due-date-edit-input').value;
             if (newDueDate) {
+                // The extension converts the day, time and time zone to the due instant
                 vscode.postMessage({
                     command: 'updateTask',
                     taskId: taskId,
-                    taskData: { dueDate: new Date(newDueDate).toISOString() }
+                    taskData: {
+                        dueDate: newDueDate,
+                        dueTime: document.getElementById('due-time-edit-input').value,
+                        timeZone: document.getElementById('time-zone-edit-input').value.trim()
+                    }
                 });
                 document.getElementById('due-date-edit-form').classList.remove('show');
             }
         }
 
+        // Timer functionality: the display ticks while the timer is running
+        function sendTimerCommand(command) {
+            vscode.postMessage({
+                command: command,
+                taskId: taskId
+            });
+        }
+
+        const timerDisplay = document.getElementById('timer-display');
+        if (timerDisplay && timerDisplay.dataset.runningSince) {
+            setInterval(() => {
+                const trackedSeconds = Math.floor((Number(timerDisplay.dataset.elapsed) + Date.now() - Number(timerDisplay.dataset.runningSince)) / 1000);
+                const hours = Math.floor(trackedSeconds / 3600);
+                const minutes = String(Math.floor((trackedSeconds % 3600) / 60)).padStart(2, '0');
+                const seconds = String(trackedSeconds % 60).padStart(2, '0');
+                timerDisplay.textContent = '${TaskDetailsProvider.escapeForJavaScript(l10n.t('Timer running: {0}', '{0}'))}'.replace('{0}', hours + ':' + minutes + ':' + seconds);
+            }, 1000);
+        }
+
+        // Postpone functionality
+        function postponeTask() {
+            vscode.postMessage({
+                command: 'postponeTask',
+                taskId: taskId
+            });
+        }
+
+        // Store functionality
+        function moveTaskToStore() {
+            vscode.postMessage({
+                command: 'moveTaskToStore',
+                taskId: taskId
+            });
+        }
+
+        function editPostponeLimit() {
+            document.getElementById('postpone-limit-edit-form').classList.add('show');
+            document.getElementById('postpone-limit-edit-input').focus();
+        }
+
+        function cancelEditPostponeLimit() {
+            document.getElementById('postpone-limit-edit-form').classList.remove('show');
+            document.getElementById('postpone-limit-edit-input').value = '${task.postponeLimit ?? ''}';
+        }
+
+        function savePostponeLimit() {
+            vscode.postMessage({
+                command: 'updateTask',
+                taskId: taskId,
+                taskData: { postponeLimit: document.getElementById('postpone-limit-edit-input').value }
+            });
+            document.getElementById('postpone-limit-edit-form').classList.remove('show');
+        }
+
+        // Edit estimated duration functionality
+        function editTaskEstimate() {
+            document.getElementById('estimate-edit-form').classList.add('show');
+            document.getElementById('estimate-edit-input').focus();
+        }
+
+        function cancelEditEstimate() {
+            document.getElementById('estimate-edit-form').classList.remove('show');
+            document.getElementById('estimate-edit-input').value = '${task.estimatedDuration || ''}';
+        }
+
+        function saveTaskEstimate() {
+            vscode.postMessage({
+                command: 'updateTask',
+                taskId: taskId,
+                taskData: { estimatedDuration: document.getElementById('estimate-edit-input').value }
+            });
+            document.getElementById('estimate-edit-form').classList.remove('show');
+        }
+
+        // Edit task priority functionality
+        function editTaskPriority() {
+            document.getElementById('priority-edit-form').classList.add('show');
+            document.getElementById('priority-edit-select').focus();
+        }
+
+        function cancelEditPriority() {
+            document.getElementById('priority-edit-form').classList.remove('show');
+            document.getElementById('priority-edit-select').value = '${task.priority || 'normal'}';
+        }
+
+        function saveTaskPriority() {
+            vscode.postMessage({
+                command: 'updateTask',
+                taskId: taskId,
+                taskData: { priority: document.getElementById('priority-edit-select').value }
+            });
+            document.getElementById('priority-edit-form').classList.remove('show');
+        }
+
+        // Pause and resume functionality
+        function sendPauseCommand(command) {
+            vscode.postMessage({
+                command: command,
+                taskId: taskId
+            });
+        }
+
+        // Edit active months functionality
+        function editActiveWindow() {
+            document.getElementById('active-window-edit-form').classList.add('show');
+            document.getElementById('active-window-start-select').focus();
+        }
+
+        function cancelEditActiveWindow() {
+            document.getElementById('active-window-edit-form').classList.remove('show');
+            document.getElementById('active-window-start-select').value = '${task.activeWindow?.startMonth || ''}';
+            document.getElementById('active-window-end-select').value = '${task.activeWindow?.endMonth || ''}';
+        }
+
+        function saveActiveWindow() {
+            const startMonth = document.getElementById('active-window-start-select').value;
+            const endMonth = document.getElementById('active-window-end-select').value;
+            vscode.postMessage({
+                command: 'updateTask',
+                taskId: taskId,
+                taskData: { activeWindow: startMonth && endMonth ? { startMonth: startMonth, endMonth: endMonth } : null }
+            });
+            document.getElementById('active-window-edit-form').classList.remove('show');
+        }
+
+        ${TaskDetailsProvider.getActiveWindowScript()}
+
+        // Edit task assignees functionality
+        function editTaskAssignees() {
+            document.getElementById('assignees-edit-form').classList.add('show');
+            document.getElementById('assignees-edit-input').focus();
+        }
+
+        function cancelEditAssignees() {
+            document.getElementById('assignees-edit-form').classList.remove('show');
+            document.getElementById('assignees-edit-input').value = '${TaskDetailsProvider.escapeForJavaScript((task.assignees || []).join(', '))}';
+            document.getElementById('rotation-edit-select').value = '${task.rotationPolicy || 'roundRobin'}';
+        }
+
+        function saveTaskAssignees() {
+            vscode.postMessage({
+                command: 'updateTask',
+                taskId: taskId,
+                taskData: {
+                    assignees: document.getElementById('assignees-edit-input').value,
+                    rotationPolicy: document.getElementById('rotation-edit-select').value
+                }
+            });
+            document.getElementById('assignees-edit-form').classList.remove('show');
+        }
+
         // Create meeting functionality
         function createMeeting() {
             vscode.postMessage({
@@ -2041,7 +3795,10 @@ export class TaskDetailsProvider {
     /**
      * Generates the HTML content for the create task webview
      */
-    private static getCreateTaskWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+    private static getCreateTaskWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, templateId?: string): string {
+        const existingTags = TaskDetailsProvider.taskManager ? TaskDetailsProvider.taskManager.getAllTags() : [];
+        const templates = TaskDetailsProvider.taskManager ? TaskDetailsProvider.taskManager.getTemplates() : [];
+
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -2095,6 +3852,12 @@ export class TaskDetailsProvider {
             color: var(--vscode-editor-foreground);
         }
 
+        .form-help {
+            margin-top: 4px;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+
         .form-input {
             width: 100%;
             padding: 8px 12px;
@@ -2151,6 +3914,19 @@ export class TaskDetailsProvider {
             align-items: end;
         }
 
+        .due-date-group {
+            display: grid;
+            grid-template-columns: 3fr 2fr;
+            gap: 10px;
+            align-items: end;
+        }
+
+        .active-window-group {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 10px;
+        }
+
         .form-actions {
             display: flex;
             gap: 10px;
@@ -2212,6 +3988,17 @@ export class TaskDetailsProvider {
     </div>
 
     <form id="create-task-form">
+        ${templates.length > 0 ? `
+        <div class="form-group">
+            <label class="form-label" for="task-template">${l10n.t('Template')}</label>
+            <select id="task-template" class="form-select" onchange="applyTemplate()">
+                <option value="">${l10n.t('Blank task')}</option>
+                ${templates.map(template => `<option value="${template.id}" ${template.id === templateId ? 'selected' : ''}>${HtmlUtil.escape(template.name)}</option>`).join('')}
+            </select>
+            <div class="form-help" id="template-help"></div>
+        </div>
+        ` : ''}
+
         <div class="form-group">
             <label class="form-label" for="task-title">
                 ${l10n.t('Task Title')} <span class="required">*</span>
@@ -2228,6 +4015,50 @@ export class TaskDetailsProvider {
             <div class="error-message" id="description-error">${l10n.t('Please enter a task description')}</div>
         </div>
 
+        <div class="form-group">
+            <label class="form-label" for="task-tags">${l10n.t('Tags')}</label>
+            <input type="text" id="task-tags" class="form-input" placeholder="${l10n.t('e.g. security, ops')}">
+            <div class="form-help">${l10n.t('Separate tags with commas or spaces.')}${existingTags.length > 0 ? ' ' + l10n.t('Existing tags: {0}', existingTags.map(tag => HtmlUtil.escape(tag)).join(', ')) : ''}</div>
+        </div>
+
+        <div class="form-group">
+            <label class="form-label" for="task-priority">${l10n.t('Priority')}</label>
+            <select id="task-priority" class="form-select">${TaskDetailsProvider.getPriorityOptions()}</select>
+        </div>
+
+        <div class="form-group">
+            <label class="form-label" for="task-estimate">${l10n.t('Estimated Duration (minutes)')}</label>
+            <input type="number" id="task-estimate" class="form-input" min="1" placeholder="${l10n.t('e.g. 30')}">
+        </div>
+
+        <div class="form-group">
+            <label class="form-label" for="task-active-window-start-select">${l10n.t('Active Months')}</label>
+            <div class="active-window-group">
+                <select id="task-active-window-start-select" class="form-select" onchange="handleActiveWindowStartChange('task-active-window')">${TaskDetailsProvider.getMonthOptions()}</select>
+                <select id="task-active-window-end-select" class="form-select">${TaskDetailsProvider.getMonthOptions()}</select>
+            </div>
+            <div class="form-help">${l10n.t('Seasonal tasks are paused outside these months, e.g. October to March.')}</div>
+        </div>
+
+        <div class="form-group">
+            <label class="form-label" for="task-assignees">${l10n.t('Assignees')}</label>
+            <input type="text" id="task-assignees" class="form-input" placeholder="${l10n.t('e.g. Alice, Bob, Carol')}">
+            <div class="form-help">${l10n.t('Separate assignees with commas, in rotation order.')}</div>
+        </div>
+
+        <div class="form-group">
+            <label class="form-label" for="task-rotation">${l10n.t('Rotation')}</label>
+            <select id="task-rotation" class="form-select">${TaskDetailsProvider.getRotationOptions()}</select>
+        </div>
+
+        ${TaskDetailsProvider.taskManager.getStores().length > 1 ? `
+        <div class="form-group">
+            <label class="form-label" for="task-store">${l10n.t('Store')}</label>
+            <select id="task-store" class="form-select">${TaskDetailsProvider.getStoreOptions(TaskStatusUtil.getDefaultStore(TaskDetailsProvider.taskManager.getStores()))}</select>
+            <div class="form-help">${l10n.t('Global tasks show up in every window, workspace tasks only in this workspace.')}</div>
+        </div>
+        ` : ''}
+
         <div class="form-group">
             <label class="form-label">${l10n.t('Periodicity')} <span class="required">*</span></label>
             <select id="periodicity-type" class="form-select" required onchange="handlePeriodicityTypeChange()">
@@ -2238,26 +4069,85 @@ export class TaskDetailsProvider {
                 <option value="monthly">${l10n.t('Monthly')}</option>
                 <option value="yearly">${l10n.t('Yearly')}</option>
                 <option value="custom">${l10n.t('Custom interval')}</option>
+                <option value="rrule">${l10n.t('Custom rule (RRULE)')}</option>
+                <option value="cron">${l10n.t('Cron expression')}</option>
             </select>
             <div class="error-message" id="periodicity-error">${l10n.t('Please select a periodicity type')}</div>
         </div>
 
+        <div class="form-group" id="rrule-group" style="display: none;">
+            <label class="form-label" for="rrule-text">
+                ${l10n.t('Recurrence Rule (RRULE)')} <span class="required">*</span>
+            </label>
+            <input type="text" id="rrule-text" class="form-input" placeholder="FREQ=MONTHLY;BYDAY=2TU">
+            <div class="error-message" id="rrule-error">${l10n.t('Please enter a recurrence rule')}</div>
+        </div>
+
+        <div class="form-group" id="cron-group" style="display: none;">
+            <label class="form-label" for="cron-text">
+                ${l10n.t('Cron Expression')} <span class="required">*</span>
+            </label>
+            <input type="text" id="cron-text" class="form-input" placeholder="0 9 * * 1-5" oninput="requestCronPreview()">
+            <div class="form-help">${l10n.t('minute hour day-of-month month day-of-week. The task is first due at the first run from the due date.')}</div>
+            <div class="cron-preview" id="cron-preview"></div>
+            <div class="error-message" id="cron-error">${l10n.t('Please enter a cron expression')}</div>
+        </div>
+
+        <div class="form-group" id="anchor-mode-group" style="display: none;">
+            <label class="form-label" for="anchor-mode">${l10n.t('Next Due Date Calculation')}</label>
+            <select id="anchor-mode" class="form-select">
+                <option value="completion">${l10n.t('After completion (from the validation date)')}</option>
+                <option value="schedule">${l10n.t('Fixed schedule (from the previous due date)')}</option>
+            </select>
+        </div>
+
+        <div class="form-group" id="series-end-group" style="display: none;">
+            <label class="form-label" for="series-end-type">${l10n.t('Ends')}</label>
+            <div class="periodicity-group">
+                <select id="series-end-type" class="form-select" onchange="handleSeriesEndTypeChange()">${TaskDetailsProvider.getSeriesEndOptions('never')}</select>
+                <input type="date" id="series-until" class="form-input" style="display: none;">
+                <input type="number" id="series-count" class="form-input" min="1" style="display: none;" placeholder="${l10n.t('Occurrences')}">
+            </div>
+        </div>
+
+        <div class="form-group" id="non-working-day-group" style="display: none;">
+            <label class="form-label" for="non-working-day-policy">${l10n.t('If Due on a Non-Working Day')}</label>
+            <select id="non-working-day-policy" class="form-select">${TaskDetailsProvider.getNonWorkingDayPolicyOptions()}</select>
+        </div>
+
+        <div class="form-group" id="catch-up-group" style="display: none;">
+            <label class="form-label" for="catch-up-policy">${l10n.t('When Validated Late')}</label>
+            <select id="catch-up-policy" class="form-select">${TaskDetailsProvider.getCatchUpPolicyOptions()}</select>
+        </div>
+
         <div class="form-group" id="custom-interval-group" style="display: none;">
             <label class="form-label" for="custom-interval">
-                ${l10n.t('Custom Interval (days)')} <span class="required">*</span>
+                ${l10n.t('Custom Interval')} <span class="required">*</span>
             </label>
-            <input type="number" id="custom-interval" class="form-input" min="1" placeholder="${l10n.t('Number of days')}">
-            <div class="error-message" id="custom-interval-error">${l10n.t('Please enter a valid number of days')}</div>
+            <div class="periodicity-group">
+                <input type="number" id="custom-interval" class="form-input" min="1" placeholder="${l10n.t('Interval')}">
+                <select id="custom-interval-unit" class="form-select">${TaskDetailsProvider.getIntervalUnitOptions()}</select>
+            </div>
+            <div class="error-message" id="custom-interval-error">${l10n.t('Please enter a valid interval')}</div>
         </div>
 
         <div class="form-group">
             <label class="form-label" for="due-date">
                 ${l10n.t('Next Due Date')} <span class="required">*</span>
             </label>
-            <input type="datetime-local" id="due-date" class="form-input" required>
+            <div class="due-date-group">
+                <input type="date" id="due-date" class="form-input" required>
+                <input type="time" id="due-time" class="form-input" title="${l10n.t('Due time (optional)')}">
+            </div>
             <div class="error-message" id="due-date-error">${l10n.t('Please select a due date')}</div>
         </div>
 
+        <div class="form-group">
+            <label class="form-label" for="time-zone">${l10n.t('Time Zone (for the due time)')}</label>
+            <input type="text" id="time-zone" class="form-input" list="time-zones" placeholder="${HtmlUtil.escape(TimeZoneUtil.getLocalTimeZone())}">
+            <datalist id="time-zones"></datalist>
+        </div>
+
         <div class="form-actions">
             <button type="button" class="btn btn-secondary" onclick="cancelCreate()">
                 <span class="codicon codicon-close"></span>
@@ -2272,43 +4162,123 @@ export class TaskDetailsProvider {
 
     <script>
         const vscode = acquireVsCodeApi();
+        const intervalDescriptions = ${TaskDetailsProvider.getIntervalDescriptionsScript()};
         
-        // Set default due date to tomorrow
+        // Set default due date to tomorrow (no due time)
         const tomorrow = new Date();
         tomorrow.setDate(tomorrow.getDate() + 1);
-        const localDateTime = new Date(tomorrow.getTime() - tomorrow.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
-        document.getElementById('due-date').value = localDateTime;
+        const localDate = new Date(tomorrow.getTime() - tomorrow.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+        document.getElementById('due-date').value = localDate;
+        ${TaskDetailsProvider.getTimeZoneListScript()}
         
         // Form submission
         document.getElementById('create-task-form').addEventListener('submit', function(e) {
             e.preventDefault();
             createTask();
         });
+
+        ${TaskDetailsProvider.getActiveWindowScript()}
+
+        const templates = ${TaskDetailsProvider.getTemplatesScript(templates)};
+
+        function getSelectedTemplate() {
+            const templateSelect = document.getElementById('task-template');
+            return templateSelect ? templates.find(template => template.id === templateSelect.value) : undefined;
+        }
+
+        // Prefill the form from the chosen template, selecting the first part of the title to fill in
+        function applyTemplate() {
+            const template = getSelectedTemplate();
+            if (!template) {
+                document.getElementById('template-help').textContent = '';
+                return;
+            }
+
+            document.getElementById('task-title').value = template.titlePattern;
+            document.getElementById('task-description').value = template.description;
+            document.getElementById('task-tags').value = template.tags;
+            document.getElementById('task-priority').value = template.priority;
+            document.getElementById('periodicity-type').value = template.periodicityType;
+            document.getElementById('custom-interval').value = template.interval;
+            document.getElementById('custom-interval-unit').value = template.unit;
+            document.getElementById('rrule-text').value = template.rruleText;
+            document.getElementById('cron-text').value = template.cronText;
+            document.getElementById('anchor-mode').value = template.anchorMode;
+            document.getElementById('non-working-day-policy').value = template.nonWorkingDayPolicy;
+            document.getElementById('catch-up-policy').value = template.catchUpPolicy;
+            document.getElementById('series-end-type').value = template.count ? 'count' : 'never';
+            document.getElementById('series-count').value = template.count;
+            handlePeriodicityTypeChange();
+
+            document.getElementById('template-help').textContent = template.checklistCount > 0
+                ? '${TaskDetailsProvider.escapeForJavaScript(l10n.t('The task will get the {0} checklist steps of the template.', '{0}'))}'.replace('{0}', template.checklistCount)
+                : '';
+
+            const titleInput = document.getElementById('task-title');
+            const placeholder = /\\{[^}]+\\}/.exec(template.titlePattern);
+            titleInput.focus();
+            if (placeholder) {
+                titleInput.setSelectionRange(placeholder.index, placeholder.index + placeholder[0].length);
+            }
+        }
+
+        if (getSelectedTemplate()) {
+            applyTemplate();
+        }
         
         function handlePeriodicityTypeChange() {
             const typeSelect = document.getElementById('periodicity-type');
             const customGroup = document.getElementById('custom-interval-group');
+            const rruleGroup = document.getElementById('rrule-group');
+            const cronGroup = document.getElementById('cron-group');
+            const anchorModeGroup = document.getElementById('anchor-mode-group');
+            const nonWorkingDayGroup = document.getElementById('non-working-day-group');
+            const catchUpGroup = document.getElementById('catch-up-group');
+            const seriesEndGroup = document.getElementById('series-end-group');
             
             if (typeSelect.value === 'custom') {
                 customGroup.style.display = 'block';
             } else {
                 customGroup.style.display = 'none';
             }
+
+            rruleGroup.style.display = typeSelect.value === 'rrule' ? 'block' : 'none';
+            cronGroup.style.display = typeSelect.value === 'cron' ? 'block' : 'none';
+            if (typeSelect.value === 'cron') {
+                requestCronPreview();
+            }
+            anchorModeGroup.style.display = typeSelect.value && typeSelect.value !== 'none' ? 'block' : 'none';
+            nonWorkingDayGroup.style.display = typeSelect.value && typeSelect.value !== 'none' ? 'block' : 'none';
+            catchUpGroup.style.display = typeSelect.value && typeSelect.value !== 'none' ? 'block' : 'none';
+            seriesEndGroup.style.display = typeSelect.value && typeSelect.value !== 'none' ? 'block' : 'none';
+            handleSeriesEndTypeChange();
         }
 
+        ${TaskDetailsProvider.getSeriesEndScript()}
+
+        ${TaskDetailsProvider.getCronPreviewScript('cron-text', 'time-zone')}
+
         function createTask() {
             const title = document.getElementById('task-title').value.trim();
             const description = document.getElementById('task-description').value.trim();
             const periodicityType = document.getElementById('periodicity-type').value;
             const customInterval = parseInt(document.getElementById('custom-interval').value);
+            const customIntervalUnit = document.getElementById('custom-interval-unit').value;
+            const rruleText = document.getElementById('rrule-text').value.trim();
+            const cronText = document.getElementById('cron-text').value.trim();
             const dueDate = document.getElementById('due-date').value;
             
             // Validation
             let isValid = true;
             
+            const template = getSelectedTemplate();
+            const remainingPlaceholder = template && template.placeholders.find(placeholder => title.includes(placeholder));
             if (!title) {
                 showError('title-error', '${l10n.t('Please enter a task title').replace(/'/g, "\\'")}');
                 isValid = false;
+            } else if (remainingPlaceholder) {
+                showError('title-error', '${TaskDetailsProvider.escapeForJavaScript(l10n.t('Please replace {0} in the title', '{0}'))}'.replace('{0}', remainingPlaceholder));
+                isValid = false;
             } else {
                 hideError('title-error');
             }
@@ -2326,12 +4296,32 @@ export class TaskDetailsProvider {
             // Validate custom interval if custom type is selected
             if (periodicityType === 'custom') {
                 if (!customInterval || customInterval < 1) {
-                    showError('custom-interval-error', '${l10n.t('Please enter a valid number of days').replace(/'/g, "\\'")}');
+                    showError('custom-interval-error', '${l10n.t('Please enter a valid interval').replace(/'/g, "\\'")}');
                     isValid = false;
                 } else {
                     hideError('custom-interval-error');
                 }
             }
+
+            // Validate that a rule was entered if rule type is selected
+            if (periodicityType === 'rrule') {
+                if (!rruleText) {
+                    showError('rrule-error', '${l10n.t('Please enter a recurrence rule').replace(/'/g, "\\'")}');
+                    isValid = false;
+                } else {
+                    hideError('rrule-error');
+                }
+            }
+
+            // Validate that an expression was entered if cron type is selected
+            if (periodicityType === 'cron') {
+                if (!cronText) {
+                    showError('cron-error', '${l10n.t('Please enter a cron expression').replace(/'/g, "\\'")}');
+                    isValid = false;
+                } else {
+                    hideError('cron-error');
+                }
+            }
             
             if (!dueDate) {
                 showError('due-date-error', '${l10n.t('Please select a due date').replace(/'/g, "\\'")}');
@@ -2352,7 +4342,14 @@ export class TaskDetailsProvider {
 
             if (periodicityType === 'custom') {
                 periodicityData.interval = customInterval;
-                periodicityData.description = '${l10n.t('Every {0} days').replace('{0}', '" + customInterval + "')}';
+                periodicityData.unit = customIntervalUnit;
+                periodicityData.description = intervalDescriptions[customIntervalUnit].replace('{0}', customInterval);
+            } else if (periodicityType === 'rrule') {
+                // The rule is parsed and validated by the extension
+                periodicityData.rruleText = rruleText;
+            } else if (periodicityType === 'cron') {
+                // The expression is parsed and validated by the extension
+                periodicityData.cronText = cronText;
             } else {
                 // Set description based on type
                 switch (periodicityType) {
@@ -2374,12 +4371,30 @@ export class TaskDetailsProvider {
                 }
             }
             
+            Object.assign(periodicityData, getSeriesEnd());
+
             const taskData = {
                 title: title,
                 description: description || undefined, // Convert empty string to undefined
+                tags: document.getElementById('task-tags').value,
+                priority: document.getElementById('task-priority').value,
+                estimatedDuration: document.getElementById('task-estimate').value,
+                assignees: document.getElementById('task-assignees').value,
+                rotationPolicy: document.getElementById('task-rotation').value,
+                store: document.getElementById('task-store') ? document.getElementById('task-store').value : undefined,
+                activeWindow: {
+                    startMonth: document.getElementById('task-active-window-start-select').value,
+                    endMonth: document.getElementById('task-active-window-end-select').value
+                },
                 periodicity: periodicityData,
+                anchorMode: document.getElementById('anchor-mode').value,
+                nonWorkingDayPolicy: document.getElementById('non-working-day-policy').value,
+                catchUpPolicy: document.getElementById('catch-up-policy').value,
                 creationDate: new Date().toISOString(), // Automatically set to current date
-                dueDate: new Date(dueDate).toISOString()
+                dueDate: dueDate, // Converted with the due time and time zone by the extension
+                dueTime: document.getElementById('due-time').value,
+                timeZone: document.getElementById('time-zone').value.trim(),
+                templateId: template ? template.id : undefined
             };
             
             vscode.postMessage({
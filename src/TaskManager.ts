@@ -1,12 +1,63 @@
-import { Task, Periodicity, Comment, PeriodicityHelper } from './Task';
+import { Task, Periodicity, Comment, PeriodicityHelper, DueDateOptions, OccurrenceOutcome, ChecklistItem, TagHelper, PriorityHelper, DependencyHelper, TaskTemplate, AssigneeHelper, ActiveWindowHelper, TaskStore } from './Task';
 import { StorageManager } from './StorageManager';
+import { TaskStatusUtil } from './TaskStatusUtil';
+import { TimeZoneUtil } from './TimeZoneUtil';
+import { StorageSchema, QuarantinedTask } from './StorageSchema';
+import { l10n } from 'vscode';
+
+/**
+ * Optional settings of a new task
+ */
+export type NewTaskOptions = Partial<Omit<Task, 'id' | 'title' | 'description' | 'periodicity' | 'creationDate' | 'dueDate' | 'seriesStart' | 'comments' | 'status'>>;
+
+/**
+ * Outcome of importing or restoring tasks
+ */
+export interface ImportResult {
+    success: boolean;
+    imported: number;
+    importedTemplates: number;
+    errors: string[];
+    message: string;
+}
+
+/**
+ * A task as it was before and after an operation; a task the operation added has no before state,
+ * one it deleted has no after state
+ */
+interface TaskChange {
+    taskId: string;
+    before?: Task;
+    after?: Task;
+}
+
+/**
+ * A change made to the tasks, which can be undone and redone
+ */
+export interface TaskOperation {
+    /** What the operation did, e.g. 'Validate "Water the plants"' */
+    label: string;
+    /** Tasks the operation changed */
+    changes: TaskChange[];
+}
 
 /**
  * Manages all task operations and business logic
  */
 export class TaskManager {
     private tasks: Task[] = [];
+    private templates: TaskTemplate[] = [];
     private storageManager: StorageManager;
+    /** Operations that can be undone, most recent last */
+    private undoStack: TaskOperation[] = [];
+    /** Operations undone since the last new operation, most recently undone last */
+    private redoStack: TaskOperation[] = [];
+    /** Tasks as last saved, by id, with their JSON to find what the next save changes */
+    private savedTasks = new Map<string, { task: Task; json: string }>();
+
+    private static readonly MAX_UNDO_OPERATIONS = 50;
+    /** Missed occurrences recorded one by one on a late validation; older ones are grouped in a single entry */
+    private static readonly MAX_MISSED_ENTRIES = 366;
 
     constructor(storageManager: StorageManager) {
         this.storageManager = storageManager;
@@ -18,13 +69,136 @@ export class TaskManager {
      */
     private loadTasks(): void {
         this.tasks = this.storageManager.getTasks();
+        this.templates = this.storageManager.getTemplates();
+        this.savedTasks = new Map(this.tasks.map(task => [task.id, { task: structuredClone(task), json: JSON.stringify(task) }]));
+    }
+
+    /**
+     * Loads the tasks again from storage, after a store was changed outside of this window.
+     * Operations done before can no longer be undone, as they may not apply to the new tasks.
+     */
+    reloadTasks(): void {
+        this.loadTasks();
+        this.undoStack = [];
+        this.redoStack = [];
     }
 
     /**
      * Saves tasks to storage
+     * @param operation What was changed, to record the changes as an operation that can be undone;
+     * changes saved without one (such as tasks resumed at the end of their pause) are not recorded
      */
-    private saveTasks(): void {
+    private saveTasks(operation?: string): void {
+        const changes = this.takeChanges();
         this.storageManager.saveTasks(this.tasks);
+
+        if (operation && changes.length > 0) {
+            this.undoStack.push({ label: operation, changes });
+            if (this.undoStack.length > TaskManager.MAX_UNDO_OPERATIONS) {
+                this.undoStack.shift();
+            }
+            this.redoStack = [];
+        }
+    }
+
+    /**
+     * Finds the tasks added, changed or deleted since the last save, and takes the current tasks as the last saved ones
+     */
+    private takeChanges(): TaskChange[] {
+        const changes: TaskChange[] = [];
+        const currentIds = new Set<string>();
+
+        for (const task of this.tasks) {
+            const json = JSON.stringify(task);
+            const saved = this.savedTasks.get(task.id);
+            currentIds.add(task.id);
+            if (saved?.json !== json) {
+                const after = structuredClone(task);
+                changes.push({ taskId: task.id, before: saved?.task, after });
+                this.savedTasks.set(task.id, { task: after, json });
+            }
+        }
+
+        for (const [taskId, saved] of this.savedTasks) {
+            if (!currentIds.has(taskId)) {
+                changes.push({ taskId, before: saved.task });
+                this.savedTasks.delete(taskId);
+            }
+        }
+
+        return changes;
+    }
+
+    /**
+     * Undoes the last operation, putting the tasks it changed back as they were before it
+     * Returns the operation undone, or null if there is nothing to undo
+     */
+    undo(): TaskOperation | null {
+        const operation = this.undoStack.pop();
+        if (!operation) {
+            return null;
+        }
+
+        this.applyChanges(operation.changes, 'before');
+        this.redoStack.push(operation);
+        return operation;
+    }
+
+    /**
+     * Does again the last operation undone
+     * Returns the operation redone, or null if there is nothing to redo
+     */
+    redo(): TaskOperation | null {
+        const operation = this.redoStack.pop();
+        if (!operation) {
+            return null;
+        }
+
+        this.applyChanges(operation.changes, 'after');
+        this.undoStack.push(operation);
+        return operation;
+    }
+
+    /**
+     * Gets the operation that undo would undo, if any
+     */
+    getLastOperation(): TaskOperation | null {
+        return this.undoStack[this.undoStack.length - 1] || null;
+    }
+
+    /**
+     * Gets the operation that redo would do again, if any
+     */
+    getLastUndoneOperation(): TaskOperation | null {
+        return this.redoStack[this.redoStack.length - 1] || null;
+    }
+
+    /**
+     * Puts the tasks changed by an operation in their state before or after it, then saves them without recording an operation
+     */
+    private applyChanges(changes: TaskChange[], state: 'before' | 'after'): void {
+        for (const change of changes) {
+            const task = change[state];
+            const index = this.tasks.findIndex(task => task.id === change.taskId);
+            if (!task) {
+                if (index !== -1) {
+                    this.tasks.splice(index, 1);
+                }
+            } else if (index === -1) {
+                this.tasks.push(structuredClone(task));
+            } else {
+                this.tasks[index] = structuredClone(task);
+            }
+        }
+
+        this.saveTasks();
+    }
+
+    /**
+     * Saves task templates to storage
+     */
+    private saveTemplates(): void {
+        this.storageManager.saveTemplates(this.templates);
     }
 
     /**
@@ -41,11 +215,25 @@ export class TaskManager {
         return 'comment_' + Date.now().toString() + Math.random().toString(36).substr(2, 9);
     }
 
+    /**
+     * Generates a unique ID for a task template
+     */
+    private generateTemplateId(): string {
+        return 'template_' + Date.now().toString() + Math.random().toString(36).substr(2, 9);
+    }
+
+    /**
+     * Generates a unique ID for a checklist item
+     */
+    private generateChecklistItemId(): string {
+        return 'item_' + Date.now().toString() + Math.random().toString(36).substr(2, 9);
+    }
+
     /**
      * Calculates the next due date based on periodicity
      */
-    private calculateNextDueDate(currentDueDate: Date, periodicity: Periodicity): Date {
-        return PeriodicityHelper.calculateNextDueDate(currentDueDate, periodicity);
+    private calculateNextDueDate(currentDueDate: Date, periodicity: Periodicity, options: DueDateOptions): Date {
+        return PeriodicityHelper.calculateNextDueDate(currentDueDate, periodicity, options);
     }
 
     /**
@@ -58,28 +246,57 @@ export class TaskManager {
     /**
      * Adds a new task
      */
-    addTask(title: string, periodicity: Periodicity, dueDate: Date, description?: string): Task {
+    addTask(title: string, periodicity: Periodicity, dueDate: Date, description?: string, options: NewTaskOptions = {}): Task {
         const newTask: Task = {
+            anchorMode: 'completion',
+            nonWorkingDayPolicy: 'keep',
+            catchUpPolicy: 'collapse',
+            priority: 'normal',
+            ...options,
             id: this.generateId(),
             title,
             description,
             periodicity,
             creationDate: new Date(), // Automatically set to current date
             dueDate: new Date(dueDate), // Use the provided due date
+            seriesStart: new Date(dueDate),
             comments: [],
             status: 'active'
         };
 
         this.tasks.push(newTask);
-        this.saveTasks();
+        this.saveTasks(l10n.t('Add "{0}"', newTask.title));
         
         return newTask;
     }
 
+    /**
+     * Adds a new task from a template, with the template's checklist steps
+     * Returns null if the template is not found
+     */
+    addTaskFromTemplate(templateId: string, title: string, periodicity: Periodicity, dueDate: Date, description?: string, options: NewTaskOptions = {}): Task | null {
+        const template = this.templates.find(template => template.id === templateId);
+
+        if (!template) {
+            return null;
+        }
+
+        return this.addTask(title, periodicity, dueDate, description, {
+            checklist: (template.checklist || []).map(item => ({
+                id: this.generateChecklistItemId(),
+                text: item.text,
+                done: false,
+                required: item.required === true
+            })),
+            ...options
+        });
+    }
+
     /**
      * Validates a task with a comment and calculates the next due date
+     * @param completedBy Who completed the task (defaults to its current assignee)
      */
-    validateTask(taskId: string, commentText: string): Task | null {
+    validateTask(taskId: string, commentText: string, completedBy?: string): Task | null {
         const taskIndex = this.tasks.findIndex(task => task.id === taskId);
         
         if (taskIndex === -1) {
@@ -87,33 +304,335 @@ export class TaskManager {
         }
 
         const task = this.tasks[taskIndex];
+        const now = new Date();
+        const completer = completedBy?.trim() || AssigneeHelper.getCurrentAssignee(task);
+
+        // Validating ahead of the prerequisites is allowed (after a confirmation) and noted in the validation comment
+        const blockingTasks = DependencyHelper.getBlockingTasks(task, this.tasks);
         
-        // Generate auto-comment if no comment provided
-        const finalCommentText = commentText.trim() || `Task validated on ${new Date().toLocaleDateString()}`;
-        
-        // Add the validation comment
-        const comment: Comment = {
-            id: this.generateCommentId(),
-            text: finalCommentText,
-            date: new Date(),
-            isValidation: true
-        };
-        
-        task.comments.push(comment);
+        // Generate auto-comment if no comment provided, and keep track of the checklist steps done
+        const finalCommentText = [
+            commentText.trim() || `Task validated on ${now.toLocaleDateString()}`,
+            ...(task.checklist && task.checklist.length > 0 ? [this.formatChecklistSummary(task.checklist)] : []),
+            ...(blockingTasks.length > 0 ? [`Validated before its prerequisites: ${blockingTasks.map(blockingTask => blockingTask.title).join(', ')}`] : []),
+            ...(completer ? [`Completed by ${completer}`] : [])
+        ].join('\n\n');
         
         // Handle non-recurring tasks differently - archive them after validation
-        if (!task.periodicity.isRecurring || task.periodicity.type === 'none') {
+        if (!this.isRecurring(task)) {
+            const comment: Comment = {
+                id: this.generateCommentId(),
+                text: finalCommentText,
+                date: now,
+                isValidation: true
+            };
+            task.comments.push(comment);
+            this.recordOccurrence(task, task.dueDate, 'done', now, comment.id, completer);
+            delete task.timer;
+            delete task.postponedCount;
             task.status = 'archived';
         } else {
-            // Calculate the next due date based on periodicity for recurring tasks
-            task.dueDate = this.calculateNextDueDate(task.dueDate, task.periodicity);
+            this.completeOccurrence(task, now, () => ({ text: finalCommentText, date: now, isValidation: true }), completer);
+
+            // Round-robin rotation hands the task over on each validation
+            if (task.assignees && task.assignees.length > 0 && task.rotationPolicy !== 'weekly') {
+                task.rotationIndex = ((task.rotationIndex || 0) + 1) % task.assignees.length;
+            }
         }
         
-        this.saveTasks();
+        this.saveTasks(l10n.t('Validate "{0}"', task.title));
         
         return task;
     }
 
+    /**
+     * Skips the current occurrence of a recurring task without validating it, and calculates the next due date
+     * Returns null if the task is not found, is not recurring or no reason is given
+     */
+    skipOccurrence(taskId: string, reason: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || !this.isRecurring(task) || !reason.trim()) {
+            return null;
+        }
+
+        const now = new Date();
+        this.completeOccurrence(task, now, dueDate => ({
+            text: `Skipped occurrence due ${dueDate.toLocaleDateString()}: ${reason.trim()}`,
+            date: now,
+            isValidation: false,
+            kind: 'skipped'
+        }));
+
+        this.saveTasks(l10n.t('Skip occurrence of "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Moves the current occurrence of a task to a later due date, with a history entry
+     * Returns null if the task is not found, is not active or the new due date is not after the current one
+     */
+    postponeTask(taskId: string, dueDate: Date, reason?: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || task.status !== 'active' || dueDate <= task.dueDate) {
+            return null;
+        }
+
+        const now = new Date();
+        const change = `Postponed from ${task.dueDate.toLocaleDateString()} to ${dueDate.toLocaleDateString()}`;
+        task.comments.push({
+            id: this.generateCommentId(),
+            text: reason?.trim() ? `${change}: ${reason.trim()}` : change,
+            date: now,
+            isValidation: false,
+            kind: 'postponed'
+        });
+
+        task.dueDate = new Date(dueDate);
+        task.postponedCount = (task.postponedCount || 0) + 1;
+        this.saveTasks(l10n.t('Postpone "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Checks if a task repeats
+     */
+    private isRecurring(task: Task): boolean {
+        return task.periodicity.isRecurring && task.periodicity.type !== 'none';
+    }
+
+    /**
+     * Closes the current occurrence of a recurring task with a history entry and moves the task to its next due date,
+     * archiving it when the series is over
+     * @param createEntry Builds the history entry from the due date of the occurrence being closed
+     * @param completedBy Who validated the occurrence
+     */
+    private completeOccurrence(task: Task, now: Date, createEntry: (dueDate: Date) => Omit<Comment, 'id'>, completedBy?: string): void {
+        // Record the occurrences that went by before this late validation, if the task keeps track of them
+        let completedDueDate = task.dueDate;
+        if (task.catchUpPolicy === 'skipMissed') {
+            completedDueDate = this.recordMissedOccurrences(task, now);
+        }
+
+        const comment: Comment = { id: this.generateCommentId(), ...createEntry(completedDueDate) };
+        task.comments.push(comment);
+        this.recordOccurrence(task, completedDueDate, comment.kind === 'skipped' ? 'skipped' : 'done', now, comment.id, completedBy);
+
+        // The checklist, the timer and the postponements start over for the next occurrence
+        task.checklist?.forEach(item => item.done = false);
+        delete task.timer;
+        delete task.postponedCount;
+
+        // Calculate the next due date based on periodicity
+        task.completedOccurrences = (task.completedOccurrences || 0) + 1;
+        const nextDueDate = task.catchUpPolicy === 'oneAtATime'
+            ? PeriodicityHelper.calculateFollowingDueDate(task.dueDate, task.periodicity, task)
+            : this.calculateNextDueDate(completedDueDate, task.periodicity, task);
+
+        if (PeriodicityHelper.hasSeriesEnded(task.periodicity, task.completedOccurrences, nextDueDate)) {
+            // The last occurrence is done: archive the task, keeping its last due date
+            task.comments.push({
+                id: this.generateCommentId(),
+                text: `Series completed after ${task.completedOccurrences} occurrence${task.completedOccurrences === 1 ? '' : 's'}`,
+                date: now,
+                isValidation: false
+            });
+            task.status = 'archived';
+        } else {
+            task.dueDate = nextDueDate;
+        }
+    }
+
+    /**
+     * Records a missed entry for each occurrence already due before the latest one, which the validation completes.
+     * Returns the due date of the occurrence being validated.
+     */
+    private recordMissedOccurrences(task: Task, now: Date): Date {
+        const periodicity = task.periodicity;
+        const completed = task.completedOccurrences || 0;
+
+        // Walk the schedule up to now: every occurrence followed by another one already due was missed.
+        // The walk stops at the end of the series, as occurrences past it never happened.
+        const missed: Date[] = [];
+        let missedCount = 0;
+        let firstMissed: Date | undefined;
+        let lastGrouped: Date | undefined;
+        let current = task.dueDate;
+        while (periodicity.isRecurring && (!periodicity.count || completed + missedCount + 1 < periodicity.count)) {
+            const next = PeriodicityHelper.calculateFollowingDueDate(current, periodicity, task);
+            if (next <= current || next > now || (periodicity.until && next > periodicity.until)) {
+                break;
+            }
+
+            firstMissed = firstMissed || current;
+            missedCount++;
+            missed.push(current);
+            if (missed.length > TaskManager.MAX_MISSED_ENTRIES) {
+                lastGrouped = missed.shift();
+            }
+            current = next;
+        }
+
+        // Only the most recent ones get an entry each, the older ones are counted in a single entry
+        if (firstMissed && lastGrouped) {
+            const grouped = missedCount - missed.length;
+            task.comments.push({
+                id: this.generateCommentId(),
+                text: `Missed ${grouped} occurrences due from ${firstMissed.toLocaleDateString()} to ${lastGrouped.toLocaleDateString()} (not listed one by one)`,
+                date: firstMissed,
+                isValidation: false,
+                kind: 'missed',
+                missedCount: grouped
+            });
+        }
+
+        for (const dueDate of missed) {
+            const comment: Comment = {
+                id: this.generateCommentId(),
+                text: `Missed occurrence due ${dueDate.toLocaleDateString()}`,
+                date: dueDate,
+                isValidation: false,
+                kind: 'missed'
+            };
+            task.comments.push(comment);
+            this.recordOccurrence(task, dueDate, 'missed', undefined, comment.id);
+        }
+        task.completedOccurrences = completed + missedCount;
+
+        return current;
+    }
+
+    /**
+     * Describes which checklist steps were done, e.g. "Checklist (2/3): ✓ staging, ✓ prod, ✗ update vault"
+     */
+    private formatChecklistSummary(checklist: ChecklistItem[]): string {
+        const doneCount = checklist.filter(item => item.done).length;
+        const items = checklist.map(item => `${item.done ? '✓' : '✗'} ${item.text}`).join(', ');
+        return `Checklist (${doneCount}/${checklist.length}): ${items}`;
+    }
+
+    /**
+     * Appends an entry to the occurrence log of a task
+     */
+    private recordOccurrence(task: Task, scheduledDate: Date, outcome: OccurrenceOutcome, completedAt: Date | undefined, commentId: string, completedBy?: string): void {
+        if (!task.occurrences) {
+            task.occurrences = [];
+        }
+
+        task.occurrences.push({
+            scheduledDate: new Date(scheduledDate),
+            completedAt,
+            outcome,
+            lateness: completedAt ? this.calculateLateness(task, scheduledDate, completedAt) : undefined,
+            commentId,
+            // The time tracked on the current occurrence belongs to the one being validated
+            duration: outcome === 'done' && task.timer ? TaskStatusUtil.getTrackedTime(task, completedAt) : undefined,
+            completedBy
+        });
+    }
+
+    /**
+     * Calculates how late an occurrence was completed, in milliseconds.
+     * Tasks without a due time are on time for their whole due day and late by whole days after it.
+     */
+    private calculateLateness(task: Task, scheduledDate: Date, completedAt: Date): number {
+        if (task.hasDueTime) {
+            return Math.max(0, completedAt.getTime() - scheduledDate.getTime());
+        }
+
+        const dueDay = new Date(scheduledDate.getFullYear(), scheduledDate.getMonth(), scheduledDate.getDate());
+        const completionDay = new Date(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate());
+        const daysLate = Math.round((completionDay.getTime() - dueDay.getTime()) / (1000 * 60 * 60 * 24));
+        return Math.max(0, daysLate) * 1000 * 60 * 60 * 24;
+    }
+
+    /**
+     * Starts or resumes the timer of a task, stopping the timer running or paused on any other task (their time is kept)
+     * Returns null if the task is not found or is not active
+     */
+    startTimer(taskId: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || task.status !== 'active') {
+            return null;
+        }
+
+        const now = new Date();
+        for (const other of this.tasks) {
+            if (other !== task && (other.timer?.runningSince || other.timer?.paused)) {
+                this.pauseTimerAt(other, now, false);
+            }
+        }
+
+        if (!task.timer?.runningSince) {
+            task.timer = { elapsed: task.timer?.elapsed || 0, runningSince: now };
+        }
+
+        this.saveTasks(l10n.t('Start timer on "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Pauses the running timer of a task, to be resumed later
+     * Returns null if the task is not found or its timer is not running
+     */
+    pauseTimer(taskId: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task?.timer?.runningSince) {
+            return null;
+        }
+
+        this.pauseTimerAt(task, new Date(), true);
+        this.saveTasks(l10n.t('Pause timer on "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Stops the timer of a task, keeping the tracked time for the current occurrence
+     * Returns null if the task is not found or has no timer
+     */
+    stopTimer(taskId: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task?.timer) {
+            return null;
+        }
+
+        this.pauseTimerAt(task, new Date(), false);
+        if (task.timer.elapsed === 0) {
+            delete task.timer;
+        }
+        this.saveTasks(l10n.t('Stop timer on "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Gets the task whose timer is running, or else a task whose timer is paused
+     */
+    getTimerTask(): Task | null {
+        return this.tasks.find(task => task.timer?.runningSince)
+            || this.tasks.find(task => task.timer?.paused)
+            || null;
+    }
+
+    /**
+     * Adds the time since the timer of a task was started to its tracked time
+     */
+    private pauseTimerAt(task: Task, now: Date, paused: boolean): void {
+        if (!task.timer) {
+            return;
+        }
+
+        task.timer = { elapsed: TaskStatusUtil.getTrackedTime(task, now), paused: paused || undefined };
+    }
+
     /**
      * Adds a comment to a task
      */
@@ -135,7 +654,7 @@ export class TaskManager {
         };
         
         task.comments.push(comment);
-        this.saveTasks();
+        this.saveTasks(l10n.t('Comment on "{0}"', task.title));
         
         return task;
     }
@@ -161,7 +680,7 @@ export class TaskManager {
         task.comments[commentIndex].text = newText;
         task.comments[commentIndex].date = new Date(); // Update the date to show it was modified
         
-        this.saveTasks();
+        this.saveTasks(l10n.t('Edit comment on "{0}"', task.title));
         
         return task;
     }
@@ -185,11 +704,89 @@ export class TaskManager {
 
         // Remove the comment
         task.comments.splice(commentIndex, 1);
-        this.saveTasks();
+        this.saveTasks(l10n.t('Delete comment on "{0}"', task.title));
         
         return task;
     }
 
+    /**
+     * Adds a step at the end of a task's checklist
+     */
+    addChecklistItem(taskId: string, text: string, required: boolean = false): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || !text.trim()) {
+            return null;
+        }
+
+        if (!task.checklist) {
+            task.checklist = [];
+        }
+        task.checklist.push({
+            id: this.generateChecklistItemId(),
+            text: text.trim(),
+            done: false,
+            required
+        });
+        this.saveTasks(l10n.t('Add checklist item to "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Updates a step of a task's checklist (ticking it off, renaming it or making it required)
+     */
+    updateChecklistItem(taskId: string, itemId: string, changes: Partial<Omit<ChecklistItem, 'id'>>): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+        const item = task?.checklist?.find(item => item.id === itemId);
+
+        if (!task || !item) {
+            return null; // Task or item not found
+        }
+
+        Object.assign(item, changes);
+        this.saveTasks(l10n.t('Edit checklist of "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Moves a step of a task's checklist up (negative offset) or down (positive offset)
+     */
+    moveChecklistItem(taskId: string, itemId: string, offset: number): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+        const checklist = task?.checklist;
+        const index = checklist ? checklist.findIndex(item => item.id === itemId) : -1;
+
+        if (!task || !checklist || index === -1) {
+            return null; // Task or item not found
+        }
+
+        const newIndex = Math.max(0, Math.min(checklist.length - 1, index + offset));
+        const [item] = checklist.splice(index, 1);
+        checklist.splice(newIndex, 0, item);
+        this.saveTasks(l10n.t('Reorder checklist of "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Removes a step from a task's checklist
+     */
+    deleteChecklistItem(taskId: string, itemId: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+        const index = task?.checklist ? task.checklist.findIndex(item => item.id === itemId) : -1;
+
+        if (!task || !task.checklist || index === -1) {
+            return null; // Task or item not found
+        }
+
+        task.checklist.splice(index, 1);
+        this.saveTasks(l10n.t('Delete checklist item from "{0}"', task.title));
+
+        return task;
+    }
+
     /**
      * Archives a task
      */
@@ -197,7 +794,7 @@ export class TaskManager {
         const task = this.tasks.find(task => task.id === taskId);
         if (task) {
             task.status = 'archived';
-            this.saveTasks();
+            this.saveTasks(l10n.t('Archive "{0}"', task.title));
             return true;
         }
         return false;
@@ -210,12 +807,144 @@ export class TaskManager {
         const task = this.tasks.find(task => task.id === taskId);
         if (task) {
             task.status = 'active';
-            this.saveTasks();
+            this.saveTasks(l10n.t('Unarchive "{0}"', task.title));
             return true;
         }
         return false;
     }
 
+    /**
+     * Pauses a task: it keeps its schedule but is not due, nor notified, until it is resumed
+     * Returns null if the task is not found or is not active
+     * @param resumeDate When the task resumes by itself (it stays paused until resumed by hand otherwise)
+     */
+    pauseTask(taskId: string, resumeDate?: Date): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || task.status !== 'active') {
+            return null;
+        }
+
+        this.pauseTaskAt(task, new Date(), resumeDate, 'Paused');
+        this.saveTasks(l10n.t('Pause "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Resumes a paused task, moving its due date past the occurrences that went by while it was paused
+     * Returns null if the task is not found, is not paused or is outside its active window
+     */
+    resumeTask(taskId: string): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+        const now = new Date();
+
+        if (!task || task.status !== 'paused' || (task.activeWindow && !ActiveWindowHelper.contains(task.activeWindow, now))) {
+            return null;
+        }
+
+        this.resumeTaskAt(task, now);
+        this.saveTasks(l10n.t('Resume "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Resumes the paused tasks whose resume date has come and pauses the active tasks outside their active window.
+     * Returns the tasks whose status changed
+     */
+    updatePausedTasks(now: Date = new Date()): Task[] {
+        const changedTasks: Task[] = [];
+
+        for (const task of this.tasks) {
+            const isInWindow = !task.activeWindow || ActiveWindowHelper.contains(task.activeWindow, now);
+
+            if (task.status === 'paused' && task.resumeDate && task.resumeDate <= now) {
+                if (isInWindow) {
+                    this.resumeTaskAt(task, now);
+                    changedTasks.push(task);
+                } else {
+                    // Resuming out of season would only pause the task again
+                    task.resumeDate = ActiveWindowHelper.getNextStart(task.activeWindow!, now);
+                }
+            } else if (task.status === 'active' && !isInWindow) {
+                this.pauseTaskAt(task, now, ActiveWindowHelper.getNextStart(task.activeWindow!, now), 'Paused outside its active window');
+                changedTasks.push(task);
+            }
+        }
+
+        if (changedTasks.length > 0) {
+            this.saveTasks();
+        }
+
+        return changedTasks;
+    }
+
+    /**
+     * Pauses a task and its running timer, with a history entry
+     */
+    private pauseTaskAt(task: Task, now: Date, resumeDate: Date | undefined, reason: string): void {
+        if (task.timer?.runningSince) {
+            this.pauseTimerAt(task, now, true);
+        }
+
+        task.status = 'paused';
+        if (resumeDate) {
+            task.resumeDate = new Date(resumeDate);
+        } else {
+            delete task.resumeDate;
+        }
+
+        task.comments.push({
+            id: this.generateCommentId(),
+            text: resumeDate ? `${reason} until ${resumeDate.toLocaleDateString()}` : reason,
+            date: now,
+            isValidation: false
+        });
+    }
+
+    /**
+     * Makes a paused task active again with an up-to-date due date, with a history entry.
+     * The occurrences that went by while the task was paused are neither done nor missed.
+     */
+    private resumeTaskAt(task: Task, now: Date): void {
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        let dueDate = task.dueDate;
+
+        if (dueDate < today) {
+            if (this.isRecurring(task)) {
+                const passedOccurrences = PeriodicityHelper.getOccurrencesUntil(dueDate, task.periodicity, task, new Date(today.getTime() - 1), 1);
+                dueDate = PeriodicityHelper.calculateFollowingDueDate(passedOccurrences[0] || dueDate, task.periodicity, task);
+            } else {
+                // One-shot tasks are due on the day they resume, at their usual time
+                dueDate = new Date(dueDate);
+                dueDate.setFullYear(today.getFullYear(), today.getMonth(), today.getDate());
+            }
+        }
+
+        delete task.resumeDate;
+
+        if (this.isRecurring(task) && PeriodicityHelper.hasSeriesEnded(task.periodicity, task.completedOccurrences || 0, dueDate)) {
+            task.status = 'archived';
+            task.comments.push({
+                id: this.generateCommentId(),
+                text: 'Series ended while the task was paused',
+                date: now,
+                isValidation: false
+            });
+            return;
+        }
+
+        task.status = 'active';
+        task.dueDate = dueDate;
+        task.comments.push({
+            id: this.generateCommentId(),
+            text: `Resumed, next due ${dueDate.toLocaleDateString()}`,
+            date: now,
+            isValidation: false
+        });
+    }
+
     /**
      * Deletes a task permanently
      */
@@ -226,8 +955,17 @@ export class TaskManager {
             return false; // Task not found
         }
 
-        this.tasks.splice(taskIndex, 1);
-        this.saveTasks();
+        this.storageManager.backup('delete');
+        const [deletedTask] = this.tasks.splice(taskIndex, 1);
+
+        // Tasks that depended on the deleted task no longer wait for it
+        for (const task of this.tasks) {
+            if (task.dependsOn?.includes(taskId)) {
+                task.dependsOn = task.dependsOn.filter(id => id !== taskId);
+            }
+        }
+
+        this.saveTasks(l10n.t('Delete "{0}"', deletedTask.title));
         
         return true;
     }
@@ -243,15 +981,70 @@ export class TaskManager {
         }
 
         const task = this.tasks[taskIndex];
+
+        if (updates.dependsOn) {
+            this.assertNoDependencyCycle(task, updates.dependsOn);
+        }
         
+        // A new due date or recurrence starts the fixed schedule again from the due date
+        const restartsSeries = (updates.dueDate && updates.dueDate.getTime() !== task.dueDate.getTime())
+            || (updates.periodicity && JSON.stringify(updates.periodicity) !== JSON.stringify(task.periodicity));
+
         // Update the task with new values
         Object.assign(task, updates);
+        if (restartsSeries) {
+            task.seriesStart = new Date(task.dueDate);
+        }
         
-        this.saveTasks();
+        this.saveTasks(l10n.t('Edit "{0}"', task.title));
         
         return task;
     }
 
+    /**
+     * Replaces the prerequisites of a task
+     * @throws Error if a prerequisite does not exist or if the prerequisites would create a cycle
+     */
+    setDependencies(taskId: string, dependsOn: string[]): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task) {
+            return null;
+        }
+
+        const uniqueIds = [...new Set(dependsOn)];
+        const unknownId = uniqueIds.find(id => !this.tasks.some(other => other.id === id));
+        if (unknownId) {
+            throw new Error(`Prerequisite task ${unknownId} not found`);
+        }
+        this.assertNoDependencyCycle(task, uniqueIds);
+
+        task.dependsOn = uniqueIds;
+        this.saveTasks(l10n.t('Change prerequisites of "{0}"', task.title));
+
+        return task;
+    }
+
+    /**
+     * Gets the prerequisites that a task is still waiting for
+     */
+    getBlockingTasks(taskId: string): Task[] {
+        const task = this.tasks.find(task => task.id === taskId);
+        return task ? DependencyHelper.getBlockingTasks(task, this.tasks) : [];
+    }
+
+    /**
+     * Rejects prerequisites that would make a task depend on itself, directly or through other tasks
+     * @throws Error describing the cycle
+     */
+    private assertNoDependencyCycle(task: Task, dependsOn: string[]): void {
+        const cycle = DependencyHelper.findCycle(task.id, dependsOn, this.tasks);
+        if (cycle) {
+            const titles = cycle.map(id => this.tasks.find(other => other.id === id)?.title || id);
+            throw new Error(`Dependency cycle: ${titles.join(' → ')}`);
+        }
+    }
+
     /**
      * Gets a specific task by ID
      */
@@ -259,12 +1052,116 @@ export class TaskManager {
         return this.tasks.find(task => task.id === taskId) || null;
     }
 
+    /**
+     * Gets the stores tasks can be kept in for the open workspace
+     */
+    getStores(): TaskStore[] {
+        return this.storageManager.getAvailableStores();
+    }
+
+    /**
+     * Gets the stored tasks that could not be migrated to the current schema when they were loaded
+     */
+    getQuarantinedTasks(): QuarantinedTask[] {
+        return this.storageManager.getQuarantinedTasks();
+    }
+
+    /**
+     * Moves a task to another store, keeping its history
+     * @returns The moved task, or null if it is already in that store or the store is not available
+     */
+    moveTaskToStore(taskId: string, store: TaskStore): Task | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || (task.store || 'global') === store || !this.getStores().includes(store)) {
+            return null;
+        }
+
+        task.store = store;
+        this.saveTasks(l10n.t('Move "{0}" to another store', task.title));
+
+        return task;
+    }
+
+    /**
+     * Gets all task templates, sorted by name
+     */
+    getTemplates(): TaskTemplate[] {
+        return [...this.templates].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Gets a specific task template by ID
+     */
+    getTemplate(templateId: string): TaskTemplate | null {
+        return this.templates.find(template => template.id === templateId) || null;
+    }
+
+    /**
+     * Saves the settings of a task as a template, replacing any template with the same name
+     * Returns null if the task is not found or no name is given
+     * @param titlePattern Title of the tasks created from the template (defaults to the title of the task)
+     */
+    saveTaskAsTemplate(taskId: string, name: string, titlePattern?: string): TaskTemplate | null {
+        const task = this.tasks.find(task => task.id === taskId);
+
+        if (!task || !name.trim()) {
+            return null;
+        }
+
+        // The end date of a series belongs to the task, not to the kind of task
+        const { until: _until, ...periodicity } = task.periodicity;
+        const existing = this.templates.find(template => template.name.toLowerCase() === name.trim().toLowerCase());
+        const template: TaskTemplate = {
+            id: existing?.id || this.generateTemplateId(),
+            name: name.trim(),
+            titlePattern: titlePattern?.trim() || task.title,
+            description: task.description,
+            periodicity,
+            anchorMode: task.anchorMode,
+            nonWorkingDayPolicy: task.nonWorkingDayPolicy,
+            catchUpPolicy: task.catchUpPolicy,
+            priority: task.priority,
+            tags: task.tags ? [...task.tags] : undefined,
+            checklist: task.checklist?.map(item => ({ text: item.text, required: item.required }))
+        };
+
+        this.templates = [...this.templates.filter(other => other !== existing), template];
+        this.saveTemplates();
+
+        return template;
+    }
+
+    /**
+     * Deletes a task template
+     */
+    deleteTemplate(templateId: string): boolean {
+        const templateIndex = this.templates.findIndex(template => template.id === templateId);
+
+        if (templateIndex === -1) {
+            return false;
+        }
+
+        this.storageManager.backup('delete');
+        this.templates.splice(templateIndex, 1);
+        this.saveTemplates();
+
+        return true;
+    }
+
+    /**
+     * Gets all the tags used by tasks, sorted alphabetically
+     */
+    getAllTags(): string[] {
+        const tags = TagHelper.normalize(this.tasks.flatMap(task => task.tags || []));
+        return tags.sort((a, b) => a.localeCompare(b));
+    }
+
     /**
      * Gets overdue tasks
      */
     getOverdueTasks(): Task[] {
-        const now = new Date();
-        return this.tasks.filter(task => task.status === 'active' && task.dueDate < now);
+        return this.tasks.filter(task => task.status === 'active' && TaskStatusUtil.isOverdue(task));
     }
 
     /**
@@ -274,6 +1171,13 @@ export class TaskManager {
         return this.tasks.filter(task => task.status === 'archived');
     }
 
+    /**
+     * Gets paused tasks
+     */
+    getPausedTasks(): Task[] {
+        return this.tasks.filter(task => task.status === 'paused');
+    }
+
     /**
      * Gets all tasks (both active and archived) for export
      */
@@ -287,74 +1191,204 @@ export class TaskManager {
     exportTasks(): string {
         const exportData = {
             exportDate: new Date().toISOString(),
-            version: '1.0',
-            tasks: this.tasks
+            version: StorageSchema.CURRENT_VERSION,
+            workspace: this.storageManager.getWorkspaceId(),
+            tasks: this.tasks,
+            templates: this.templates
         };
         
         return JSON.stringify(exportData, null, 2);
     }
 
     /**
-     * Imports tasks from JSON data, adding them to existing tasks without deleting current ones
+     * Imports tasks and templates from JSON data, adding them to existing ones without deleting current ones
      * Returns the number of tasks imported and any errors encountered
      */
-    importTasks(jsonData: string): { success: boolean; imported: number; errors: string[]; message: string } {
+    importTasks(jsonData: string): ImportResult {
+        this.storageManager.backup('import');
+        return this.importTaskData(jsonData, l10n.t('Import tasks'));
+    }
+
+    /**
+     * Replaces the tasks of some stores and the templates with those of a backup (or export), after backing up the current ones.
+     * The tasks of the other stores are kept, as are the current tasks or templates if the backup has none that can be restored.
+     * @param stores Stores whose tasks are replaced (see BackupManager.getRestoredStores)
+     */
+    restoreTasks(jsonData: string, stores: TaskStore[]): ImportResult {
+        this.storageManager.backup('restore');
+
+        const previousTasks = this.tasks;
+        const previousTemplates = this.templates;
+        this.tasks = this.tasks.filter(task => !stores.includes(task.store || 'global'));
+        this.templates = [];
+
+        // Tasks and templates are only saved when some were restored, so the previous ones are still the stored ones otherwise
+        const result = this.importTaskData(jsonData, undefined, stores);
+        if (result.imported === 0) {
+            this.tasks = previousTasks;
+        }
+        if (result.importedTemplates === 0) {
+            this.templates = previousTemplates;
+        }
+        if (result.success) {
+            // The tasks replaced are kept in the backup taken above, rather than as an operation to undo
+            this.undoStack = [];
+            this.redoStack = [];
+        }
+
+        return result;
+    }
+
+    /**
+     * Adds the tasks and templates of JSON data to the current ones
+     * @param operation Label of the operation recorded for the tasks added, which is not recorded without one
+     * @param stores Stores whose tasks are taken, the others being left out; all by default
+     */
+    private importTaskData(jsonData: string, operation?: string, stores?: TaskStore[]): ImportResult {
         try {
-            const parsedData = JSON.parse(jsonData);
+            const parsedData: unknown = JSON.parse(jsonData);
             const errors: string[] = [];
             let imported = 0;
 
             // Validate the JSON structure
-            if (!parsedData.tasks || !Array.isArray(parsedData.tasks)) {
+            if (!StorageSchema.isRecord(parsedData) || !Array.isArray(parsedData.tasks)) {
                 return {
                     success: false,
                     imported: 0,
+                    importedTemplates: 0,
                     errors: ['Invalid JSON format: tasks array not found'],
                     message: 'Import failed: Invalid JSON format'
                 };
             }
 
+            // Bring tasks exported by older versions to the current schema; those that cannot be are reported and skipped
+            const migration = StorageSchema.migrate(parsedData.tasks, StorageSchema.getVersion(parsedData.version));
+            for (const quarantined of migration.quarantined) {
+                errors.push(`Skipped task that could not be migrated: ${quarantined.error}`);
+            }
+
             // Get existing task IDs to avoid duplicates
             const existingIds = new Set(this.tasks.map(task => task.id));
+            const isString = (value: unknown): value is string => typeof value === 'string';
+            const isWholeNumber = (value: unknown, min: number): value is number => typeof value === 'number' && Number.isInteger(value) && value >= min;
+            const renamedIds = new Map<string, string>();
+            const importedTasks: Task[] = [];
 
             // Process each task in the import data
-            for (let i = 0; i < parsedData.tasks.length; i++) {
-                const taskData = parsedData.tasks[i];
+            for (let i = 0; i < migration.tasks.length; i++) {
+                const taskData = migration.tasks[i];
                 
                 try {
                     // Validate required fields
-                    if (!taskData.id || !taskData.title || !taskData.periodicity) {
+                    const periodicity = taskData.periodicity;
+                    if (typeof taskData.id !== 'string' || !taskData.id || typeof taskData.title !== 'string' || !taskData.title || !StorageSchema.isRecord(periodicity)) {
                         errors.push(`Task ${i + 1}: Missing required fields (id, title, or periodicity)`);
                         continue;
                     }
 
+                    if (stores && !stores.some(store => store === (taskData.store || 'global'))) {
+                        continue;
+                    }
+
+                    try {
+                        StorageSchema.validatePeriodicity(periodicity);
+                    } catch (error) {
+                        errors.push(`Task "${taskData.title}": Invalid periodicity (${error instanceof Error ? error.message : String(error)}), skipped`);
+                        continue;
+                    }
+
                     // Check for duplicate IDs
-                    if (existingIds.has(taskData.id)) {
+                    let id = taskData.id;
+                    if (existingIds.has(id)) {
                         // Generate a new unique ID for the duplicate
-                        const originalId = taskData.id;
-                        taskData.id = this.generateId();
-                        errors.push(`Task "${taskData.title}": Duplicate ID ${originalId} found, assigned new ID ${taskData.id}`);
+                        const originalId = id;
+                        id = this.generateId();
+                        renamedIds.set(originalId, id);
+                        errors.push(`Task "${taskData.title}": Duplicate ID ${originalId} found, assigned new ID ${id}`);
                     }
 
+                    const { timer, activeWindow } = taskData;
+                    const store = this.getStores().find(available => available === taskData.store);
+
                     // Convert date strings back to Date objects
                     const task: Task = {
-                        id: taskData.id,
+                        id,
                         title: taskData.title,
-                        description: taskData.description || undefined,
-                        periodicity: taskData.periodicity,
-                        creationDate: new Date(taskData.creationDate || new Date()),
-                        dueDate: new Date(taskData.dueDate || new Date()),
-                        comments: taskData.comments ? taskData.comments.map((comment: any) => ({
-                            id: comment.id || this.generateCommentId(),
-                            text: comment.text || '',
-                            date: new Date(comment.date || new Date()),
-                            isValidation: comment.isValidation || false
+                        description: isString(taskData.description) && taskData.description ? taskData.description : undefined,
+                        periodicity: {
+                            ...periodicity,
+                            until: StorageSchema.toDate(periodicity.until)
+                        },
+                        creationDate: StorageSchema.toDate(taskData.creationDate) || new Date(),
+                        dueDate: StorageSchema.toDate(taskData.dueDate) || new Date(),
+                        seriesStart: StorageSchema.toDate(taskData.seriesStart),
+                        completedOccurrences: isWholeNumber(taskData.completedOccurrences, 0) ? taskData.completedOccurrences : undefined,
+                        hasDueTime: taskData.hasDueTime === true,
+                        timeZone: isString(taskData.timeZone) && TimeZoneUtil.isValidTimeZone(taskData.timeZone) ? taskData.timeZone : undefined,
+                        anchorMode: taskData.anchorMode === 'schedule' ? 'schedule' : 'completion',
+                        nonWorkingDayPolicy: taskData.nonWorkingDayPolicy === 'next' || taskData.nonWorkingDayPolicy === 'previous' ? taskData.nonWorkingDayPolicy : 'keep',
+                        catchUpPolicy: taskData.catchUpPolicy === 'skipMissed' || taskData.catchUpPolicy === 'oneAtATime' ? taskData.catchUpPolicy : 'collapse',
+                        comments: Array.isArray(taskData.comments) ? taskData.comments.filter(StorageSchema.isRecord).map(comment => ({
+                            id: isString(comment.id) && comment.id ? comment.id : this.generateCommentId(),
+                            text: isString(comment.text) ? comment.text : '',
+                            date: StorageSchema.toDate(comment.date) || new Date(),
+                            isValidation: comment.isValidation === true,
+                            kind: comment.kind === 'missed' || comment.kind === 'skipped' || comment.kind === 'postponed' ? comment.kind : undefined,
+                            missedCount: comment.kind === 'missed' && isWholeNumber(comment.missedCount, 2) ? comment.missedCount : undefined
                         })) : [],
-                        status: taskData.status || 'active'
+                        priority: PriorityHelper.isPriority(taskData.priority) ? taskData.priority : 'normal',
+                        tags: Array.isArray(taskData.tags) ? TagHelper.normalize(taskData.tags.filter(isString)) : undefined,
+                        checklist: Array.isArray(taskData.checklist) ? taskData.checklist
+                            .filter(StorageSchema.isRecord)
+                            .flatMap(item => isString(item.text) && item.text.trim() ? [{
+                                id: isString(item.id) && item.id ? item.id : this.generateChecklistItemId(),
+                                text: item.text,
+                                done: item.done === true,
+                                required: item.required === true
+                            }] : []) : undefined,
+                        occurrences: Array.isArray(taskData.occurrences) ? taskData.occurrences
+                            .filter(StorageSchema.isRecord)
+                            .flatMap(occurrence => {
+                                const scheduledDate = StorageSchema.toDate(occurrence.scheduledDate);
+                                const outcome = occurrence.outcome;
+                                return scheduledDate && (outcome === 'done' || outcome === 'skipped' || outcome === 'missed') ? [{
+                                    scheduledDate,
+                                    completedAt: StorageSchema.toDate(occurrence.completedAt),
+                                    outcome,
+                                    lateness: typeof occurrence.lateness === 'number' ? occurrence.lateness : undefined,
+                                    commentId: isString(occurrence.commentId) ? occurrence.commentId : undefined,
+                                    duration: typeof occurrence.duration === 'number' && occurrence.duration >= 0 ? occurrence.duration : undefined,
+                                    completedBy: isString(occurrence.completedBy) ? occurrence.completedBy : undefined
+                                }] : [];
+                            }) : undefined,
+                        assignees: Array.isArray(taskData.assignees) ? AssigneeHelper.normalize(taskData.assignees.filter(isString)) : undefined,
+                        rotationPolicy: taskData.rotationPolicy === 'weekly' ? 'weekly' : 'roundRobin',
+                        rotationIndex: isWholeNumber(taskData.rotationIndex, 0) ? taskData.rotationIndex : undefined,
+                        estimatedDuration: typeof taskData.estimatedDuration === 'number' && taskData.estimatedDuration > 0 ? taskData.estimatedDuration : undefined,
+                        timer: StorageSchema.isRecord(timer) && typeof timer.elapsed === 'number' ? {
+                            elapsed: timer.elapsed,
+                            runningSince: StorageSchema.toDate(timer.runningSince),
+                            paused: timer.paused === true || undefined
+                        } : undefined,
+                        dependsOn: Array.isArray(taskData.dependsOn) ? taskData.dependsOn.filter(isString) : undefined,
+                        postponedCount: isWholeNumber(taskData.postponedCount, 1) ? taskData.postponedCount : undefined,
+                        postponeLimit: isWholeNumber(taskData.postponeLimit, 0) ? taskData.postponeLimit : undefined,
+                        resumeDate: taskData.status === 'paused' ? StorageSchema.toDate(taskData.resumeDate) : undefined,
+                        activeWindow: StorageSchema.isRecord(activeWindow) && isWholeNumber(activeWindow.startMonth, 1) && isWholeNumber(activeWindow.endMonth, 1)
+                            && ActiveWindowHelper.isValid({ startMonth: activeWindow.startMonth, endMonth: activeWindow.endMonth })
+                            ? { startMonth: activeWindow.startMonth, endMonth: activeWindow.endMonth }
+                            : undefined,
+                        // Tasks of a store this window does not have go to the global store, as do the workspace and shared
+                        // tasks of another workspace (or of an export that does not tell which workspace it comes from)
+                        store: store && (store === 'global' || parsedData.workspace === this.storageManager.getWorkspaceId())
+                            ? store
+                            : 'global',
+                        status: taskData.status === 'archived' || taskData.status === 'paused' ? taskData.status : 'active'
                     };
 
                     // Add the task
                     this.tasks.push(task);
+                    importedTasks.push(task);
                     existingIds.add(task.id);
                     imported++;
 
@@ -363,18 +1397,36 @@ export class TaskManager {
                 }
             }
 
+            // Point prerequisites to the IDs the tasks were imported with, dropping unknown ones and cycles
+            for (const task of importedTasks.filter(task => task.dependsOn)) {
+                task.dependsOn = [...new Set(task.dependsOn!.map(id => renamedIds.get(id) || id))]
+                    .filter(id => this.tasks.some(other => other.id === id));
+                try {
+                    this.assertNoDependencyCycle(task, task.dependsOn);
+                } catch (cycleError) {
+                    task.dependsOn = [];
+                    errors.push(`Task "${task.title}": ${cycleError instanceof Error ? cycleError.message : cycleError}, prerequisites removed`);
+                }
+            }
+
             // Save tasks if any were imported
             if (imported > 0) {
-                this.saveTasks();
+                this.saveTasks(operation);
             }
 
-            const message = imported > 0 
+            const importedTemplates = Array.isArray(parsedData.templates) ? this.importTemplates(parsedData.templates, errors) : 0;
+
+            let message = imported > 0 
                 ? `Successfully imported ${imported} task${imported === 1 ? '' : 's'}`
                 : 'No tasks were imported';
+            if (importedTemplates > 0) {
+                message += ` and ${importedTemplates} template${importedTemplates === 1 ? '' : 's'}`;
+            }
 
             return {
-                success: imported > 0,
+                success: imported > 0 || importedTemplates > 0,
                 imported,
+                importedTemplates,
                 errors,
                 message: errors.length > 0 ? `${message}. ${errors.length} warning(s)/error(s) occurred.` : message
             };
@@ -383,9 +1435,66 @@ export class TaskManager {
             return {
                 success: false,
                 imported: 0,
+                importedTemplates: 0,
                 errors: [`JSON parsing error: ${parseError}`],
                 message: 'Import failed: Invalid JSON format'
             };
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * Imports templates from parsed JSON data, skipping the ones whose name is already taken
+     * Returns the number of templates imported, adding any errors encountered to the list
+     */
+    private importTemplates(templatesData: unknown[], errors: string[]): number {
+        let imported = 0;
+
+        for (let i = 0; i < templatesData.length; i++) {
+            const templateData = templatesData[i];
+            const templatePeriodicity = StorageSchema.isRecord(templateData) ? templateData.periodicity : undefined;
+
+            if (!StorageSchema.isRecord(templateData) || typeof templateData.name !== 'string' || !templateData.name.trim() || typeof templateData.titlePattern !== 'string'
+                || !StorageSchema.isRecord(templatePeriodicity) || !templatePeriodicity.type) {
+                errors.push(`Template ${i + 1}: Missing required fields (name, titlePattern, or periodicity)`);
+                continue;
+            }
+
+            try {
+                StorageSchema.validatePeriodicity(templatePeriodicity);
+            } catch (error) {
+                errors.push(`Template "${templateData.name}": Invalid periodicity (${error instanceof Error ? error.message : String(error)}), skipped`);
+                continue;
+            }
+
+            const name = templateData.name.trim();
+            if (this.templates.some(template => template.name.toLowerCase() === name.toLowerCase())) {
+                errors.push(`Template "${name}": A template with this name already exists, skipped`);
+                continue;
+            }
+
+            const { until: _until, ...periodicity } = templatePeriodicity;
+            this.templates.push({
+                id: typeof templateData.id === 'string' && !this.templates.some(template => template.id === templateData.id) ? templateData.id : this.generateTemplateId(),
+                name,
+                titlePattern: templateData.titlePattern,
+                description: typeof templateData.description === 'string' ? templateData.description : undefined,
+                periodicity,
+                anchorMode: templateData.anchorMode === 'schedule' ? 'schedule' : 'completion',
+                nonWorkingDayPolicy: templateData.nonWorkingDayPolicy === 'next' || templateData.nonWorkingDayPolicy === 'previous' ? templateData.nonWorkingDayPolicy : 'keep',
+                catchUpPolicy: templateData.catchUpPolicy === 'skipMissed' || templateData.catchUpPolicy === 'oneAtATime' ? templateData.catchUpPolicy : 'collapse',
+                priority: PriorityHelper.isPriority(templateData.priority) ? templateData.priority : 'normal',
+                tags: Array.isArray(templateData.tags) ? TagHelper.normalize(templateData.tags.filter((tag: unknown): tag is string => typeof tag === 'string')) : undefined,
+                checklist: Array.isArray(templateData.checklist) ? templateData.checklist
+                    .filter(StorageSchema.isRecord)
+                    .flatMap(item => typeof item.text === 'string' && item.text.trim() ? [{ text: item.text, required: item.required === true }] : []) : undefined
+            });
+            imported++;
+        }
+
+        if (imported > 0) {
+            this.saveTemplates();
+        }
+
+        return imported;
+    }
+}
\ No newline at end of file
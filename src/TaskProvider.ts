@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { l10n } from 'vscode';
-import { Task } from './Task';
+import { Task, TagHelper, PriorityHelper, TaskPriority, AssigneeHelper, TaskStore } from './Task';
 import { TaskManager } from './TaskManager';
 import { TaskStatusUtil } from './TaskStatusUtil';
 
@@ -11,13 +11,38 @@ export class TaskTreeItem extends vscode.TreeItem {
     constructor(
         public readonly task: Task,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly contextValue: 'overdue' | 'dueSoon' | 'normal' | 'archived'
+        public readonly contextValue: 'overdue' | 'dueSoon' | 'normal' | 'paused' | 'archived',
+        blockingTasks: Task[] = []
     ) {
         super(task.title, collapsibleState);
         
         this.tooltip = task.description ? `${task.title} - ${task.description}` : task.title;
+        if (task.tags && task.tags.length > 0) {
+            this.tooltip += `\n${task.tags.map(tag => `#${tag}`).join(' ')}`;
+        }
+        const priority = TaskStatusUtil.getEffectivePriority(task);
+        if (priority !== 'normal' || priority !== (task.priority || 'normal')) {
+            this.tooltip += `\n${TaskTreeItem.formatPriority(task, priority)}`;
+        }
+        const isBlocked = contextValue !== 'archived' && blockingTasks.length > 0;
+        if (isBlocked) {
+            this.tooltip += `\n${TaskStatusUtil.formatBlockedBy(blockingTasks)}`;
+        }
+        if (task.postponedCount) {
+            this.tooltip += `\n${TaskStatusUtil.formatPostponed(task)}`;
+        }
+        const assignee = TaskStatusUtil.formatAssignee(task);
+        if (assignee) {
+            this.tooltip += `\n${l10n.t('Assigned to {0}', assignee)}`;
+        }
         if (contextValue !== 'archived') {
-            this.description = TaskStatusUtil.getComprehensiveStatus(task);
+            const currentAssignee = AssigneeHelper.getCurrentAssignee(task);
+            this.description = [
+                ...(isBlocked ? [l10n.t('Blocked')] : []),
+                ...(TaskStatusUtil.isPostponedTooOften(task) ? [l10n.t('Postponed {0}×', task.postponedCount || 0)] : []),
+                ...(currentAssignee ? [`@${currentAssignee}`] : []),
+                TaskStatusUtil.getComprehensiveStatus(task)
+            ].join(' • ');
         }
         
         // Add command to show task details when clicked
@@ -27,33 +52,96 @@ export class TaskTreeItem extends vscode.TreeItem {
             arguments: [task]
         };
         
-        // Set icon based on task status
+        // Set icon based on task status, showing the priority of important and minor tasks in the status color
+        // and a lock for tasks waiting for their prerequisites
         if (contextValue === 'archived') {
             this.iconPath = new vscode.ThemeIcon('archive');
+        } else if (contextValue === 'paused') {
+            this.iconPath = new vscode.ThemeIcon('debug-pause');
         } else if (TaskStatusUtil.isOverdue(task)) {
-            this.iconPath = new vscode.ThemeIcon('error');
+            this.iconPath = TaskTreeItem.getStatusIcon(isBlocked, priority, 'errorForeground') || new vscode.ThemeIcon('error');
             this.contextValue = 'overdue';
         } else if (TaskStatusUtil.isDueSoon(task)) {
-            this.iconPath = new vscode.ThemeIcon('warning');
+            this.iconPath = TaskTreeItem.getStatusIcon(isBlocked, priority, 'editorWarning.foreground') || new vscode.ThemeIcon('warning');
             this.contextValue = 'dueSoon';
         } else {
-            this.iconPath = new vscode.ThemeIcon('tasklist');
+            this.iconPath = TaskTreeItem.getStatusIcon(isBlocked, priority) || new vscode.ThemeIcon('tasklist');
             this.contextValue = 'normal';
         }
     }
+
+    /**
+     * Gets the icon of a blocked task or of its priority, in the color of its status
+     */
+    private static getStatusIcon(isBlocked: boolean, priority: TaskPriority, color?: string): vscode.ThemeIcon | undefined {
+        if (isBlocked) {
+            return new vscode.ThemeIcon('lock', color ? new vscode.ThemeColor(color) : undefined);
+        }
+        return TaskTreeItem.getPriorityIcon(priority, color);
+    }
+
+    /**
+     * Gets the icon of a priority (normal priority tasks keep their status icon)
+     */
+    private static getPriorityIcon(priority: TaskPriority, color?: string): vscode.ThemeIcon | undefined {
+        const icons: Record<TaskPriority, string | undefined> = { critical: 'flame', high: 'arrow-up', normal: undefined, low: 'arrow-down' };
+        const icon = icons[priority];
+        return icon ? new vscode.ThemeIcon(icon, color ? new vscode.ThemeColor(color) : undefined) : undefined;
+    }
+
+    /**
+     * Describes the priority of a task, mentioning an escalation
+     */
+    private static formatPriority(task: Task, priority: TaskPriority): string {
+        const labels: Record<TaskPriority, string> = {
+            critical: l10n.t('Critical'),
+            high: l10n.t('High'),
+            normal: l10n.t('Normal'),
+            low: l10n.t('Low')
+        };
+        return priority !== (task.priority || 'normal')
+            ? l10n.t('Priority: {0} (escalated from {1})', labels[priority], labels[task.priority || 'normal'])
+            : l10n.t('Priority: {0}', labels[priority]);
+    }
 }
 
 class CategoryTreeItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public tasks: Task[]
+        public tasks: Task[],
+        icon?: string
     ) {
         super(label, collapsibleState);
         this.contextValue = 'category';
+        if (icon) {
+            this.iconPath = new vscode.ThemeIcon(icon);
+        }
+    }
+}
+
+/**
+ * Tree item grouping the tasks of a store, shown when the workspace store is available
+ */
+class StoreTreeItem extends vscode.TreeItem {
+    constructor(public readonly store: TaskStore) {
+        super(TaskStatusUtil.formatStore(store), vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'store';
+        const icons: Record<TaskStore, string> = { global: 'globe', workspace: 'root-folder', shared: 'repo' };
+        this.iconPath = new vscode.ThemeIcon(icons[store]);
     }
 }
 
+/**
+ * How the tasks of the tree are grouped
+ */
+export type TaskGrouping = 'status' | 'tag';
+
+/**
+ * How the tasks of each group are ordered
+ */
+export type TaskSortMode = 'dueDate' | 'priority' | 'urgency';
+
 /**
  * Tree data provider for displaying tasks in the sidebar
  */
@@ -78,10 +166,122 @@ export class TaskProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
     }
 
     /**
-     * Sorts tasks by due date with overdue tasks at the top
+     * Sorts tasks according to the recurringTasks.tree.sortBy setting:
+     * by due date, by priority then due date, or by urgency (due date weighted by priority)
      */
     private sortTasks(tasks: Task[]): Task[] {
-        return tasks.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+        const byDueDate = (a: Task, b: Task) => a.dueDate.getTime() - b.dueDate.getTime();
+
+        switch (TaskProvider.getSortMode()) {
+            case 'priority':
+                return tasks.sort((a, b) =>
+                    PriorityHelper.getRank(TaskStatusUtil.getEffectivePriority(a)) - PriorityHelper.getRank(TaskStatusUtil.getEffectivePriority(b))
+                    || byDueDate(a, b)
+                );
+            case 'urgency':
+                return tasks.sort((a, b) => TaskStatusUtil.getUrgencyScore(a) - TaskStatusUtil.getUrgencyScore(b) || byDueDate(a, b));
+            default:
+                return tasks.sort(byDueDate);
+        }
+    }
+
+    /**
+     * Gets the sort mode chosen in the recurringTasks.tree.sortBy setting
+     */
+    static getSortMode(): TaskSortMode {
+        const sortMode = vscode.workspace.getConfiguration('recurringTasks.tree').get<string>('sortBy', 'dueDate');
+        return sortMode === 'priority' || sortMode === 'urgency' ? sortMode : 'dueDate';
+    }
+
+    /**
+     * Checks if the tree only shows the tasks assigned to the user (recurringTasks.tree.assignedToMeOnly setting)
+     */
+    static isAssignedToMeOnly(): boolean {
+        return vscode.workspace.getConfiguration('recurringTasks.tree').get<boolean>('assignedToMeOnly', false);
+    }
+
+    /**
+     * Keeps the tasks of a store (all stores if none is given), and only those currently assigned to the user
+     * when the tree is filtered to them
+     */
+    private filterTasks(tasks: Task[], store?: TaskStore): Task[] {
+        const storeTasks = store ? tasks.filter(task => (task.store || 'global') === store) : tasks;
+        const identity = TaskStatusUtil.getIdentity();
+        if (!TaskProvider.isAssignedToMeOnly() || !identity) {
+            return storeTasks;
+        }
+        return storeTasks.filter(task => AssigneeHelper.isAssignedTo(task, identity));
+    }
+
+    /**
+     * Gets the grouping chosen in the recurringTasks.tree.groupBy setting
+     */
+    static getGrouping(): TaskGrouping {
+        return vscode.workspace.getConfiguration('recurringTasks.tree').get<TaskGrouping>('groupBy', 'status') === 'tag' ? 'tag' : 'status';
+    }
+
+    /**
+     * Groups active tasks by tag (a task with several tags shows up under each of them)
+     */
+    private getTagCategories(store?: TaskStore): CategoryTreeItem[] {
+        const activeTasks = this.filterTasks(this.taskManager.getTasks(), store);
+        const categories: CategoryTreeItem[] = [];
+
+        for (const tag of this.taskManager.getAllTags()) {
+            const taggedTasks = activeTasks.filter(task => TagHelper.hasTag(task, tag));
+            if (taggedTasks.length > 0) {
+                categories.push(new CategoryTreeItem(`#${tag}`, vscode.TreeItemCollapsibleState.Expanded, taggedTasks, 'tag'));
+            }
+        }
+
+        const untaggedTasks = activeTasks.filter(task => !task.tags || task.tags.length === 0);
+        if (untaggedTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Untagged'), vscode.TreeItemCollapsibleState.Expanded, untaggedTasks));
+        }
+
+        const pausedTasks = this.filterTasks(this.taskManager.getPausedTasks(), store);
+        if (pausedTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Paused'), vscode.TreeItemCollapsibleState.Collapsed, pausedTasks));
+        }
+
+        const archivedTasks = this.filterTasks(this.taskManager.getArchivedTasks(), store);
+        if (archivedTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Archived'), vscode.TreeItemCollapsibleState.Collapsed, archivedTasks));
+        }
+
+        return categories;
+    }
+
+    /**
+     * Groups the tasks of a store (all stores if none is given) by status
+     */
+    private getStatusCategories(store?: TaskStore): CategoryTreeItem[] {
+        const overdueTasks = this.filterTasks(this.taskManager.getOverdueTasks(), store);
+        const dueSoonTasks = this.filterTasks(this.taskManager.getTasks(), store).filter(task => TaskStatusUtil.isDueSoon(task));
+        const otherTasks = this.filterTasks(this.taskManager.getTasks(), store).filter(task => 
+            !TaskStatusUtil.isOverdue(task) && !TaskStatusUtil.isDueSoon(task)
+        );
+        const pausedTasks = this.filterTasks(this.taskManager.getPausedTasks(), store);
+        const archivedTasks = this.filterTasks(this.taskManager.getArchivedTasks(), store);
+
+        const categories: CategoryTreeItem[] = [];
+        if (overdueTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Overdue'), vscode.TreeItemCollapsibleState.Expanded, overdueTasks));
+        }
+        if (dueSoonTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Due Soon'), vscode.TreeItemCollapsibleState.Expanded, dueSoonTasks));
+        }
+        if (otherTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Upcoming'), vscode.TreeItemCollapsibleState.Expanded, otherTasks));
+        }
+        if (pausedTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Paused'), vscode.TreeItemCollapsibleState.Collapsed, pausedTasks));
+        }
+        if (archivedTasks.length > 0) {
+            categories.push(new CategoryTreeItem(l10n.t('Archived'), vscode.TreeItemCollapsibleState.Collapsed, archivedTasks));
+        }
+
+        return categories;
     }
 
     /**
@@ -91,41 +291,38 @@ export class TaskProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
         if (element instanceof CategoryTreeItem) {
             return Promise.resolve(
                 this.sortTasks(element.tasks).map(task => {
-                    if (element.label === 'Archived') {
+                    if (task.status === 'archived') {
                         return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'archived');
                     }
+                    if (task.status === 'paused') {
+                        return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'paused');
+                    }
+                    const blockingTasks = this.taskManager.getBlockingTasks(task.id);
                     if (TaskStatusUtil.isOverdue(task)) {
-                        return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'overdue');
+                        return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'overdue', blockingTasks);
                     }
                     if (TaskStatusUtil.isDueSoon(task)) {
-                        return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'dueSoon');
+                        return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'dueSoon', blockingTasks);
                     }
-                    return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'normal');
+                    return new TaskTreeItem(task, vscode.TreeItemCollapsibleState.None, 'normal', blockingTasks);
                 })
             );
-        } else {
-            const overdueTasks = this.taskManager.getOverdueTasks();
-            const dueSoonTasks = this.taskManager.getTasks().filter(task => TaskStatusUtil.isDueSoon(task));
-            const otherTasks = this.taskManager.getTasks().filter(task => 
-                !TaskStatusUtil.isOverdue(task) && !TaskStatusUtil.isDueSoon(task)
-            );
-            const archivedTasks = this.taskManager.getArchivedTasks();
-
-            const categories: CategoryTreeItem[] = [];
-            if (overdueTasks.length > 0) {
-                categories.push(new CategoryTreeItem(l10n.t('Overdue'), vscode.TreeItemCollapsibleState.Expanded, overdueTasks));
-            }
-            if (dueSoonTasks.length > 0) {
-                categories.push(new CategoryTreeItem(l10n.t('Due Soon'), vscode.TreeItemCollapsibleState.Expanded, dueSoonTasks));
-            }
-            if (otherTasks.length > 0) {
-                categories.push(new CategoryTreeItem(l10n.t('Upcoming'), vscode.TreeItemCollapsibleState.Expanded, otherTasks));
-            }
-            if (archivedTasks.length > 0) {
-                categories.push(new CategoryTreeItem(l10n.t('Archived'), vscode.TreeItemCollapsibleState.Collapsed, archivedTasks));
-            }
+        } else if (element instanceof StoreTreeItem) {
+            return Promise.resolve(this.getCategories(element.store));
+        }
 
-            return Promise.resolve(categories);
+        // With a workspace open, each store gets its own section
+        const stores = this.taskManager.getStores();
+        if (stores.length > 1) {
+            return Promise.resolve(stores.map(store => new StoreTreeItem(store)));
         }
+        return Promise.resolve(this.getCategories());
+    }
+
+    /**
+     * Groups the tasks of a store (all stores if none is given) as chosen in the recurringTasks.tree.groupBy setting
+     */
+    private getCategories(store?: TaskStore): CategoryTreeItem[] {
+        return TaskProvider.getGrouping() === 'tag' ? this.getTagCategories(store) : this.getStatusCategories(store);
     }
 } 
\ No newline at end of file
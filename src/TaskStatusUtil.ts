@@ -1,5 +1,7 @@
-import { Task } from './Task';
-import { l10n } from 'vscode';
+import { Task, PeriodicityHelper, PriorityHelper, TaskPriority, AssigneeHelper, ActiveWindow, PostponeHelper, TaskStore } from './Task';
+import { RecurrenceRuleHelper } from './RecurrenceRule';
+import { TimeZoneUtil } from './TimeZoneUtil';
+import { env, l10n, window, workspace } from 'vscode';
 
 /**
  * Utility class for calculating task status, progress, and time-related information
@@ -22,6 +24,20 @@ export class TaskStatusUtil {
 
         if (diffDays < 0) {
             return l10n.t('Overdue by {0} day{1}', Math.abs(diffDays), Math.abs(diffDays) !== 1 ? 's' : '');
+        } else if (diffDays === 0 && task.hasDueTime) {
+            // Tasks due at a given time today count down in hours, then minutes
+            const diffMinutes = Math.round((dueDate.getTime() - now.getTime()) / (1000 * 60));
+            const hours = Math.floor(Math.abs(diffMinutes) / 60);
+            const minutes = Math.abs(diffMinutes) % 60;
+
+            if (diffMinutes < 0) {
+                return hours > 0
+                    ? l10n.t('Overdue by {0} hour{1}', hours, hours !== 1 ? 's' : '')
+                    : l10n.t('Overdue by {0} minute{1}', minutes, minutes !== 1 ? 's' : '');
+            }
+            return hours > 0
+                ? l10n.t('Due in {0} hour{1}', hours, hours !== 1 ? 's' : '')
+                : l10n.t('Due in {0} minute{1}', minutes, minutes !== 1 ? 's' : '');
         } else if (diffDays === 0) {
             return l10n.t('Due today');
         } else if (diffDays === 1) {
@@ -75,104 +91,72 @@ export class TaskStatusUtil {
      * Gets the start date of the current period
      */
     static getCurrentPeriodStart(task: Task): Date {
-        const periodicity = task.periodicity;
-        const dueDate = task.dueDate;
-        
-        // For one-shot tasks, use the creation date as the period start
-        if (!periodicity.isRecurring || periodicity.type === 'none') {
-            return new Date(task.creationDate);
-        }
-        
-        // Calculate the start of the current period by subtracting the periodicity
-        const currentPeriodStart = new Date(dueDate);
-        
-        switch (periodicity.type) {
-            case 'daily':
-                currentPeriodStart.setDate(currentPeriodStart.getDate() - 1);
-                break;
-            case 'weekly':
-                currentPeriodStart.setDate(currentPeriodStart.getDate() - 7);
-                break;
-            case 'monthly':
-                currentPeriodStart.setMonth(currentPeriodStart.getMonth() - 1);
-                break;
-            case 'yearly':
-                currentPeriodStart.setFullYear(currentPeriodStart.getFullYear() - 1);
-                break;
-            case 'custom':
-                if (periodicity.interval) {
-                    currentPeriodStart.setDate(currentPeriodStart.getDate() - periodicity.interval);
-                } else {
-                    // Fallback to daily
-                    currentPeriodStart.setDate(currentPeriodStart.getDate() - 1);
-                }
-                break;
-        }
-        
-        return currentPeriodStart;
+        // The current period starts at the occurrence preceding the due date;
+        // one-shot tasks use the creation date as the period start
+        const previousDueDate = PeriodicityHelper.calculatePreviousDueDate(task.dueDate, task.periodicity, task);
+        return previousDueDate || new Date(task.creationDate);
+    }
+
+    /**
+     * Gets the length of the current period in days
+     */
+    private static getPeriodLengthInDays(task: Task): number {
+        const periodStart = TaskStatusUtil.getCurrentPeriodStart(task);
+        return (task.dueDate.getTime() - periodStart.getTime()) / (24 * 60 * 60 * 1000);
+    }
+
+    /**
+     * Checks if the task recurs every one or two days
+     */
+    private static hasShortPeriod(task: Task): boolean {
+        const rule = PeriodicityHelper.getRule(task.periodicity);
+        return (rule !== null || PeriodicityHelper.isCron(task.periodicity)) && TaskStatusUtil.getPeriodLengthInDays(task) <= 2;
     }
 
     /**
      * Calculates the "due soon" threshold in milliseconds based on periodicity
      */
     static getDueSoonThreshold(task: Task): number {
-        const periodicity = task.periodicity;
+        const rule = PeriodicityHelper.getRule(task.periodicity);
         
         // For one-shot tasks, use a 1-day threshold
-        if (!periodicity.isRecurring || periodicity.type === 'none') {
+        if (!rule && !PeriodicityHelper.isCron(task.periodicity)) {
             return 24 * 60 * 60 * 1000; // 1 day
         }
         
-        // Handle daily tasks - consider them "due soon" if due today or tomorrow
-        if (periodicity.type === 'daily') {
+        const periodInDays = TaskStatusUtil.getPeriodLengthInDays(task);
+        
+        // Handle daily tasks and 1-2 day periods - consider them "due soon" if due within 1 day
+        if (periodInDays <= 2) {
             return 24 * 60 * 60 * 1000; // 1 day
         }
         
         // Calculate threshold as a percentage of the periodicity
-        let thresholdPercentage = 0.25; // 25% of the period by default
-        let periodInMs: number;
-        
-        // Adjust percentage and calculate period based on periodicity type
-        switch (periodicity.type) {
-            case 'weekly':
-                thresholdPercentage = 0.3; // 30% for weekly tasks
-                periodInMs = 7 * 24 * 60 * 60 * 1000; // 7 days
-                break;
-            case 'monthly':
-                thresholdPercentage = 0.2; // 20% for monthly tasks
-                periodInMs = 30.44 * 24 * 60 * 60 * 1000; // ~30.44 days
-                break;
-            case 'yearly':
-                thresholdPercentage = 0.05; // 5% for yearly tasks
-                periodInMs = 365.25 * 24 * 60 * 60 * 1000; // ~365.25 days
-                break;
-            case 'custom':
-                if (periodicity.interval) {
-                    periodInMs = periodicity.interval * 24 * 60 * 60 * 1000;
-                    // For custom intervals, use a more generous threshold for short periods
-                    if (periodicity.interval <= 2) {
-                        // For 1-2 day intervals, consider them due soon if due within 1 day
-                        return 24 * 60 * 60 * 1000;
-                    } else if (periodicity.interval <= 7) {
-                        thresholdPercentage = 0.4; // 40% for short weekly intervals
-                    } else if (periodicity.interval <= 30) {
-                        thresholdPercentage = 0.25; // 25% for monthly intervals
-                    } else {
-                        thresholdPercentage = 0.1; // 10% for longer intervals
-                    }
-                } else {
-                    // Fallback to daily
-                    periodInMs = 24 * 60 * 60 * 1000;
-                    thresholdPercentage = 0.33;
-                }
-                break;
-            default:
-                periodInMs = 24 * 60 * 60 * 1000; // Default to 1 day
-                thresholdPercentage = 0.25;
+        let thresholdPercentage: number;
+        
+        if (rule && rule.interval === 1 && RecurrenceRuleHelper.isSimple(rule) && rule.freq !== 'DAILY') {
+            // Plain weekly, monthly and yearly rules use fixed percentages
+            switch (rule.freq) {
+                case 'WEEKLY':
+                    thresholdPercentage = 0.3; // 30% for weekly tasks
+                    break;
+                case 'MONTHLY':
+                    thresholdPercentage = 0.2; // 20% for monthly tasks
+                    break;
+                default:
+                    thresholdPercentage = 0.05; // 5% for yearly tasks
+                    break;
+            }
+        } else if (periodInDays <= 7) {
+            thresholdPercentage = 0.4; // 40% for short weekly intervals
+        } else if (periodInDays <= 30) {
+            thresholdPercentage = 0.25; // 25% for monthly intervals
+        } else {
+            thresholdPercentage = 0.1; // 10% for longer intervals
         }
         
         // Calculate threshold in milliseconds
-        const thresholdMs = periodInMs * thresholdPercentage;
+        const thresholdMs = periodInDays * 24 * 60 * 60 * 1000 * thresholdPercentage;
         
         // Apply minimum and maximum bounds
         const minThreshold = 24 * 60 * 60 * 1000; // 1 day minimum
@@ -194,8 +178,7 @@ export class TaskStatusUtil {
         }
         
         // For daily tasks and short periodicity, consider them "due soon" if due today
-        if (task.periodicity.type === 'daily' || 
-            (task.periodicity.type === 'custom' && task.periodicity.interval && task.periodicity.interval <= 2)) {
+        if (TaskStatusUtil.hasShortPeriod(task)) {
             
             // Compare dates by setting time to start of day
             const nowDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -215,7 +198,258 @@ export class TaskStatusUtil {
      * Checks if the task is overdue
      */
     static isOverdue(task: Task): boolean {
-        return task.dueDate < new Date();
+        const now = new Date();
+
+        if (task.hasDueTime) {
+            return task.dueDate < now;
+        }
+
+        // Tasks without a due time are due for the whole day
+        const nowDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        return task.dueDate < nowDate;
+    }
+
+    /**
+     * Formats the due date of a task, with its time and time zone when it has a due time
+     */
+    static formatDueDate(task: Task): string {
+        if (!task.hasDueTime) {
+            return task.dueDate.toLocaleDateString();
+        }
+
+        const dateTime = task.dueDate.toLocaleString(undefined, {
+            dateStyle: 'short',
+            timeStyle: 'short',
+            timeZone: task.timeZone
+        });
+        return task.timeZone && task.timeZone !== TimeZoneUtil.getLocalTimeZone() ? `${dateTime} (${task.timeZone})` : dateTime;
+    }
+
+    /**
+     * Gets the priority of a task, escalated one level for every recurringTasks.priority.escalateAfterDays days overdue
+     */
+    static getEffectivePriority(task: Task): TaskPriority {
+        const escalateAfterDays = workspace.getConfiguration('recurringTasks.priority').get<number>('escalateAfterDays', 0);
+        const daysOverdue = TaskStatusUtil.getDaysOverdue(task);
+
+        if (escalateAfterDays <= 0 || daysOverdue < escalateAfterDays || task.status !== 'active') {
+            return task.priority || 'normal';
+        }
+        return PriorityHelper.escalate(task.priority, Math.floor(daysOverdue / escalateAfterDays));
+    }
+
+    /**
+     * Gets the number of whole days a task has been overdue (0 if it is not)
+     */
+    static getDaysOverdue(task: Task): number {
+        if (!TaskStatusUtil.isOverdue(task)) {
+            return 0;
+        }
+
+        const dayMs = 1000 * 60 * 60 * 24;
+        if (task.hasDueTime) {
+            return Math.floor((Date.now() - task.dueDate.getTime()) / dayMs);
+        }
+
+        // Tasks without a due time count calendar days since their due day, as in getTimeRemaining
+        const today = new Date();
+        const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+        const dueDayStart = new Date(task.dueDate.getFullYear(), task.dueDate.getMonth(), task.dueDate.getDate());
+        return Math.round((todayStart.getTime() - dueDayStart.getTime()) / dayMs);
+    }
+
+    /**
+     * Scores how urgently a task should be handled, in days: the time until it is due, minus a head start for
+     * important tasks. Lower scores are more urgent (a critical task due in a week ranks like a normal task due today).
+     */
+    static getUrgencyScore(task: Task): number {
+        const headStartDays: Record<TaskPriority, number> = { critical: 7, high: 3, normal: 0, low: -3 };
+        const daysUntilDue = (task.dueDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+        return daysUntilDue - headStartDays[TaskStatusUtil.getEffectivePriority(task)];
+    }
+
+    /**
+     * Gets the reason a task cannot be validated yet, if validation is blocked by unchecked required checklist steps
+     */
+    static getValidationBlocker(task: Task): string | undefined {
+        const blockValidation = workspace.getConfiguration('recurringTasks.checklist').get<boolean>('blockValidation', false);
+        const missingItems = (task.checklist || []).filter(item => item.required && !item.done);
+
+        if (!blockValidation || missingItems.length === 0) {
+            return undefined;
+        }
+        return l10n.t('Complete the required checklist steps before validating: {0}', missingItems.map(item => item.text).join(', '));
+    }
+
+    /**
+     * Gets the time tracked on the current occurrence of a task, in milliseconds, including a running timer
+     */
+    static getTrackedTime(task: Task, now: Date = new Date()): number {
+        if (!task.timer) {
+            return 0;
+        }
+
+        const running = task.timer.runningSince ? Math.max(0, now.getTime() - task.timer.runningSince.getTime()) : 0;
+        return task.timer.elapsed + running;
+    }
+
+    /**
+     * Averages the time tracked on the validated occurrences of a task
+     * @returns The average duration in milliseconds (undefined if no occurrence was tracked) and the number of tracked occurrences
+     */
+    static getDurationStats(task: Task): { average: number | undefined; count: number } {
+        const durations = (task.occurrences || [])
+            .filter(occurrence => occurrence.outcome === 'done' && occurrence.duration !== undefined)
+            .map(occurrence => occurrence.duration!);
+
+        return {
+            average: durations.length > 0 ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length : undefined,
+            count: durations.length
+        };
+    }
+
+    /**
+     * Formats a duration in milliseconds as hours and minutes, e.g. "1h 05m" or "12m"
+     */
+    static formatDuration(duration: number): string {
+        const totalMinutes = Math.round(duration / (1000 * 60));
+        const hours = Math.floor(totalMinutes / 60);
+        const minutes = totalMinutes % 60;
+
+        return hours > 0
+            ? l10n.t('{0}h {1}m', hours, String(minutes).padStart(2, '0'))
+            : l10n.t('{0}m', minutes);
+    }
+
+    /**
+     * Gets the name of the user as it appears in assignee lists, from the recurringTasks.assignees.identity setting
+     */
+    static getIdentity(): string | undefined {
+        return workspace.getConfiguration('recurringTasks.assignees').get<string>('identity', '').trim() || undefined;
+    }
+
+    /**
+     * Describes who is assigned to a task, and who takes the next turn when the task rotates, e.g. "Alice (next: Bob)"
+     */
+    static formatAssignee(task: Task): string | undefined {
+        const assignee = AssigneeHelper.getCurrentAssignee(task);
+        const nextAssignee = AssigneeHelper.getNextAssignee(task);
+
+        if (!assignee) {
+            return undefined;
+        }
+        return nextAssignee && nextAssignee !== assignee ? l10n.t('{0} (next: {1})', assignee, nextAssignee) : assignee;
+    }
+
+    /**
+     * Gets the number of postponements in a row after which a task is flagged (0 never flags)
+     */
+    static getPostponeLimit(task: Task): number {
+        return task.postponeLimit ?? workspace.getConfiguration('recurringTasks.postpone').get<number>('limit', 3);
+    }
+
+    /**
+     * Checks if a task was postponed more times in a row than its limit allows
+     */
+    static isPostponedTooOften(task: Task): boolean {
+        return PostponeHelper.isOverLimit(task, TaskStatusUtil.getPostponeLimit(task));
+    }
+
+    /**
+     * Describes how many times in a row a task was postponed, mentioning its limit
+     */
+    static formatPostponed(task: Task): string {
+        const count = task.postponedCount || 0;
+        const limit = TaskStatusUtil.getPostponeLimit(task);
+        return limit > 0
+            ? l10n.t('Postponed {0} times in a row (limit {1})', count, limit)
+            : l10n.t('Postponed {0} times in a row', count);
+    }
+
+    /**
+     * Describes a paused task and when it resumes, e.g. "Paused until 10/1/2026"
+     */
+    static formatPaused(task: Task): string {
+        return task.resumeDate
+            ? l10n.t('Paused until {0}', task.resumeDate.toLocaleDateString(env.language || 'en-US'))
+            : l10n.t('Paused');
+    }
+
+    /**
+     * Gets the name of a store, e.g. "Global", "Workspace (my-project)" or "Shared (.vscode/recurring-tasks.json)"
+     */
+    static formatStore(store: TaskStore): string {
+        switch (store) {
+            case 'workspace':
+                return l10n.t('Workspace ({0})', workspace.name || l10n.t('untitled'));
+            case 'shared':
+                return l10n.t('Shared ({0})', workspace.getConfiguration('recurringTasks.storage').get<string>('sharedFile', '.vscode/recurring-tasks.json'));
+            default:
+                return l10n.t('Global');
+        }
+    }
+
+    /**
+     * Gets the store new tasks go to (recurringTasks.storage.defaultStore setting), if it is available
+     */
+    static getDefaultStore(availableStores: TaskStore[]): TaskStore {
+        const store = workspace.getConfiguration('recurringTasks.storage').get<TaskStore>('defaultStore', 'global');
+        return availableStores.includes(store) ? store : 'global';
+    }
+
+    /**
+     * Describes the months of an active window, e.g. "Oct – Mar"
+     */
+    static formatActiveWindow(activeWindow: ActiveWindow): string {
+        const formatMonth = (month: number) => new Date(2000, month - 1, 1).toLocaleDateString(env.language || 'en-US', { month: 'short' });
+        return activeWindow.startMonth === activeWindow.endMonth
+            ? formatMonth(activeWindow.startMonth)
+            : `${formatMonth(activeWindow.startMonth)} – ${formatMonth(activeWindow.endMonth)}`;
+    }
+
+    /**
+     * Describes the prerequisites a task is waiting for
+     */
+    static formatBlockedBy(blockingTasks: Task[]): string {
+        return l10n.t('Blocked by: {0}', blockingTasks.map(task => task.title).join(', '));
+    }
+
+    /**
+     * Asks whether to validate a task whose prerequisites are not done yet
+     * @returns true if the task is not blocked or the user chose to validate it anyway
+     */
+    static async confirmValidationWhileBlocked(task: Task, blockingTasks: Task[]): Promise<boolean> {
+        if (blockingTasks.length === 0) {
+            return true;
+        }
+
+        const validateAnyway = l10n.t('Validate Anyway');
+        const choice = await window.showWarningMessage(
+            l10n.t('Task "{0}" is blocked by prerequisites that are not done yet: {1}', task.title, blockingTasks.map(blockingTask => blockingTask.title).join(', ')),
+            { modal: true },
+            validateAnyway
+        );
+        return choice === validateAnyway;
+    }
+
+    /**
+     * Counts the past occurrences of a task from its history: validated, skipped and missed ones.
+     * Skipped occurrences were not due, so they don't count against the completion rate.
+     */
+    static getOccurrenceStats(task: Task): { done: number; skipped: number; missed: number; completionRate: number } {
+        const done = task.comments.filter(comment => comment.isValidation).length;
+        const skipped = task.comments.filter(comment => comment.kind === 'skipped').length;
+        const missed = task.comments
+            .filter(comment => comment.kind === 'missed')
+            .reduce((count, comment) => count + (comment.missedCount || 1), 0);
+        const total = done + missed;
+
+        return {
+            done,
+            skipped,
+            missed,
+            completionRate: total > 0 ? Math.round((done / total) * 100) : 100
+        };
     }
 
     /**
@@ -226,6 +460,10 @@ export class TaskStatusUtil {
         if (task.status === 'archived' && (!task.periodicity.isRecurring || task.periodicity.type === 'none')) {
             return l10n.t('✅ Completed');
         }
+
+        if (task.status === 'paused') {
+            return l10n.t('⏸️ {0}', TaskStatusUtil.formatPaused(task));
+        }
         
         const progress = TaskStatusUtil.getTimeProgress(task);
         const timeRemaining = TaskStatusUtil.getTimeRemaining(task);
@@ -0,0 +1,106 @@
+/**
+ * Utility class for converting dates between instants and wall-clock times in IANA time zones
+ */
+export class TimeZoneUtil {
+    private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+    /**
+     * Checks if a string is a time zone known to the runtime (e.g. 'Europe/Paris')
+     */
+    static isValidTimeZone(timeZone: string): boolean {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Gets the time zone of the machine running the extension
+     */
+    static getLocalTimeZone(): string {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone;
+    }
+
+    /**
+     * Gets the wall-clock time of an instant in a time zone, as a Date whose local fields hold that time
+     */
+    static toWallClock(date: Date, timeZone: string): Date {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit'
+        }).formatToParts(date);
+        const field = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+        return new Date(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'), date.getMilliseconds());
+    }
+
+    /**
+     * Gets the instant at which a time zone's wall clock shows the local fields of a Date.
+     * Times repeated by a DST change resolve to their first occurrence, times skipped by one move forward by the gap.
+     */
+    static fromWallClock(wallClock: Date, timeZone: string): Date {
+        const target = Date.UTC(
+            wallClock.getFullYear(), wallClock.getMonth(), wallClock.getDate(),
+            wallClock.getHours(), wallClock.getMinutes(), wallClock.getSeconds(), wallClock.getMilliseconds()
+        );
+
+        // The offset depends on the instant itself: try the offsets in force a day before and a day after,
+        // which differ when a DST change is near, and keep the earliest instant showing the wall-clock time
+        const offsetBefore = TimeZoneUtil.getOffsetMs(new Date(target - TimeZoneUtil.DAY_MS), timeZone);
+        const offsetAfter = TimeZoneUtil.getOffsetMs(new Date(target + TimeZoneUtil.DAY_MS), timeZone);
+        const candidates = [target - offsetBefore, target - offsetAfter]
+            .filter(instant => TimeZoneUtil.getOffsetMs(new Date(instant), timeZone) === target - instant);
+        if (candidates.length > 0) {
+            return new Date(Math.min(...candidates));
+        }
+
+        // Neither offset matches: the wall-clock time falls in a DST gap, counted with the offset before it
+        return new Date(target - offsetBefore);
+    }
+
+    /**
+     * Gets the offset of a time zone from UTC at an instant, in milliseconds
+     */
+    static getOffsetMs(date: Date, timeZone: string): number {
+        const wallClock = TimeZoneUtil.toWallClock(date, timeZone);
+        const wallClockAsUtc = Date.UTC(
+            wallClock.getFullYear(), wallClock.getMonth(), wallClock.getDate(),
+            wallClock.getHours(), wallClock.getMinutes(), wallClock.getSeconds(), wallClock.getMilliseconds()
+        );
+        return wallClockAsUtc - date.getTime();
+    }
+
+    /**
+     * Builds a due date from form values: a 'YYYY-MM-DD' day, an optional 'HH:mm' time and an optional time zone.
+     * Days without a time are stored at local midnight.
+     */
+    static createDueDate(day: string, time?: string, timeZone?: string): Date {
+        const [year, month, date] = day.split('-').map(part => parseInt(part, 10));
+        const [hours, minutes] = time ? time.split(':').map(part => parseInt(part, 10)) : [0, 0];
+        const wallClock = new Date(year, month - 1, date, hours, minutes);
+
+        return time && timeZone ? TimeZoneUtil.fromWallClock(wallClock, timeZone) : wallClock;
+    }
+
+    /**
+     * Formats the day of a date as 'YYYY-MM-DD', in a time zone or in local time
+     */
+    static formatDay(date: Date, timeZone?: string): string {
+        const wallClock = timeZone ? TimeZoneUtil.toWallClock(date, timeZone) : date;
+        const month = String(wallClock.getMonth() + 1).padStart(2, '0');
+        const day = String(wallClock.getDate()).padStart(2, '0');
+        return `${wallClock.getFullYear()}-${month}-${day}`;
+    }
+
+    /**
+     * Formats the time of a date as 'HH:mm', in a time zone or in local time
+     */
+    static formatTime(date: Date, timeZone?: string): string {
+        const wallClock = timeZone ? TimeZoneUtil.toWallClock(date, timeZone) : date;
+        return `${String(wallClock.getHours()).padStart(2, '0')}:${String(wallClock.getMinutes()).padStart(2, '0')}`;
+    }
+}
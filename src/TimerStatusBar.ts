@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { l10n } from 'vscode';
+import { TaskManager } from './TaskManager';
+import { TaskStatusUtil } from './TaskStatusUtil';
+
+/**
+ * Shows the running or paused task timer in the status bar
+ */
+export class TimerStatusBar implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private updateInterval: NodeJS.Timeout;
+    private readonly UPDATE_INTERVAL_MS = 1000; // Tick every second
+
+    constructor(private taskManager: TaskManager) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+
+        // Timers are started and stopped from several views, so the item follows the tasks instead of being notified
+        this.updateInterval = setInterval(() => this.update(), this.UPDATE_INTERVAL_MS);
+        this.update();
+    }
+
+    /**
+     * Updates the status bar item from the current timer
+     */
+    update(): void {
+        const task = this.taskManager.getTimerTask();
+
+        if (!task) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const isRunning = !!task.timer?.runningSince;
+        const trackedTime = TimerStatusBar.formatClock(TaskStatusUtil.getTrackedTime(task));
+
+        this.statusBarItem.text = `$(${isRunning ? 'watch' : 'debug-pause'}) ${task.title} ${trackedTime}`;
+        this.statusBarItem.tooltip = isRunning
+            ? l10n.t('Timer running on "{0}". Click to show the task.', task.title)
+            : l10n.t('Timer paused on "{0}". Click to show the task.', task.title);
+        this.statusBarItem.command = {
+            command: 'recurringtasks.showTaskDetails',
+            title: l10n.t('Show Task Details'),
+            arguments: [task]
+        };
+        this.statusBarItem.show();
+    }
+
+    /**
+     * Formats a duration in milliseconds as a clock, e.g. "1:05:09" or "5:09"
+     */
+    private static formatClock(duration: number): string {
+        const totalSeconds = Math.floor(duration / 1000);
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor((totalSeconds % 3600) / 60);
+        const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+        return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+    }
+
+    /**
+     * Stops updating and removes the status bar item
+     */
+    dispose(): void {
+        clearInterval(this.updateInterval);
+        this.statusBarItem.dispose();
+    }
+}
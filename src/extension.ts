@@ -10,6 +10,9 @@ import { CalendarProvider } from './CalendarProvider';
 import { TaskDetailsProvider } from './TaskDetailsProvider';
 import { Commands } from './Commands';
 import { NotificationManager } from './NotificationManager';
+import { BusinessCalendar } from './BusinessCalendar';
+import { TimerStatusBar } from './TimerStatusBar';
+import { BackupManager } from './BackupManager';
 import { l10n } from 'vscode';
 
 // Global variables to maintain references
@@ -19,6 +22,8 @@ let taskManager: TaskManager;
 let storageManager: StorageManager;
 let commands: Commands;
 let notificationManager: NotificationManager;
+let timerStatusBar: TimerStatusBar;
+let backupManager: BackupManager;
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -31,6 +36,12 @@ export function activate(context: vscode.ExtensionContext) {
 		
 		// Initialize the task manager with storage
 		taskManager = new TaskManager(storageManager);
+		context.subscriptions.push(storageManager);
+		
+		// Take backups of the tasks of this window daily and before destructive operations
+		backupManager = new BackupManager(context, storageManager, taskManager);
+		storageManager.setBackupManager(backupManager);
+		context.subscriptions.push(backupManager);
 		
 		// Set the task manager in the TaskDetailsProvider for comment management
 		TaskDetailsProvider.setTaskManager(taskManager);
@@ -53,8 +64,12 @@ export function activate(context: vscode.ExtensionContext) {
 		// Set the notification manager in the TaskDetailsProvider for notification state display
 		TaskDetailsProvider.setNotificationManager(notificationManager);
 		
+		// Show the running task timer in the status bar
+		timerStatusBar = new TimerStatusBar(taskManager);
+		context.subscriptions.push(timerStatusBar);
+		
 		// Initialize commands with task manager, providers, and notification manager
-		commands = new Commands(taskManager, taskProvider, calendarProvider, context.extensionUri, notificationManager);
+		commands = new Commands(taskManager, taskProvider, calendarProvider, context.extensionUri, notificationManager, backupManager);
 		
 		// Register the tree view
 		const treeView = vscode.window.createTreeView('recurringTasks.view', {
@@ -70,6 +85,21 @@ export function activate(context: vscode.ExtensionContext) {
 		// Register all commands
 		commands.registerCommands(context);
 		
+		// Tasks can only move between stores when the workspace store is available
+		vscode.commands.executeCommand('setContext', 'recurringTasks.hasWorkspaceStore', taskManager.getStores().length > 1);
+		
+		// Reload the tasks when the shared tasks file changes (e.g. after a git pull), and read it a first time
+		context.subscriptions.push(
+			storageManager.onDidChangeSharedTasks(() => {
+				taskManager.reloadTasks();
+				taskProvider.refresh();
+				calendarProvider.refresh();
+				TaskDetailsProvider.refreshWebviewForNotificationChange();
+			})
+		);
+		// Daily backups start once the shared tasks are read, so that they include them
+		storageManager.watchSharedFile().then(() => backupManager.startDailyBackups());
+		
 		// Register notification commands
 		context.subscriptions.push(
 			vscode.commands.registerCommand('recurringtasks.checkNotifications', () => {
@@ -86,6 +116,33 @@ export function activate(context: vscode.ExtensionContext) {
 			})
 		);
 		
+		// Load the holiday calendar used for business days, and reload it when its settings change
+		const loadBusinessCalendar = async () => {
+			BusinessCalendar.setActive(await BusinessCalendar.loadFromSettings(context.extensionUri));
+			taskProvider.refresh();
+			calendarProvider.refresh();
+		};
+		loadBusinessCalendar();
+		context.subscriptions.push(
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration('recurringTasks.businessDays')) {
+					loadBusinessCalendar();
+				}
+				if (event.affectsConfiguration('recurringTasks.tree') || event.affectsConfiguration('recurringTasks.assignees') || event.affectsConfiguration('recurringTasks.postpone')) {
+					taskProvider.refresh();
+				}
+				if (event.affectsConfiguration('recurringTasks.storage.sharedFile')) {
+					vscode.commands.executeCommand('setContext', 'recurringTasks.hasWorkspaceStore', taskManager.getStores().length > 1);
+					storageManager.watchSharedFile();
+					taskProvider.refresh();
+				}
+				if (event.affectsConfiguration('recurringTasks.priority')) {
+					taskProvider.refresh();
+					calendarProvider.refresh();
+				}
+			})
+		);
+		
 		taskProvider.refresh();
 		calendarProvider.refresh();
 		
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { PeriodicityHelper, TaskStore } from '../Task';
+import { BackupManager } from '../BackupManager';
+
+/**
+ * Builds a task as written in a backup (dates as strings)
+ */
+function backedUpTask(id: string, store: TaskStore, overrides: Record<string, unknown> = {}) {
+	return {
+		id,
+		title: `Task ${id}`,
+		periodicity: PeriodicityHelper.createWeekly(),
+		creationDate: '2025-01-01T00:00:00.000Z',
+		dueDate: '2025-01-06T00:00:00.000Z',
+		seriesStart: '2025-01-06T00:00:00.000Z',
+		comments: [],
+		status: 'active',
+		store,
+		...overrides
+	};
+}
+
+/**
+ * Writes the content of a backup of some tasks, taken with all the stores available
+ */
+function backupContent(tasks: object[], templates: object[] = [], stores: TaskStore[] = ['global', 'workspace', 'shared']): string {
+	return JSON.stringify({ backupDate: '2025-01-10T00:00:00.000Z', reason: 'daily', version: 4, stores, tasks, templates });
+}
+
+suite('BackupManager', () => {
+	suite('compare', () => {
+		test('lists the tasks restoring brings back, removes and reverts', () => {
+			const current = [backedUpTask('kept', 'global'), backedUpTask('renamed', 'global', { title: 'New title' }), backedUpTask('new', 'global')];
+			const content = backupContent([backedUpTask('kept', 'global'), backedUpTask('renamed', 'global'), backedUpTask('deleted', 'global')]);
+
+			const comparison = BackupManager.compare(JSON.parse(JSON.stringify(current)), content, ['global']);
+
+			assert.deepStrictEqual(comparison.added.map(task => task.id), ['deleted']);
+			assert.deepStrictEqual(comparison.removed.map(task => task.id), ['new']);
+			assert.deepStrictEqual(comparison.changed.map(({ current, backup }) => [current.title, backup.title]), [['New title', 'Task renamed']]);
+		});
+
+		test('leaves out the tasks of the stores that are not restored', () => {
+			const current = [backedUpTask('team', 'shared', { title: 'Changed' }), backedUpTask('local', 'workspace')];
+			const content = backupContent([backedUpTask('team', 'shared'), backedUpTask('old', 'workspace')]);
+
+			const comparison = BackupManager.compare(JSON.parse(JSON.stringify(current)), content, ['global', 'workspace']);
+
+			assert.deepStrictEqual(comparison.added.map(task => task.id), ['old']);
+			assert.deepStrictEqual(comparison.removed.map(task => task.id), ['local']);
+			assert.deepStrictEqual(comparison.changed, []);
+		});
+
+		test('reads backups taken with an older schema', () => {
+			const content = JSON.stringify({ tasks: [{ ...backedUpTask('old', 'global'), periodicity: { value: 2, unit: 'weeks' } }] });
+			const [added] = BackupManager.compare([], content, ['global']).added;
+			assert.deepStrictEqual([added.periodicity.type, added.periodicity.interval], ['custom', 2]);
+		});
+	});
+
+	suite('getRestoredStores', () => {
+		const content = backupContent([backedUpTask('a', 'global')]);
+
+		test('restores the shared store only when asked for', () => {
+			assert.deepStrictEqual(BackupManager.getRestoredStores(content, ['global', 'workspace', 'shared'], false), ['global', 'workspace']);
+			assert.deepStrictEqual(BackupManager.getRestoredStores(content, ['global', 'workspace', 'shared'], true), ['global', 'workspace', 'shared']);
+		});
+
+		test('restores only the stores backed up that this window has', () => {
+			assert.deepStrictEqual(BackupManager.getRestoredStores(content, ['global'], true), ['global']);
+			assert.deepStrictEqual(BackupManager.getRestoredStores(backupContent([backedUpTask('a', 'global')], [], ['global']), ['global', 'workspace'], true), ['global']);
+		});
+
+		test('restores no store from a backup without tasks', () => {
+			assert.deepStrictEqual(BackupManager.getRestoredStores(backupContent([], [{ name: 'Weekly review' }]), ['global', 'workspace'], true), []);
+		});
+	});
+});
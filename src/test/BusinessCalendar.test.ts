@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { BusinessCalendar } from '../BusinessCalendar';
+import { day } from './testUtils';
+
+suite('BusinessCalendar', () => {
+	const calendar = new BusinessCalendar(BusinessCalendar.parseJson(JSON.stringify({
+		holidays: [
+			{ name: 'Christmas', date: '12-25' },
+			{ name: 'Easter Monday', easterOffset: 1 },
+			{ name: 'Thanksgiving', rrule: 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH' },
+			{ name: 'Company day', date: '2025-06-13' }
+		]
+	})));
+
+	suite('working days', () => {
+		test('weekends and holidays are not working days', () => {
+			assert.strictEqual(calendar.isWorkingDay(new Date(2025, 11, 27)), false);
+			assert.strictEqual(calendar.getHolidayName(new Date(2025, 11, 25)), 'Christmas');
+			assert.strictEqual(calendar.getHolidayName(new Date(2025, 3, 21)), 'Easter Monday');
+			assert.strictEqual(calendar.getHolidayName(new Date(2025, 10, 27)), 'Thanksgiving');
+			assert.strictEqual(calendar.getHolidayName(new Date(2025, 5, 13)), 'Company day');
+			assert.strictEqual(calendar.getHolidayName(new Date(2026, 5, 13)), undefined);
+			assert.strictEqual(calendar.isWorkingDay(new Date(2025, 11, 26)), true);
+		});
+
+		test('adds and removes business days across weekends and holidays', () => {
+			assert.strictEqual(day(calendar.addBusinessDays(new Date(2025, 11, 19), 5)), '2025-12-29');
+			assert.strictEqual(day(calendar.addBusinessDays(new Date(2025, 11, 29), -5)), '2025-12-19');
+		});
+
+		test('rolls non-working days to the next or previous working day', () => {
+			assert.strictEqual(day(calendar.roll(new Date(2025, 11, 27), 'next')), '2025-12-29');
+			assert.strictEqual(day(calendar.roll(new Date(2025, 11, 27), 'previous')), '2025-12-26');
+			assert.strictEqual(day(calendar.roll(new Date(2025, 11, 26), 'next')), '2025-12-26');
+		});
+	});
+
+	suite('parseJson', () => {
+		test('accepts an array of holidays and names unnamed ones', () => {
+			assert.deepStrictEqual(BusinessCalendar.parseJson('[{ "date": "01-01" }]'), [{ name: 'Holiday 1', date: '01-01' }]);
+		});
+
+		test('rejects invalid entries', () => {
+			for (const content of [
+				'{}',
+				'[42]',
+				'[{ "name": "Both", "date": "01-01", "easterOffset": 1 }]',
+				'[{ "name": "Bad date", "date": "1/1" }]',
+				'[{ "name": "Bad offset", "easterOffset": "1" }]',
+				'[{ "name": "Monthly", "rrule": "FREQ=MONTHLY" }]'
+			]) {
+				assert.throws(() => BusinessCalendar.parseJson(content), Error, content);
+			}
+		});
+	});
+
+	suite('parseIcs', () => {
+		test('keeps yearly events as yearly holidays and other events as their own dates', () => {
+			const content = [
+				'BEGIN:VCALENDAR',
+				'BEGIN:VEVENT',
+				'DTSTART;VALUE=DATE:20250714',
+				'RRULE:FREQ=YEARLY;COUNT=10',
+				'SUMMARY:Bastille Day',
+				'END:VEVENT',
+				'BEGIN:VEVENT',
+				'DTSTART;VALUE=DATE:20250804',
+				'DTEND;VALUE=DATE:20250806',
+				'SUMMARY:Summer closing\\, part 1',
+				'END:VEVENT',
+				'BEGIN:VEVENT',
+				'DTSTART;VALUE=DATE:20250101',
+				'RRULE:FREQ=YEARLY;BYMONTH=5;BYDAY=',
+				' -1MO',
+				'SUMMARY:Memorial Day',
+				'END:VEVENT',
+				'END:VCALENDAR'
+			].join('\r\n');
+
+			assert.deepStrictEqual(BusinessCalendar.parseIcs(content), [
+				{ name: 'Bastille Day', date: '07-14' },
+				{ name: 'Summer closing, part 1', date: '2025-08-04' },
+				{ name: 'Summer closing, part 1', date: '2025-08-05' },
+				{ name: 'Memorial Day', rrule: 'FREQ=YEARLY;BYMONTH=5;BYDAY=-1MO' }
+			]);
+		});
+	});
+});
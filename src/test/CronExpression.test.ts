@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { CronExpressionHelper } from '../CronExpression';
+
+/**
+ * Formats a date as YYYY-MM-DD HH:mm in local time
+ */
+function time(date: Date | null): string {
+	assert.ok(date);
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Lists the first runs of an expression strictly after a date
+ */
+function runs(text: string, after: Date, count: number): string[] {
+	const expression = CronExpressionHelper.parse(text);
+	const dates: string[] = [];
+	let current = after;
+	for (let i = 0; i < count; i++) {
+		const next = CronExpressionHelper.nextOccurrence(expression, current);
+		dates.push(time(next));
+		current = next!;
+	}
+	return dates;
+}
+
+suite('CronExpressionHelper', () => {
+	suite('parse', () => {
+		test('reads ranges, steps, lists and names', () => {
+			const expression = CronExpressionHelper.parse(' */15  9-17 * jan,jul mon-fri ');
+			assert.strictEqual(expression.text, '*/15 9-17 * JAN,JUL MON-FRI');
+			assert.deepStrictEqual(expression.minute.values, [0, 15, 30, 45]);
+			assert.deepStrictEqual(expression.hour.values, [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+			assert.deepStrictEqual(expression.month.values, [1, 7]);
+			assert.deepStrictEqual(expression.dayOfWeek.values, [1, 2, 3, 4, 5]);
+		});
+
+		test('reads a start with a step as running to the end of the field', () => {
+			assert.deepStrictEqual(CronExpressionHelper.parse('5/20 * * * *').minute.values, [5, 25, 45]);
+		});
+
+		test('accepts 7 as Sunday', () => {
+			assert.deepStrictEqual(CronExpressionHelper.parse('0 0 * * 0,7').dayOfWeek.values, [0]);
+		});
+
+		test('rejects malformed expressions and expressions that never run', () => {
+			for (const text of ['', '* * * *', '* * * * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '*/0 * * * *', '5-1 * * * *', '*-5 * * * *', '* * * FOO *', '0 0 30 2 *']) {
+				assert.strictEqual(CronExpressionHelper.isValid(text), false, text);
+				assert.throws(() => CronExpressionHelper.parse(text), Error, text);
+			}
+		});
+
+		test('accepts a day of month missing from the month when a day of week is given', () => {
+			assert.strictEqual(CronExpressionHelper.isValid('0 0 30 2 MON'), true);
+		});
+	});
+
+	suite('describe', () => {
+		test('describes fixed times and weekday ranges', () => {
+			assert.strictEqual(CronExpressionHelper.describe(CronExpressionHelper.parse('0 9 * * 1-5')), 'At 09:00 on Monday through Friday');
+		});
+
+		test('describes days of month and months', () => {
+			assert.strictEqual(CronExpressionHelper.describe(CronExpressionHelper.parse('30 8 1,15 * *')), 'At 08:30 on day-of-month 1 and 15');
+			assert.match(CronExpressionHelper.describe(CronExpressionHelper.parse('0 0 1 JAN,JUL *')), /in January and July$/);
+		});
+
+		test('describes steps and ranges', () => {
+			assert.strictEqual(CronExpressionHelper.describe(CronExpressionHelper.parse('*/15 9-17 13 * FRI')),
+				'At every 15th minute past every hour from 9 through 17 on day-of-month 13 or on Friday');
+		});
+	});
+
+	suite('occurrences', () => {
+		test('runs every quarter hour during working hours on weekdays', () => {
+			// Friday, January 10, 2025
+			assert.deepStrictEqual(runs('*/15 9-17 * * 1-5', new Date(2025, 0, 10, 17, 30), 3), [
+				'2025-01-10 17:45',
+				'2025-01-13 09:00',
+				'2025-01-13 09:15'
+			]);
+		});
+
+		test('runs on either day when both day fields are restricted', () => {
+			// The 13th of the month or any Friday
+			assert.deepStrictEqual(runs('0 12 13 * FRI', new Date(2025, 0, 10, 12), 3), [
+				'2025-01-13 12:00',
+				'2025-01-17 12:00',
+				'2025-01-24 12:00'
+			]);
+		});
+
+		test('skips months without the chosen day', () => {
+			assert.deepStrictEqual(runs('0 0 31 * *', new Date(2025, 0, 31), 2), ['2025-03-31 00:00', '2025-05-31 00:00']);
+		});
+
+		test('finds Feb 29 in the next leap year', () => {
+			assert.deepStrictEqual(runs('0 0 29 2 *', new Date(2025, 0, 1), 1), ['2028-02-29 00:00']);
+		});
+
+		test('runs on the chosen weekday when the chosen day of month never exists', () => {
+			// Monday, February 3, 2025
+			assert.strictEqual(time(CronExpressionHelper.nextOccurrence(CronExpressionHelper.parse('0 0 30 2 MON'), new Date(2025, 0, 1))), '2025-02-03 00:00');
+		});
+
+		test('finds the previous run', () => {
+			const expression = CronExpressionHelper.parse('0 9 * * 1-5');
+			// Monday, January 13, 2025 at 09:00
+			assert.strictEqual(time(CronExpressionHelper.previousOccurrence(expression, new Date(2025, 0, 13, 9))), '2025-01-10 09:00');
+			assert.strictEqual(time(CronExpressionHelper.previousOccurrence(expression, new Date(2025, 0, 13, 9, 1))), '2025-01-13 09:00');
+		});
+	});
+});
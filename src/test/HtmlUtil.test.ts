@@ -0,0 +1,12 @@
+import * as assert from 'assert';
+import { HtmlUtil } from '../HtmlUtil';
+
+suite('HtmlUtil', () => {
+	test('escapes markup and both kinds of quotes', () => {
+		assert.strictEqual(HtmlUtil.escape(`<b class="x">Tom & Jerry's</b>`), '&lt;b class=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/b&gt;');
+	});
+
+	test('escapes ampersands only once', () => {
+		assert.strictEqual(HtmlUtil.escape('&lt;'), '&amp;lt;');
+	});
+});
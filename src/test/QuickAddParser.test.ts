@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { PeriodicityHelper } from '../Task';
+import { RecurrenceRuleHelper } from '../RecurrenceRule';
+import { QuickAddParser, QuickAddResult } from '../QuickAddParser';
+
+/** Friday, January 10, 2025 */
+const NOW = new Date(2025, 0, 10, 8, 0);
+
+/**
+ * Formats a date as YYYY-MM-DD, with HH:mm when it has a time of day
+ */
+function format(date: Date): string {
+	const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+	return date.getHours() || date.getMinutes() ? `${day} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}` : day;
+}
+
+/**
+ * Describes the recurrence of a parsed task as an RRULE, or 'none' for one-shot tasks
+ */
+function rule(result: QuickAddResult): string {
+	const recurrence = PeriodicityHelper.getRule(result.periodicity);
+	return recurrence ? RecurrenceRuleHelper.format(recurrence) : 'none';
+}
+
+suite('QuickAddParser', () => {
+	suite('English', () => {
+		test('reads an interval, a start date, tags and a priority', () => {
+			const result = QuickAddParser.parse('Renew TLS certs every 3 months starting Jan 15 #security !high', 'en', NOW);
+			assert.strictEqual(result.title, 'Renew TLS certs');
+			assert.strictEqual(rule(result), 'FREQ=MONTHLY;INTERVAL=3');
+			assert.strictEqual(format(result.dueDate), '2025-01-15');
+			assert.deepStrictEqual(result.tags, ['security']);
+			assert.strictEqual(result.priority, 'high');
+		});
+
+		test('reads weekdays and a time, due on the first of these days', () => {
+			const result = QuickAddParser.parse('Standup every Monday and Thursday at 9:30am', 'en', NOW);
+			assert.strictEqual(result.title, 'Standup');
+			assert.strictEqual(rule(result), 'FREQ=WEEKLY;BYDAY=MO,TH');
+			assert.strictEqual(format(result.dueDate), '2025-01-13 09:30');
+			assert.strictEqual(result.hasDueTime, true);
+		});
+
+		test('reads end conditions', () => {
+			const until = QuickAddParser.parse('Pay rent monthly until Jun 1 2025', 'en', NOW);
+			assert.strictEqual(until.title, 'Pay rent');
+			assert.strictEqual(format(until.periodicity.until!), '2025-06-01');
+
+			const count = QuickAddParser.parse('Water the cuttings every other day for 6 times', 'en', NOW);
+			assert.strictEqual(rule(count), 'FREQ=DAILY;INTERVAL=2');
+			assert.strictEqual(count.periodicity.count, 6);
+		});
+
+		test('reads relative dates and dates already past this year', () => {
+			const tomorrow = QuickAddParser.parse('Call the bank tomorrow', 'en', NOW);
+			assert.strictEqual(rule(tomorrow), 'none');
+			assert.strictEqual(format(tomorrow.dueDate), '2025-01-11');
+			assert.strictEqual(format(QuickAddParser.parse('Renew the domain Jan 5', 'en', NOW).dueDate), '2026-01-05');
+			assert.strictEqual(format(QuickAddParser.parse('Book flights next fri', 'en', NOW).dueDate), '2025-01-17');
+		});
+
+		test('rejects lines without a title and dates that do not exist', () => {
+			assert.throws(() => QuickAddParser.parse('every week #chores', 'en', NOW), /title/);
+			assert.throws(() => QuickAddParser.parse('Pay taxes Feb 30', 'en', NOW), /Invalid date/);
+			assert.throws(() => QuickAddParser.parse('Deploy tomorrow at 25:00', 'en', NOW), /Invalid time/);
+		});
+	});
+
+	suite('French', () => {
+		test('reads an interval, a start date, tags and a priority', () => {
+			const result = QuickAddParser.parse('Renouveler les certificats tous les 3 mois à partir du 15 janvier #sécurité !haute', 'fr', NOW);
+			assert.strictEqual(result.title, 'Renouveler les certificats');
+			assert.strictEqual(rule(result), 'FREQ=MONTHLY;INTERVAL=3');
+			assert.strictEqual(format(result.dueDate), '2025-01-15');
+			assert.deepStrictEqual(result.tags, ['sécurité']);
+			assert.strictEqual(result.priority, 'high');
+		});
+
+		test('reads weekdays and a time', () => {
+			const result = QuickAddParser.parse('Réunion tous les lundis et jeudis à 9h30', 'fr', NOW);
+			assert.strictEqual(result.title, 'Réunion');
+			assert.strictEqual(rule(result), 'FREQ=WEEKLY;BYDAY=MO,TH');
+			assert.strictEqual(format(result.dueDate), '2025-01-13 09:30');
+		});
+
+		test('reads numeric dates day first', () => {
+			assert.strictEqual(format(QuickAddParser.parse('Bilan le 05/02/2025', 'fr', NOW).dueDate), '2025-02-05');
+			assert.strictEqual(format(QuickAddParser.parse('Bilan on 05/02/2025', 'en', NOW).dueDate), '2025-05-02');
+		});
+
+		test('falls back to English when nothing French is recognized', () => {
+			assert.strictEqual(rule(QuickAddParser.parse('Standup every Monday', 'fr', NOW)), 'FREQ=WEEKLY;BYDAY=MO');
+		});
+	});
+
+	suite('getUpcomingDates', () => {
+		test('lists the first due dates, month ends included', () => {
+			const result = QuickAddParser.parse('Close the books monthly starting Jan 31', 'en', NOW);
+			assert.deepStrictEqual(QuickAddParser.getUpcomingDates(result, 3).map(format), ['2025-01-31', '2025-02-28', '2025-03-31']);
+		});
+
+		test('stops at the occurrence count', () => {
+			const result = QuickAddParser.parse('Take the pills daily for 3 times', 'en', NOW);
+			assert.strictEqual(QuickAddParser.getUpcomingDates(result, 5).length, 3);
+		});
+	});
+});
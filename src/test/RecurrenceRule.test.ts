@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { RecurrenceRule, RecurrenceRuleHelper } from '../RecurrenceRule';
+import { day } from './testUtils';
+
+/**
+ * Lists the first occurrences of a rule strictly after a date
+ */
+function occurrences(rule: RecurrenceRule, anchor: Date, count: number): string[] {
+	const dates: string[] = [];
+	let after = new Date(anchor.getTime() - 1);
+	for (let i = 0; i < count; i++) {
+		const next = RecurrenceRuleHelper.nextOccurrence(rule, anchor, after);
+		dates.push(day(next));
+		after = next!;
+	}
+	return dates;
+}
+
+suite('RecurrenceRuleHelper', () => {
+	suite('parse', () => {
+		test('reads the rule parts', () => {
+			assert.deepStrictEqual(RecurrenceRuleHelper.parse('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR'), {
+				freq: 'MONTHLY',
+				interval: 2,
+				byDay: [{ weekday: 'TU', ordinal: 2 }, { weekday: 'FR', ordinal: -1 }]
+			});
+		});
+
+		test('defaults the interval to 1', () => {
+			assert.strictEqual(RecurrenceRuleHelper.parse('freq=weekly').interval, 1);
+		});
+
+		test('rejects malformed and unsupported rules', () => {
+			for (const text of ['', 'INTERVAL=2', 'FREQ=HOURLY', 'FREQ=DAILY;INTERVAL=0', 'FREQ=DAILY;BYDAY=XX', 'FREQ=DAILY;COUNT=3', 'FREQ=MONTHLY;BYMONTHDAY=32']) {
+				assert.throws(() => RecurrenceRuleHelper.parse(text), Error, text);
+			}
+		});
+
+		test('rejects combinations RFC 5545 does not allow', () => {
+			assert.throws(() => RecurrenceRuleHelper.parse('FREQ=WEEKLY;BYDAY=1MO'));
+			assert.throws(() => RecurrenceRuleHelper.parse('FREQ=WEEKLY;BYMONTHDAY=1'));
+			assert.throws(() => RecurrenceRuleHelper.parse('FREQ=MONTHLY;BYSETPOS=1'));
+		});
+	});
+
+	suite('format and describe', () => {
+		test('formats a parsed rule back to the same text', () => {
+			const text = 'FREQ=YEARLY;INTERVAL=2;BYMONTH=3;BYDAY=-1SU;WKST=SU';
+			assert.strictEqual(RecurrenceRuleHelper.format(RecurrenceRuleHelper.parse(text)), text);
+		});
+
+		test('describes ordinals and months', () => {
+			assert.strictEqual(
+				RecurrenceRuleHelper.describe(RecurrenceRuleHelper.parse('FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU')),
+				'Yearly on the last Sunday in March'
+			);
+			assert.strictEqual(
+				RecurrenceRuleHelper.describe(RecurrenceRuleHelper.parse('FREQ=MONTHLY;INTERVAL=3;BYDAY=2TU')),
+				'Every 3 months on the 2nd Tuesday'
+			);
+		});
+	});
+
+	suite('occurrences', () => {
+		test('nth weekday of the month', () => {
+			assert.deepStrictEqual(
+				occurrences(RecurrenceRuleHelper.parse('FREQ=MONTHLY;BYDAY=2TU'), new Date(2025, 0, 14), 3),
+				['2025-01-14', '2025-02-11', '2025-03-11']
+			);
+		});
+
+		test('last day of the month, leap years included', () => {
+			assert.deepStrictEqual(
+				occurrences(RecurrenceRuleHelper.parse('FREQ=MONTHLY;BYMONTHDAY=-1'), new Date(2024, 0, 31), 3),
+				['2024-01-31', '2024-02-29', '2024-03-31']
+			);
+		});
+
+		test('last working day of the month with BYSETPOS', () => {
+			assert.deepStrictEqual(
+				occurrences(RecurrenceRuleHelper.parse('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'), new Date(2025, 4, 30), 2),
+				['2025-05-30', '2025-06-30']
+			);
+		});
+
+		test('several weekdays every other week', () => {
+			assert.deepStrictEqual(
+				occurrences(RecurrenceRuleHelper.parse('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'), new Date(2025, 0, 6), 4),
+				['2025-01-06', '2025-01-09', '2025-01-20', '2025-01-23']
+			);
+		});
+
+		test('keeps the time of day of the anchor', () => {
+			const next = RecurrenceRuleHelper.nextOccurrence({ freq: 'DAILY', interval: 1 }, new Date(2025, 0, 1, 9, 30), new Date(2025, 0, 1, 10));
+			assert.deepStrictEqual(next, new Date(2025, 0, 2, 9, 30));
+		});
+
+		test('keeps the interval alignment of the anchor far from it', () => {
+			const next = RecurrenceRuleHelper.nextOccurrence({ freq: 'DAILY', interval: 3 }, new Date(2000, 0, 1), new Date(2025, 0, 1));
+			assert.strictEqual(day(next), '2025-01-04');
+		});
+
+		test('finds the previous occurrence', () => {
+			const rule = RecurrenceRuleHelper.parse('FREQ=MONTHLY;BYDAY=-1FR');
+			assert.strictEqual(day(RecurrenceRuleHelper.previousOccurrence(rule, new Date(2025, 2, 28), new Date(2025, 2, 28))), '2025-02-28');
+			assert.strictEqual(day(RecurrenceRuleHelper.previousOccurrence(rule, new Date(2025, 0, 31), new Date(2025, 5, 1))), '2025-05-30');
+		});
+	});
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { Comment, PeriodicityHelper, Task } from '../Task';
+import { SharedTaskFile } from '../SharedTaskFile';
+import { StorageSchema } from '../StorageSchema';
+
+/**
+ * Builds a task in its stored form (dates as strings), as found in a shared task file
+ */
+function storedTask(id: string, overrides: Record<string, unknown> = {}): Task {
+	return {
+		id,
+		title: `Task ${id}`,
+		periodicity: PeriodicityHelper.createWeekly(),
+		creationDate: '2025-01-01T00:00:00.000Z',
+		dueDate: '2025-01-06T00:00:00.000Z',
+		seriesStart: '2025-01-06T00:00:00.000Z',
+		comments: [],
+		status: 'active',
+		...overrides
+	} as unknown as Task;
+}
+
+/**
+ * Builds a stored comment
+ */
+function storedComment(id: string, date: string): Comment {
+	return { id, text: `Comment ${id}`, date, isValidation: false } as unknown as Comment;
+}
+
+suite('SharedTaskFile', () => {
+	suite('merge', () => {
+		test('keeps a rename made elsewhere and a comment added here', () => {
+			const base = [storedTask('a')];
+			const ours = [storedTask('a', { comments: [storedComment('c1', '2025-01-03T10:00:00.000Z')] })];
+			const theirs = [storedTask('a', { title: 'Renamed', comments: [storedComment('c2', '2025-01-02T10:00:00.000Z')] })];
+
+			const [merged] = SharedTaskFile.merge(base, ours, theirs);
+			assert.strictEqual(merged.title, 'Renamed');
+			assert.deepStrictEqual(merged.comments.map(comment => comment.id), ['c2', 'c1']);
+		});
+
+		test('prefers this window when both sides change the same property', () => {
+			const merged = SharedTaskFile.merge(
+				[storedTask('a')],
+				[storedTask('a', { title: 'Ours', priority: 'high' })],
+				[storedTask('a', { title: 'Theirs', description: 'Added elsewhere' })]
+			);
+			assert.deepStrictEqual([merged[0].title, merged[0].priority, merged[0].description], ['Ours', 'high', 'Added elsewhere']);
+		});
+
+		test('takes the other side when only it changed a task', () => {
+			const merged = SharedTaskFile.merge([storedTask('a')], [storedTask('a')], [storedTask('a', { title: 'Theirs' })]);
+			assert.strictEqual(merged[0].title, 'Theirs');
+		});
+
+		test('applies a deletion made elsewhere unless the task was changed here', () => {
+			const base = [storedTask('a'), storedTask('b')];
+			const ours = [storedTask('a'), storedTask('b', { title: 'Changed here' })];
+			assert.deepStrictEqual(SharedTaskFile.merge(base, ours, []).map(task => task.title), ['Changed here']);
+		});
+
+		test('applies a deletion made here', () => {
+			const base = [storedTask('a'), storedTask('b')];
+			assert.deepStrictEqual(SharedTaskFile.merge(base, [storedTask('a')], base).map(task => task.id), ['a']);
+		});
+
+		test('keeps the tasks added on either side', () => {
+			const base = [storedTask('a')];
+			const merged = SharedTaskFile.merge(base, [storedTask('a'), storedTask('ours')], [storedTask('a'), storedTask('theirs')]);
+			assert.deepStrictEqual(merged.map(task => task.id), ['a', 'ours', 'theirs']);
+		});
+	});
+
+	suite('isSame', () => {
+		test('ignores the order of properties and the store', () => {
+			const task = storedTask('a', { tags: ['home'] });
+			const reordered = Object.fromEntries(Object.entries(task).reverse()) as unknown as Task;
+			assert.strictEqual(SharedTaskFile.isSame(task, { ...reordered, store: 'shared' }), true);
+			assert.strictEqual(SharedTaskFile.isSame(task, storedTask('a', { tags: ['work'] })), false);
+		});
+	});
+
+	suite('parse and serialize', () => {
+		test('reads back what it writes, without the store', () => {
+			const tasks = [storedTask('a', { store: 'shared' })];
+			const content = SharedTaskFile.serialize(tasks);
+			assert.strictEqual(JSON.parse(content).version, StorageSchema.CURRENT_VERSION);
+			assert.deepStrictEqual(SharedTaskFile.parse(content), [storedTask('a')]);
+		});
+
+		test('reads an empty file as no tasks and migrates older files', () => {
+			assert.deepStrictEqual(SharedTaskFile.parse('  \n'), []);
+			const [task] = SharedTaskFile.parse(JSON.stringify({
+				tasks: [{ ...storedTask('a'), periodicity: { value: 2, unit: 'weeks' }, seriesStart: undefined }]
+			}));
+			assert.deepStrictEqual([task.periodicity.type, task.periodicity.interval, task.periodicity.unit], ['custom', 2, 'week']);
+			assert.strictEqual(task.seriesStart, task.dueDate);
+		});
+
+		test('rejects content that is not a shared task file, or has tasks that cannot be read', () => {
+			assert.throws(() => SharedTaskFile.parse('{ "tasks": '), SyntaxError);
+			assert.throws(() => SharedTaskFile.parse('{ "version": 4 }'), /no "tasks" array/);
+			assert.throws(() => SharedTaskFile.parse(JSON.stringify({ version: 4, tasks: [storedTask('a', { title: '' })] })), /missing title/);
+		});
+	});
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { PeriodicityHelper } from '../Task';
+import { StorageSchema, StoredTask } from '../StorageSchema';
+
+/**
+ * Builds a task in its current stored form
+ */
+function storedTask(overrides: StoredTask = {}): StoredTask {
+	return {
+		id: 'task_1',
+		title: 'Renew the certificates',
+		periodicity: PeriodicityHelper.createMonthly(),
+		creationDate: '2025-01-01T00:00:00.000Z',
+		dueDate: '2025-01-31T00:00:00.000Z',
+		seriesStart: '2025-01-31T00:00:00.000Z',
+		comments: [],
+		status: 'active',
+		...overrides
+	};
+}
+
+suite('StorageSchema', () => {
+	suite('getVersion', () => {
+		test('reads unversioned data and the former format label as version 1', () => {
+			assert.strictEqual(StorageSchema.getVersion(3), 3);
+			assert.strictEqual(StorageSchema.getVersion(undefined), 1);
+			assert.strictEqual(StorageSchema.getVersion('1.0'), 1);
+		});
+	});
+
+	suite('migrate', () => {
+		test('brings version 1 tasks to the current schema', () => {
+			const { tasks, quarantined } = StorageSchema.migrate([
+				storedTask({ periodicity: { value: 3, unit: 'months' }, comments: [{ text: 'Done', date: '2025-01-02T00:00:00.000Z' }], seriesStart: undefined }),
+				storedTask({ id: 'task_2', periodicity: { value: 1, unit: 'one-shot' } })
+			], 1);
+
+			assert.deepStrictEqual(quarantined, []);
+			assert.deepStrictEqual(tasks[0].periodicity, PeriodicityHelper.createInterval(3, 'month'));
+			assert.deepStrictEqual(tasks[0].comments, [{ text: 'Done', date: '2025-01-02T00:00:00.000Z', id: 'comment_task_1_0' }]);
+			assert.strictEqual(tasks[0].seriesStart, '2025-01-31T00:00:00.000Z');
+			assert.deepStrictEqual(tasks[1].periodicity, PeriodicityHelper.createOneShot());
+		});
+
+		test('gives version 2 custom intervals their former unit, days', () => {
+			const { tasks } = StorageSchema.migrate([storedTask({ periodicity: { type: 'custom', interval: 10, description: 'Every 10 days', isRecurring: true } })], 2);
+			assert.deepStrictEqual(tasks[0].periodicity, { type: 'custom', interval: 10, unit: 'day', description: 'Every 10 days', isRecurring: true });
+		});
+
+		test('leaves current tasks untouched and keeps quarantined tasks as found', () => {
+			const current = storedTask();
+			const broken = { id: 'task_2', periodicity: { value: 2, unit: 'fortnights' } };
+			const { tasks, quarantined } = StorageSchema.migrate([current, broken, 'not a task'], 1);
+
+			assert.deepStrictEqual(tasks, [current]);
+			assert.deepStrictEqual(quarantined.map(task => task.data), [broken, 'not a task']);
+			assert.match(quarantined[0].error, /Unknown periodicity/);
+			assert.strictEqual(quarantined[1].error, 'Not a task');
+		});
+
+		test('quarantines tasks missing what loading them needs', () => {
+			const { quarantined } = StorageSchema.migrate([
+				storedTask({ id: '' }),
+				storedTask({ title: '' }),
+				storedTask({ dueDate: 'soon' }),
+				storedTask({ comments: 'none' })
+			], StorageSchema.CURRENT_VERSION);
+			assert.deepStrictEqual(quarantined.map(task => task.error), [
+				'Missing id',
+				'Task task_1: missing title',
+				'Task "Renew the certificates": invalid due date "soon"',
+				'Task "Renew the certificates": invalid comments'
+			]);
+		});
+
+		test('quarantines tasks whose periodicity does not fit its type', () => {
+			const periodicities = [
+				{ type: 'fortnightly' },
+				{ type: 'custom', interval: 0, unit: 'day' },
+				{ type: 'custom', interval: 1.5, unit: 'day' },
+				{ type: 'custom', interval: 2, unit: 'fortnight' },
+				{ type: 'rrule' },
+				{ type: 'rrule', rrule: { freq: 'HOURLY', interval: 1 } },
+				{ type: 'rrule', rrule: { interval: 1 } },
+				{ type: 'rrule', rrule: { freq: 'DAILY', interval: -1 } },
+				{ type: 'rrule', rrule: { freq: 'MONTHLY', interval: 1, byDay: [{ weekday: 'XX' }] } },
+				{ type: 'cron', cron: '0 9 * *' },
+				{ type: 'cron' },
+				{ type: 'daily', count: 0 },
+				{ type: 'daily', until: 'never' }
+			];
+			const { tasks, quarantined } = StorageSchema.migrate(periodicities.map(periodicity => storedTask({ periodicity })), StorageSchema.CURRENT_VERSION);
+
+			assert.deepStrictEqual(tasks, []);
+			for (const task of quarantined) {
+				assert.match(task.error, /^Task "Renew the certificates": invalid periodicity \(.+\)$/);
+			}
+		});
+
+		test('accepts every valid kind of periodicity', () => {
+			const periodicities = [
+				PeriodicityHelper.createOneShot(),
+				PeriodicityHelper.createWeekly(),
+				PeriodicityHelper.createBusinessDays(5),
+				{ ...PeriodicityHelper.createFromRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=12'), until: '2026-01-01T00:00:00.000Z' },
+				PeriodicityHelper.createFromCron('0 9 * * 1-5')
+			];
+			const { quarantined } = StorageSchema.migrate(JSON.parse(JSON.stringify(periodicities.map(periodicity => storedTask({ periodicity })))), StorageSchema.CURRENT_VERSION);
+			assert.deepStrictEqual(quarantined, []);
+		});
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import { Periodicity, PeriodicityHelper } from '../Task';
+import { day } from './testUtils';
+
+/**
+ * Lists the due dates following a first one on a fixed schedule
+ */
+function followingDueDates(first: Date, periodicity: Periodicity, count: number): string[] {
+	const dates: string[] = [];
+	let current = first;
+	for (let i = 0; i < count; i++) {
+		current = PeriodicityHelper.calculateFollowingDueDate(current, periodicity, { seriesStart: first });
+		dates.push(day(current));
+	}
+	return dates;
+}
+
+suite('PeriodicityHelper', () => {
+	suite('schedule-anchored series', () => {
+		test('monthly series on the 31st go back to the month end after a short month', () => {
+			assert.deepStrictEqual(
+				followingDueDates(new Date(2025, 0, 31), PeriodicityHelper.createMonthly(), 4),
+				['2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31']
+			);
+		});
+
+		test('quarterly series on the 31st keep the month end', () => {
+			assert.deepStrictEqual(
+				followingDueDates(new Date(2025, 0, 31), PeriodicityHelper.createInterval(3, 'month'), 4),
+				['2025-04-30', '2025-07-31', '2025-10-31', '2026-01-31']
+			);
+		});
+
+		test('yearly series on Feb 29 come back to Feb 29 in leap years', () => {
+			assert.deepStrictEqual(
+				followingDueDates(new Date(2024, 1, 29), PeriodicityHelper.createYearly(), 4),
+				['2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']
+			);
+		});
+
+		test('a late validation skips past occurrences and keeps the series day', () => {
+			const next = PeriodicityHelper.calculateNextDueDate(
+				new Date(2025, 1, 28),
+				PeriodicityHelper.createMonthly(),
+				{ anchorMode: 'schedule', seriesStart: new Date(2025, 0, 31) },
+				new Date(2025, 3, 2)
+			);
+			assert.strictEqual(day(next), '2025-04-30');
+		});
+
+		test('a series started long ago still finds its next occurrence', () => {
+			const next = PeriodicityHelper.calculateNextDueDate(
+				new Date(2024, 5, 1),
+				PeriodicityHelper.createDaily(),
+				{ anchorMode: 'schedule', seriesStart: new Date(2000, 0, 1) },
+				new Date(2024, 5, 10, 12)
+			);
+			assert.strictEqual(day(next), '2024-06-11');
+		});
+
+		test('the previous due date follows the series start', () => {
+			const previous = PeriodicityHelper.calculatePreviousDueDate(
+				new Date(2025, 2, 31),
+				PeriodicityHelper.createMonthly(),
+				{ anchorMode: 'schedule', seriesStart: new Date(2025, 0, 31) }
+			);
+			assert.strictEqual(day(previous), '2025-02-28');
+		});
+	});
+
+	suite('non-working days', () => {
+		const options = { anchorMode: 'schedule' as const, seriesStart: new Date(2026, 9, 30), nonWorkingDayPolicy: 'previous' as const };
+
+		test('an occurrence rolled back to the current due date is not due a second time', () => {
+			// Saturday, January 30, 2027 rolls back to Friday 29; Sunday, February 28 rolls back to Friday 26
+			for (const now of [new Date(2027, 0, 28), new Date(2027, 0, 29)]) {
+				const next = PeriodicityHelper.calculateNextDueDate(new Date(2027, 0, 29), PeriodicityHelper.createMonthly(), options, now);
+				assert.strictEqual(day(next), '2027-02-26');
+			}
+		});
+
+		test('occurrences rolled back are listed once', () => {
+			const occurrences = PeriodicityHelper.getOccurrencesUntil(new Date(2026, 11, 30), PeriodicityHelper.createMonthly(), options, new Date(2027, 2, 1));
+			assert.deepStrictEqual(occurrences.map(day), ['2027-01-29', '2027-02-26']);
+		});
+	});
+
+	suite('time zones', () => {
+		test('daily tasks keep their wall-clock due time across a DST change', () => {
+			// Paris moves from +1 to +2 on March 30, 2025
+			const next = PeriodicityHelper.calculateFollowingDueDate(
+				new Date(Date.UTC(2025, 2, 29, 8, 0)),
+				PeriodicityHelper.createDaily(),
+				{ hasDueTime: true, timeZone: 'Europe/Paris' }
+			);
+			assert.strictEqual(next.toISOString(), '2025-03-30T07:00:00.000Z');
+		});
+	});
+
+	suite('completion-anchored series', () => {
+		test('the next due date counts from the validation day', () => {
+			const next = PeriodicityHelper.calculateNextDueDate(
+				new Date(2025, 0, 31),
+				PeriodicityHelper.createMonthly(),
+				{ anchorMode: 'completion', seriesStart: new Date(2025, 0, 31) },
+				new Date(2025, 1, 3)
+			);
+			assert.strictEqual(day(next), '2025-03-03');
+		});
+	});
+});
@@ -0,0 +1,202 @@
+import * as assert from 'assert';
+import { PeriodicityHelper } from '../Task';
+import { TaskStatusUtil } from '../TaskStatusUtil';
+import { BackupManager } from '../BackupManager';
+import { TaskManager } from '../TaskManager';
+import { createTaskManager, daysAgo } from './testUtils';
+
+suite('TaskManager', () => {
+	suite('prerequisites', () => {
+		test('notes the prerequisites not done yet in the validation comment', () => {
+			const { taskManager } = createTaskManager();
+			const backup = taskManager.addTask('Back up the database', PeriodicityHelper.createWeekly(), daysAgo(1));
+			const upgrade = taskManager.addTask('Upgrade the database', PeriodicityHelper.createWeekly(), daysAgo(1));
+			taskManager.setDependencies(upgrade.id, [backup.id]);
+
+			const validated = taskManager.validateTask(upgrade.id, 'Done')!;
+
+			assert.match(validated.comments[0].text, /^Done\n\nValidated before its prerequisites: Back up the database/);
+		});
+	});
+
+	suite('catching up on missed occurrences', () => {
+		test('records every missed occurrence of a long-forgotten task, grouping the oldest ones', () => {
+			const { taskManager } = createTaskManager();
+			const task = taskManager.addTask('Water the plants', PeriodicityHelper.createDaily(), daysAgo(400), undefined, { catchUpPolicy: 'skipMissed' });
+
+			const validated = taskManager.validateTask(task.id, '')!;
+
+			const missedEntries = validated.comments.filter(comment => comment.kind === 'missed');
+			assert.strictEqual(missedEntries.length, 367);
+			assert.strictEqual(missedEntries[0].missedCount, 34);
+			assert.strictEqual(validated.occurrences!.filter(occurrence => occurrence.outcome === 'missed').length, 366);
+			assert.strictEqual(TaskStatusUtil.getOccurrenceStats(validated).missed, 400);
+			assert.strictEqual(validated.completedOccurrences, 401);
+		});
+
+		test('stops at the occurrence count of the series', () => {
+			const { taskManager } = createTaskManager();
+			const periodicity = { ...PeriodicityHelper.createDaily(), count: 5 };
+			const task = taskManager.addTask('Onboarding check-in', periodicity, daysAgo(10), undefined, { catchUpPolicy: 'skipMissed' });
+
+			const validated = taskManager.validateTask(task.id, '')!;
+
+			assert.strictEqual(validated.comments.filter(comment => comment.kind === 'missed').length, 4);
+			assert.strictEqual(validated.occurrences!.find(occurrence => occurrence.outcome === 'done')!.scheduledDate.getTime(), daysAgo(6).getTime());
+			assert.strictEqual(validated.completedOccurrences, 5);
+			assert.strictEqual(validated.status, 'archived');
+		});
+
+		test('stops at the end date of the series', () => {
+			const { taskManager } = createTaskManager();
+			const periodicity = { ...PeriodicityHelper.createDaily(), until: daysAgo(7) };
+			const task = taskManager.addTask('Sprint retro notes', periodicity, daysAgo(10), undefined, { catchUpPolicy: 'skipMissed' });
+
+			const validated = taskManager.validateTask(task.id, '')!;
+
+			assert.strictEqual(TaskStatusUtil.getOccurrenceStats(validated).missed, 3);
+			assert.strictEqual(validated.status, 'archived');
+		});
+	});
+
+	suite('import', () => {
+		test('skips tasks and templates whose periodicity does not fit its type', () => {
+			const { taskManager } = createTaskManager();
+			const weekly = PeriodicityHelper.createWeekly();
+			const result = taskManager.importTasks(JSON.stringify({
+				tasks: [
+					{ id: 'a', title: 'Valid', periodicity: weekly, dueDate: daysAgo(0), comments: [] },
+					{ id: 'b', title: 'Hourly', periodicity: { type: 'rrule', rrule: { freq: 'HOURLY', interval: 1 } }, dueDate: daysAgo(0), comments: [] }
+				],
+				templates: [
+					{ name: 'Valid', titlePattern: 'Valid', periodicity: weekly },
+					{ name: 'Fortnightly', titlePattern: 'Fortnightly', periodicity: { type: 'custom', interval: 2, unit: 'fortnight' } }
+				]
+			}));
+
+			assert.deepStrictEqual([result.imported, result.importedTemplates], [1, 1]);
+			assert.deepStrictEqual(taskManager.getTemplates().map(template => template.name), ['Valid']);
+			assert.strictEqual(result.errors.length, 2);
+			assert.match(result.errors.join('\n'), /Unsupported FREQ: HOURLY[\s\S]*unknown unit "fortnight"/);
+		});
+
+		test('sends the workspace tasks of another workspace to the global store', function () {
+			const { taskManager } = createTaskManager();
+			if (!taskManager.getStores().includes('workspace')) {
+				this.skip(); // No workspace store to keep them from
+			}
+			taskManager.importTasks(JSON.stringify({
+				workspace: 'file:///elsewhere',
+				tasks: [{ id: 'a', title: 'Elsewhere', periodicity: PeriodicityHelper.createWeekly(), dueDate: daysAgo(0), comments: [], store: 'workspace' }]
+			}));
+
+			assert.strictEqual(taskManager.getAllTasks()[0].store, 'global');
+		});
+	});
+
+	suite('restoring a backup', () => {
+		test('keeps the tasks when the backup only has templates', () => {
+			const { taskManager } = createTaskManager();
+			taskManager.addTask('Weekly review', PeriodicityHelper.createWeekly(), daysAgo(0));
+			const content = JSON.stringify({
+				tasks: [],
+				templates: [{ name: 'Monthly review', titlePattern: 'Monthly review', periodicity: PeriodicityHelper.createMonthly() }]
+			});
+
+			const result = taskManager.restoreTasks(content, BackupManager.getRestoredStores(content, taskManager.getStores(), true));
+
+			assert.strictEqual(result.success, true);
+			assert.deepStrictEqual(taskManager.getAllTasks().map(task => task.title), ['Weekly review']);
+			assert.deepStrictEqual(taskManager.getTemplates().map(template => template.name), ['Monthly review']);
+		});
+
+		test('keeps the tasks of the stores not restored and the templates when the backup has none', function () {
+			const { taskManager } = createTaskManager();
+			if (!taskManager.getStores().includes('workspace')) {
+				this.skip(); // Only the global store to restore
+			}
+			const task = taskManager.addTask('Weekly review', PeriodicityHelper.createWeekly(), daysAgo(0));
+			taskManager.saveTaskAsTemplate(task.id, 'Review');
+			taskManager.addTask('Rotate the logs', PeriodicityHelper.createWeekly(), daysAgo(0), undefined, { store: 'workspace' });
+			const content = JSON.stringify({
+				stores: ['global', 'workspace'],
+				tasks: [{ id: 'old', title: 'Old global task', periodicity: PeriodicityHelper.createWeekly(), dueDate: daysAgo(7), comments: [], store: 'global' }]
+			});
+
+			taskManager.restoreTasks(content, ['global']);
+
+			assert.deepStrictEqual(taskManager.getAllTasks().map(task => task.title).sort(), ['Old global task', 'Rotate the logs']);
+			assert.deepStrictEqual(taskManager.getTemplates().map(template => template.name), ['Review']);
+		});
+	});
+
+	suite('undo and redo', () => {
+		test('undoes and redoes operations, including their effect on other tasks', () => {
+			const { taskManager, storageManager } = createTaskManager();
+			const backup = taskManager.addTask('Back up the database', PeriodicityHelper.createWeekly(), daysAgo(1));
+			const upgrade = taskManager.addTask('Upgrade the database', PeriodicityHelper.createWeekly(), daysAgo(1));
+			taskManager.setDependencies(upgrade.id, [backup.id]);
+			taskManager.validateTask(backup.id, 'Done');
+			taskManager.deleteTask(backup.id);
+
+			assert.strictEqual(taskManager.undo()!.label, 'Delete "Back up the database"');
+			assert.deepStrictEqual(taskManager.getTask(upgrade.id)!.dependsOn, [backup.id]);
+			assert.strictEqual(taskManager.undo()!.label, 'Validate "Back up the database"');
+			assert.deepStrictEqual(taskManager.getTask(backup.id)!.comments, []);
+			assert.strictEqual(taskManager.getTask(backup.id)!.dueDate.getTime(), daysAgo(1).getTime());
+			// Undoing saves the tasks as they were
+			assert.deepStrictEqual(new TaskManager(storageManager).getTask(backup.id)!.comments, []);
+
+			assert.strictEqual(taskManager.redo()!.label, 'Validate "Back up the database"');
+			assert.strictEqual(taskManager.getTask(backup.id)!.comments.length, 1);
+			assert.strictEqual(taskManager.redo()!.label, 'Delete "Back up the database"');
+			assert.strictEqual(taskManager.getTask(backup.id), null);
+			assert.deepStrictEqual(taskManager.getTask(upgrade.id)!.dependsOn, []);
+			assert.strictEqual(taskManager.redo(), null);
+		});
+
+		test('forgets the operations undone once a new operation is done', () => {
+			const { taskManager } = createTaskManager();
+			const task = taskManager.addTask('Water the plants', PeriodicityHelper.createWeekly(), daysAgo(0));
+			taskManager.updateTask(task.id, { title: 'Water the garden' });
+			taskManager.undo();
+			assert.strictEqual(taskManager.getLastUndoneOperation()!.label, 'Edit "Water the garden"');
+
+			taskManager.addTask('Mow the lawn', PeriodicityHelper.createWeekly(), daysAgo(0));
+
+			assert.strictEqual(taskManager.getLastUndoneOperation(), null);
+			assert.strictEqual(taskManager.redo(), null);
+			assert.strictEqual(taskManager.getTask(task.id)!.title, 'Water the plants');
+		});
+
+		test('keeps the last 50 operations', () => {
+			const { taskManager } = createTaskManager();
+			const task = taskManager.addTask('Edit 0', PeriodicityHelper.createWeekly(), daysAgo(0));
+			for (let i = 1; i <= 55; i++) {
+				taskManager.updateTask(task.id, { title: `Edit ${i}` });
+			}
+
+			let undone = 0;
+			while (taskManager.undo()) {
+				undone++;
+			}
+
+			assert.strictEqual(undone, 50);
+			assert.strictEqual(taskManager.getTask(task.id)!.title, 'Edit 5');
+		});
+
+		test('does not record changes saved without an operation, nor undo them with the next one', () => {
+			const { taskManager } = createTaskManager();
+			const task = taskManager.addTask('Water the plants', PeriodicityHelper.createWeekly(), daysAgo(0));
+			taskManager.pauseTask(task.id, daysAgo(-1));
+			taskManager.updatePausedTasks(daysAgo(-2));
+			assert.strictEqual(taskManager.getLastOperation()!.label, 'Pause "Water the plants"');
+
+			taskManager.updateTask(task.id, { title: 'Water the garden' });
+			taskManager.undo();
+
+			assert.strictEqual(taskManager.getTask(task.id)!.title, 'Water the plants');
+			assert.strictEqual(taskManager.getTask(task.id)!.status, 'active');
+		});
+	});
+});
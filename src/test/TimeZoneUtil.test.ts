@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { TimeZoneUtil } from '../TimeZoneUtil';
+
+suite('TimeZoneUtil', () => {
+	test('recognizes IANA time zones', () => {
+		assert.strictEqual(TimeZoneUtil.isValidTimeZone('Europe/Paris'), true);
+		assert.strictEqual(TimeZoneUtil.isValidTimeZone('Not/AZone'), false);
+	});
+
+	test('converts between instants and wall-clock times', () => {
+		const instant = new Date(Date.UTC(2025, 0, 15, 8, 0));
+		const wallClock = TimeZoneUtil.toWallClock(instant, 'Europe/Paris');
+		assert.deepStrictEqual([wallClock.getDate(), wallClock.getHours()], [15, 9]);
+		assert.strictEqual(TimeZoneUtil.fromWallClock(wallClock, 'Europe/Paris').toISOString(), instant.toISOString());
+		assert.strictEqual(TimeZoneUtil.getOffsetMs(instant, 'Asia/Tokyo'), 9 * 60 * 60 * 1000);
+	});
+
+	test('times repeated when DST ends resolve to their first occurrence', () => {
+		// Sydney goes back from 03:00 AEDT (+11) to 02:00 AEST (+10) on April 6, 2025
+		const instant = TimeZoneUtil.fromWallClock(new Date(2025, 3, 6, 2, 30), 'Australia/Sydney');
+		assert.strictEqual(instant.toISOString(), '2025-04-05T15:30:00.000Z');
+	});
+
+	test('times skipped when DST starts move forward by the gap', function () {
+		// Sydney goes forward from 02:00 AEST (+10) to 03:00 AEDT (+11) on October 5, 2025
+		const wallClock = new Date(2025, 9, 5, 2, 30);
+		if (wallClock.getHours() !== 2) {
+			this.skip(); // The local time zone cannot hold this wall-clock time either
+		}
+		assert.strictEqual(TimeZoneUtil.fromWallClock(wallClock, 'Australia/Sydney').toISOString(), '2025-10-04T16:30:00.000Z');
+	});
+
+	test('builds due dates from form values', () => {
+		assert.strictEqual(TimeZoneUtil.createDueDate('2025-07-01', '09:00', 'Asia/Tokyo').toISOString(), '2025-07-01T00:00:00.000Z');
+		assert.strictEqual(TimeZoneUtil.createDueDate('2025-07-01').getTime(), new Date(2025, 6, 1).getTime());
+	});
+
+	test('formats days and times in a time zone', () => {
+		const instant = new Date(Date.UTC(2025, 6, 1, 23, 15));
+		assert.strictEqual(TimeZoneUtil.formatDay(instant, 'Asia/Tokyo'), '2025-07-02');
+		assert.strictEqual(TimeZoneUtil.formatTime(instant, 'Asia/Tokyo'), '08:15');
+		assert.strictEqual(TimeZoneUtil.formatTime(instant, 'America/New_York'), '19:15');
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { StorageManager } from '../StorageManager';
+import { TaskManager } from '../TaskManager';
+
+/**
+ * A memento kept in memory, standing for the global and workspace state of the extension
+ */
+class MemoryMemento implements vscode.Memento {
+	private readonly values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, value);
+	}
+}
+
+/**
+ * Creates a task manager storing its tasks in memory
+ */
+export function createTaskManager(): { taskManager: TaskManager; storageManager: StorageManager } {
+	const context = { globalState: new MemoryMemento(), workspaceState: new MemoryMemento() } as unknown as vscode.ExtensionContext;
+	const storageManager = new StorageManager(context);
+	return { taskManager: new TaskManager(storageManager), storageManager };
+}
+
+/**
+ * Gets the date a number of days before today, at midnight
+ */
+export function daysAgo(days: number): Date {
+	const today = new Date();
+	return new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export function day(date: Date | null): string {
+	assert.ok(date);
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}